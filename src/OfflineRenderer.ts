@@ -0,0 +1,312 @@
+import type { AudioAnalyzerOptions } from './audio/AudioAnalyzer'
+import type { BeatDetectionConfig } from './audio/BeatDetector'
+import type { TempoConfig } from './audio/TempoTracker'
+import type { PCMAudio } from './audio/wav'
+import type { CompositorOptions } from './presets/Compositor'
+import type { CubeLUT } from './presets/cubeLUT'
+import type { EffectStackEntry } from './presets/effects'
+import type { Preset } from './presets/Preset'
+import type { ToneMapping } from './presets/toneMapping'
+import { AudioAnalyzer } from './audio/AudioAnalyzer'
+import { collectAudioData } from './audio/audioData'
+import { BeatDetector } from './audio/BeatDetector'
+import { TempoTracker } from './audio/TempoTracker'
+import { createSeededRandom, VirtualClock } from './core/Clock'
+import { GLContext } from './core/GLContext'
+import { MEGABUF_SIZE } from './presets/milkdrop/eel/compiler'
+import { PresetRunner } from './presets/PresetRunner'
+
+// Web Audio renders in blocks of 128 frames, and suspend() snaps to block boundaries
+const RENDER_QUANTUM = 128
+
+export const DEFAULT_OFFLINE_FPS = 60
+export const DEFAULT_OFFLINE_SEED = 1
+
+// Encoded files (ArrayBuffer, Blob) are decoded with the browser's decoders
+export type OfflineAudioSource = AudioBuffer | ArrayBuffer | Blob | PCMAudio
+
+export type OfflineFrameFormat = 'rgba' | 'png'
+
+export interface OfflineRendererConfig {
+  canvas?: HTMLCanvasElement
+  width?: number
+  height?: number
+  fftSize?: number
+  smoothingTimeConstant?: number
+  audioAnalysis?: AudioAnalyzerOptions
+  beatDetection?: Partial<BeatDetectionConfig>
+  tempo?: Partial<TempoConfig>
+  toneMapping?: ToneMapping
+  exposure?: number
+  effects?: EffectStackEntry[]
+  compositor?: CompositorOptions
+  lut?: CubeLUT
+}
+
+export interface OfflineRenderOptions {
+  fps?: number
+  // Seconds into the audio to start from
+  start?: number
+  // Seconds to render (default: to the end of the audio)
+  duration?: number
+  format?: OfflineFrameFormat
+  // Seed for Milkdrop's rand(); the same seed gives the same frames
+  seed?: number
+  // Rate encoded files are decoded at (default: 44100)
+  sampleRate?: number
+}
+
+export interface OfflineFrame {
+  index: number
+  // Seconds since the start of the render
+  time: number
+  width: number
+  height: number
+  // RGBA bytes, top row first (format 'rgba')
+  pixels?: Uint8Array
+  // format 'png'
+  png?: Blob
+}
+
+export type OfflineFrameCallback = (frame: OfflineFrame) => void | Promise<void>
+
+export interface OfflineRenderResult {
+  frameCount: number
+  duration: number
+}
+
+// Per-render analysis and playback state
+interface RenderSession {
+  clock: VirtualClock
+  audioAnalyzer: AudioAnalyzer
+  beatDetector: BeatDetector
+  tempoTracker: TempoTracker
+  presetRunner: PresetRunner
+}
+
+export async function decodeOfflineAudio(audio: OfflineAudioSource, sampleRate = 44100): Promise<AudioBuffer> {
+  if (audio instanceof AudioBuffer)
+    return audio
+
+  try {
+    if (audio instanceof ArrayBuffer || audio instanceof Blob) {
+      // decodeAudioData detaches its input, so decode a copy
+      const data = audio instanceof Blob ? await audio.arrayBuffer() : audio.slice(0)
+      return await new OfflineAudioContext(1, 1, sampleRate).decodeAudioData(data)
+    }
+
+    if (audio.channels.length === 0) {
+      throw new Error('PCM audio has no channels')
+    }
+
+    const length = Math.max(...audio.channels.map(channel => channel.length))
+    const buffer = new AudioBuffer({ length, numberOfChannels: audio.channels.length, sampleRate: audio.sampleRate })
+    audio.channels.forEach((channel, i) => buffer.copyToChannel(new Float32Array(channel), i))
+    return buffer
+  }
+  catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    throw new Error(`Failed to decode audio: ${errorMessage}`)
+  }
+}
+
+// Renders a preset against an audio file as fast as the GPU allows, stepping
+// analysis and preset time frame by frame on a virtual clock
+export class OfflineRenderer {
+  private canvas: HTMLCanvasElement
+  private glContext: GLContext
+  private config: OfflineRendererConfig
+  private rendering = false
+
+  constructor(config: OfflineRendererConfig = {}) {
+    this.config = config
+    this.canvas = config.canvas || document.createElement('canvas')
+    this.canvas.width = config.width ?? 1920
+    this.canvas.height = config.height ?? 1080
+
+    // Frames are read back after drawing, so keep the drawing buffer around
+    this.glContext = new GLContext(this.canvas, { preserveDrawingBuffer: true })
+  }
+
+  public async render(
+    preset: Preset,
+    audio: OfflineAudioSource,
+    onFrame: OfflineFrameCallback,
+    options: OfflineRenderOptions = {},
+  ): Promise<OfflineRenderResult> {
+    if (this.rendering) {
+      throw new Error('OfflineRenderer is already rendering')
+    }
+
+    this.rendering = true
+    try {
+      return await this.renderFrames(preset, await decodeOfflineAudio(audio, options.sampleRate), onFrame, options)
+    }
+    finally {
+      this.rendering = false
+    }
+  }
+
+  private async renderFrames(
+    preset: Preset,
+    buffer: AudioBuffer,
+    onFrame: OfflineFrameCallback,
+    options: OfflineRenderOptions,
+  ): Promise<OfflineRenderResult> {
+    const fps = options.fps ?? DEFAULT_OFFLINE_FPS
+    const format = options.format ?? 'rgba'
+    const start = Math.min(Math.max(options.start ?? 0, 0), buffer.duration)
+    const duration = Math.min(options.duration ?? Infinity, buffer.duration - start)
+    const frameCount = Math.floor(duration * fps)
+
+    if (fps <= 0 || fps > buffer.sampleRate / RENDER_QUANTUM) {
+      throw new Error(`Frame rate must be between 0 and ${buffer.sampleRate / RENDER_QUANTUM} at ${buffer.sampleRate} Hz`)
+    }
+
+    if (frameCount <= 0)
+      return { frameCount: 0, duration: 0 }
+
+    // Padded by a block so the last suspend point always falls inside the render
+    const length = Math.ceil(duration * buffer.sampleRate) + RENDER_QUANTUM
+    const audioContext = new OfflineAudioContext(buffer.numberOfChannels, length, buffer.sampleRate)
+    const source = audioContext.createBufferSource()
+    source.buffer = buffer
+    source.start(0, start, duration)
+
+    // Everything is created per render so no state leaks from one render to the next
+    const clock = new VirtualClock()
+    const audioAnalyzer = new AudioAnalyzer(this.config.fftSize, this.config.smoothingTimeConstant, this.config.audioAnalysis, clock)
+    const beatDetector = new BeatDetector(audioAnalyzer, this.config.beatDetection, clock)
+    const presetRunner = new PresetRunner(this.glContext, {
+      clock,
+      random: createSeededRandom(options.seed ?? DEFAULT_OFFLINE_SEED),
+      gmegabuf: new Float64Array(MEGABUF_SIZE),
+      toneMapping: this.config.toneMapping,
+      exposure: this.config.exposure,
+      effects: this.config.effects,
+      compositor: this.config.compositor,
+    })
+    if (this.config.lut)
+      presetRunner.setLUT(this.config.lut)
+    const session: RenderSession = {
+      clock,
+      audioAnalyzer,
+      beatDetector,
+      tempoTracker: new TempoTracker(beatDetector, this.config.tempo, clock),
+      presetRunner,
+    }
+    audioAnalyzer.connectNode(source, { output: true })
+
+    try {
+      // Textures are loaded first so frame 0 already shows them
+      const result = await presetRunner.loadPresetAsync(preset)
+      if (!result.success) {
+        throw result.error ?? new Error(`Failed to load preset '${preset.metadata.name}'`)
+      }
+
+      // Frame 0 is drawn before any audio has played
+      await onFrame(await this.renderFrame(0, 0, format, session))
+
+      let failure: unknown = null
+      const scheduleFrame = (index: number): void => {
+        const time = index / fps
+        audioContext.suspend(time)
+          .then(async () => {
+            try {
+              await onFrame(await this.renderFrame(index, time, format, session))
+              if (index + 1 < frameCount)
+                scheduleFrame(index + 1)
+            }
+            catch (error) {
+              failure = error
+            }
+            await audioContext.resume()
+          })
+          .catch((error: unknown) => {
+            failure = error
+          })
+      }
+
+      if (frameCount > 1)
+        scheduleFrame(1)
+
+      await audioContext.startRendering()
+
+      if (failure !== null) {
+        throw failure
+      }
+    }
+    finally {
+      source.disconnect()
+      presetRunner.destroy()
+      await audioAnalyzer.destroy()
+    }
+
+    return { frameCount, duration: frameCount / fps }
+  }
+
+  private async renderFrame(index: number, time: number, format: OfflineFrameFormat, session: RenderSession): Promise<OfflineFrame> {
+    // Frame times are exact even though audio suspends snap to render blocks
+    session.clock.setTime(time * 1000)
+
+    session.audioAnalyzer.update()
+    session.beatDetector.update()
+    session.tempoTracker.update()
+
+    const audioData = collectAudioData(session.audioAnalyzer, session.beatDetector, session.tempoTracker)
+
+    // The drawing buffer is preserved, so start every frame from black as on screen
+    this.glContext.clear()
+    session.presetRunner.render(audioData)
+
+    return this.captureFrame(index, time, format)
+  }
+
+  private async captureFrame(index: number, time: number, format: OfflineFrameFormat): Promise<OfflineFrame> {
+    const { width, height } = this.canvas
+    const frame: OfflineFrame = { index, time, width, height }
+
+    // toBlob copies the canvas when called, before anything else draws to it
+    if (format === 'png') {
+      return new Promise((resolve, reject) => {
+        this.canvas.toBlob((blob) => {
+          if (blob)
+            resolve({ ...frame, png: blob })
+          else
+            reject(new Error(`Failed to encode frame ${index} as PNG`))
+        }, 'image/png')
+      })
+    }
+
+    const gl = this.glContext.gl
+    const rowSize = width * 4
+    const pixels = new Uint8Array(rowSize * height)
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null)
+    gl.readPixels(0, 0, width, height, gl.RGBA, gl.UNSIGNED_BYTE, pixels)
+
+    // readPixels starts at the bottom row; images start at the top
+    const row = new Uint8Array(rowSize)
+    for (let top = 0, bottom = height - 1; top < bottom; top++, bottom--) {
+      row.set(pixels.subarray(top * rowSize, (top + 1) * rowSize))
+      pixels.copyWithin(top * rowSize, bottom * rowSize, (bottom + 1) * rowSize)
+      pixels.set(row, bottom * rowSize)
+    }
+
+    return { ...frame, pixels }
+  }
+
+  public resize(width: number, height: number): void {
+    if (this.rendering) {
+      throw new Error('Cannot resize while rendering')
+    }
+    this.glContext.resize(width, height)
+  }
+
+  public getCanvas(): HTMLCanvasElement {
+    return this.canvas
+  }
+
+  public destroy(): void {
+    this.glContext.destroy()
+  }
+}
@@ -1,15 +1,92 @@
+import type { AudioAnalyzerOptions, AudioBufferConnectOptions, AudioConnectOptions } from './audio/AudioAnalyzer'
+import type { BeatDetectionConfig } from './audio/BeatDetector'
+import type { OnsetName } from './audio/beatStrategies'
+import type { TempoConfig } from './audio/TempoTracker'
+import type { EventHandler } from './core/EventEmitter'
+import type { LogLevel } from './core/logger'
+import type { ResolutionScalerOptions } from './core/ResolutionScaler'
+import type { ShaderDiagnostic } from './core/ShaderCompileError'
+import type { CompositorOptions } from './presets/Compositor'
+import type { CubeLUT } from './presets/cubeLUT'
+import type { EffectStackEntry } from './presets/effects'
 import type { Preset } from './presets/Preset'
+import type { AudioData, LoadPresetOptions, PresetLoadResult } from './presets/PresetRunner'
+import type { ToneMapping } from './presets/toneMapping'
 import { AudioAnalyzer } from './audio/AudioAnalyzer'
+import { collectAudioData } from './audio/audioData'
 import { BeatDetector } from './audio/BeatDetector'
+import { ONSET_NAMES } from './audio/beatStrategies'
+import { TempoTracker } from './audio/TempoTracker'
+import { EventEmitter } from './core/EventEmitter'
 import { GLContext } from './core/GLContext'
+import { logger, setLogLevel } from './core/logger'
 import { RenderLoop } from './core/RenderLoop'
+import { ResolutionScaler } from './core/ResolutionScaler'
+import { parseCubeLUT } from './presets/cubeLUT'
 import { PresetRunner } from './presets/PresetRunner'
 
 export interface VisualizerConfig {
   canvas?: HTMLCanvasElement
   width?: number
   height?: number
-  audioElement?: HTMLAudioElement
+  // Source to connect immediately; at most one should be given
+  audioElement?: HTMLMediaElement
+  audioStream?: MediaStream
+  audioNode?: AudioNode
+  audioBuffer?: AudioBuffer
+  microphone?: boolean | MediaTrackConstraints
+  // Route the source to the speakers (default: on for elements and buffers, off otherwise)
+  audioOutput?: boolean
+  fftSize?: number
+  smoothingTimeConstant?: number
+  audioAnalysis?: AudioAnalyzerOptions
+  beatDetection?: Partial<BeatDetectionConfig>
+  tempo?: Partial<TempoConfig>
+  // Cap on frames per second (default: the display's refresh rate)
+  targetFPS?: number
+  // Stop rendering while the page is hidden or the canvas is scrolled out of view (default: on)
+  pauseWhenHidden?: boolean
+  pauseWhenOffscreen?: boolean
+  // Drop to silentFPS after this many milliseconds below silenceThreshold energy (default: off)
+  silenceTimeout?: number
+  silenceThreshold?: number
+  silentFPS?: number
+  // Match the canvas's drawing buffer to its CSS size times the pixel ratio, as it changes
+  autoResize?: boolean
+  // Pixel ratio for autoResize (default: devicePixelRatio); lower it to save fill rate
+  pixelRatio?: number
+  // Render presets below canvas resolution while frames run over budget, and upscale
+  dynamicResolution?: boolean | ResolutionScalerOptions
+  // Bring float presets' colors above 1 into the canvas's range (default: 'none', which clips)
+  toneMapping?: ToneMapping
+  exposure?: number
+  // Post-processing after every preset that doesn't set its own
+  effects?: EffectStackEntry[]
+  // Aspect, symmetry and colour adjustments at the output
+  compositor?: CompositorOptions
+  // Console output from the whole library (default: 'info'); events report the same things
+  logLevel?: LogLevel
+}
+
+export type AudioSourceKind = 'element' | 'microphone' | 'stream' | 'node' | 'buffer'
+
+export interface VisualizerEvents {
+  // A detected beat, the frame u_beat is 1
+  beat: { strength: number, bpm: number }
+  onset: { name: OnsetName, strength: number }
+  presetLoaded: { preset: Preset }
+  presetError: { preset: Preset, error: Error, diagnostics: ShaderDiagnostic[] }
+  // Measured about once a second
+  fps: { fps: number }
+  // After each rendered frame; deltaTime is in seconds
+  frame: { frame: number, deltaTime: number, audioData: AudioData }
+  audioConnected: { source: AudioSourceKind }
+  // Rendering pauses until the browser restores the context
+  contextLost: { event: Event }
+  // GPU resources are rebuilt and rendering resumes; a preset that fails to rebuild also emits presetError
+  contextRestored: { preset: Preset | null }
+  // The frame threw; rendering continues with the next one
+  renderError: { error: Error }
 }
 
 export class Visualizer {
@@ -17,10 +94,22 @@ export class Visualizer {
   private renderLoop: RenderLoop
   private audioAnalyzer: AudioAnalyzer
   private beatDetector: BeatDetector
+  private tempoTracker: TempoTracker
   private presetRunner: PresetRunner
   private canvas: HTMLCanvasElement
+  private events = new EventEmitter<VisualizerEvents>()
+  private frameCount = 0
+  private config: VisualizerConfig
+  private visibilityObserver: IntersectionObserver | null = null
+  private silentSince: number | null = null
+  private resizeObserver: ResizeObserver | null = null
+  private resolutionScaler: ResolutionScaler | null = null
 
   constructor(config: VisualizerConfig = {}) {
+    this.config = config
+    if (config.logLevel !== undefined)
+      setLogLevel(config.logLevel)
+
     // Create canvas if not provided
     this.canvas = config.canvas || document.createElement('canvas')
     this.canvas.width = config.width ?? 800
@@ -28,29 +117,286 @@ export class Visualizer {
 
     // Initialize WebGL context
     this.glContext = new GLContext(this.canvas)
+    this.glContext.on('lost', this.handleContextLost)
+    this.glContext.on('restored', this.handleContextRestored)
 
     // Initialize audio analysis
-    this.audioAnalyzer = new AudioAnalyzer()
-    this.beatDetector = new BeatDetector(this.audioAnalyzer)
+    this.audioAnalyzer = new AudioAnalyzer(config.fftSize, config.smoothingTimeConstant, config.audioAnalysis)
+    this.beatDetector = new BeatDetector(this.audioAnalyzer, config.beatDetection)
+    this.tempoTracker = new TempoTracker(this.beatDetector, config.tempo)
 
     // Initialize preset system
-    this.presetRunner = new PresetRunner(this.glContext)
+    this.presetRunner = new PresetRunner(this.glContext, {
+      toneMapping: config.toneMapping,
+      exposure: config.exposure,
+      effects: config.effects,
+      compositor: config.compositor,
+    })
 
     // Initialize render loop
-    this.renderLoop = new RenderLoop(() => this.render())
+    this.renderLoop = new RenderLoop(deltaTime => this.render(deltaTime), { targetFPS: config.targetFPS })
+    this.renderLoop.setFPSCallback(fps => this.events.emit('fps', { fps }))
+    this.renderLoop.setErrorCallback((error) => {
+      const renderError = error instanceof Error ? error : new Error(String(error))
+      if (!this.events.hasListeners('renderError'))
+        logger.error('Render callback error:', renderError)
+      this.events.emit('renderError', { error: renderError })
+    })
 
-    // Connect audio element if provided
+    // Connect audio source if provided
+    const audioOptions = { output: config.audioOutput }
     if (config.audioElement) {
-      this.connectAudio(config.audioElement)
+      this.connectAudio(config.audioElement, audioOptions)
+    }
+    else if (config.audioStream) {
+      this.connectStream(config.audioStream, audioOptions)
+    }
+    else if (config.audioNode) {
+      this.connectNode(config.audioNode, audioOptions)
+    }
+    else if (config.audioBuffer) {
+      this.connectBuffer(config.audioBuffer, audioOptions)
+    }
+    else if (config.microphone !== undefined && config.microphone !== false) {
+      this.connectMicrophone(config.microphone, audioOptions).catch((error: unknown) => {
+        logger.error('Failed to connect microphone:', error)
+      })
+    }
+
+    // Track the pointer for Shadertoy's iMouse
+    this.canvas.addEventListener('pointerdown', this.handlePointer)
+    this.canvas.addEventListener('pointermove', this.handlePointer)
+    this.canvas.addEventListener('pointerup', this.handlePointer)
+
+    if (config.autoResize === true && typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(this.handleResize)
+      try {
+        // Exact device pixels, and also notified when only devicePixelRatio changes
+        this.resizeObserver.observe(this.canvas, { box: 'device-pixel-content-box' })
+      }
+      catch {
+        this.resizeObserver.observe(this.canvas)
+      }
+    }
+
+    if (config.dynamicResolution !== undefined && config.dynamicResolution !== false) {
+      this.resolutionScaler = new ResolutionScaler(config.dynamicResolution === true ? {} : config.dynamicResolution)
+    }
+
+    // Save power when nobody can see the output
+    if (config.pauseWhenHidden !== false && typeof document !== 'undefined') {
+      document.addEventListener('visibilitychange', this.handleVisibilityChange)
+      this.handleVisibilityChange()
+    }
+    if (config.pauseWhenOffscreen !== false && typeof IntersectionObserver !== 'undefined') {
+      this.visibilityObserver = new IntersectionObserver(([entry]) => {
+        if (entry.isIntersecting)
+          this.renderLoop.resume('offscreen')
+        else
+          this.renderLoop.pause('offscreen')
+      })
+      this.visibilityObserver.observe(this.canvas)
+    }
+  }
+
+  private handleResize = (entries: ResizeObserverEntry[]): void => {
+    const entry = entries[entries.length - 1]
+    // Missing in browsers without device-pixel-content-box support
+    const devicePixels = (entry.devicePixelContentBoxSize as readonly ResizeObserverSize[] | undefined)?.[0]
+
+    let width: number
+    let height: number
+    if (this.config.pixelRatio === undefined && devicePixels !== undefined) {
+      width = devicePixels.inlineSize
+      height = devicePixels.blockSize
+    }
+    else {
+      const ratio = this.config.pixelRatio ?? window.devicePixelRatio
+      width = Math.round(entry.contentRect.width * ratio)
+      height = Math.round(entry.contentRect.height * ratio)
+    }
+
+    // Hidden or detached canvases report 0; keep the last size until they are laid out
+    if (width === 0 || height === 0)
+      return
+
+    const maxSize = this.glContext.getMaxTextureSize()
+    width = Math.min(width, maxSize)
+    height = Math.min(height, maxSize)
+    if (width !== this.canvas.width || height !== this.canvas.height)
+      this.resize(width, height)
+  }
+
+  private handleVisibilityChange = (): void => {
+    if (document.hidden)
+      this.renderLoop.pause('hidden')
+    else
+      this.renderLoop.resume('hidden')
+  }
+
+  // Subscribe to an event; returns a function that unsubscribes
+  public on<K extends keyof VisualizerEvents>(event: K, handler: EventHandler<VisualizerEvents[K]>): () => void {
+    return this.events.on(event, handler)
+  }
+
+  public once<K extends keyof VisualizerEvents>(event: K, handler: EventHandler<VisualizerEvents[K]>): () => void {
+    return this.events.once(event, handler)
+  }
+
+  public off<K extends keyof VisualizerEvents>(event: K, handler: EventHandler<VisualizerEvents[K]>): void {
+    this.events.off(event, handler)
+  }
+
+  private handleContextLost = ({ event }: { event: Event }): void => {
+    this.renderLoop.pause('contextLost')
+    this.presetRunner.handleContextLost()
+    this.events.emit('contextLost', { event })
+  }
+
+  private handleContextRestored = (): void => {
+    const preset = this.presetRunner.getPreset()
+    const result = this.presetRunner.restoreContext()
+    if (!result.success && preset) {
+      this.events.emit('presetError', {
+        preset,
+        error: result.error ?? new Error(`Failed to restore preset '${preset.metadata.name}'`),
+        diagnostics: result.diagnostics,
+      })
+    }
+
+    this.events.emit('contextRestored', { preset: result.success ? preset : null })
+    this.renderLoop.resume('contextLost')
+  }
+
+  // Drop and restore the WebGL context through WEBGL_lose_context, to test recovery
+  public loseContext(): void {
+    this.glContext.loseContext()
+  }
+
+  public restoreContext(): void {
+    this.glContext.restoreContext()
+  }
+
+  private emitAudioConnected(source: AudioSourceKind): void {
+    if (this.audioAnalyzer.isConnected())
+      this.events.emit('audioConnected', { source })
+  }
+
+  private handlePointer = (event: PointerEvent): void => {
+    const rect = this.canvas.getBoundingClientRect()
+    if (rect.width === 0 || rect.height === 0)
+      return
+
+    const x = (event.clientX - rect.left) * this.canvas.width / rect.width
+    const y = (rect.bottom - event.clientY) * this.canvas.height / rect.height
+    this.presetRunner.setMouse(x, y, (event.buttons & 1) !== 0)
+  }
+
+  // Each connect call replaces the previous source
+  public connectAudio(audioElement: HTMLMediaElement, options?: AudioConnectOptions): void {
+    this.audioAnalyzer.connectAudio(audioElement, options)
+    this.emitAudioConnected('element')
+  }
+
+  public async connectMicrophone(constraints?: boolean | MediaTrackConstraints, options?: AudioConnectOptions): Promise<void> {
+    await this.audioAnalyzer.connectMicrophone(constraints, options)
+    this.emitAudioConnected('microphone')
+  }
+
+  public connectStream(stream: MediaStream, options?: AudioConnectOptions): void {
+    this.audioAnalyzer.connectStream(stream, options)
+    this.emitAudioConnected('stream')
+  }
+
+  public connectNode(node: AudioNode, options?: AudioConnectOptions): void {
+    this.audioAnalyzer.connectNode(node, options)
+    this.emitAudioConnected('node')
+  }
+
+  public connectBuffer(buffer: AudioBuffer, options?: AudioBufferConnectOptions): AudioBufferSourceNode | null {
+    const source = this.audioAnalyzer.connectBuffer(buffer, options)
+    this.emitAudioConnected('buffer')
+    return source
+  }
+
+  public disconnectAudio(): void {
+    this.audioAnalyzer.disconnect()
+  }
+
+  public loadPreset(preset: Preset, options?: LoadPresetOptions): PresetLoadResult {
+    return this.reportLoad(preset, this.presetRunner.loadPreset(preset, options))
+  }
+
+  // Waits for the preset's images and videos before switching to it
+  public async loadPresetAsync(preset: Preset, options?: LoadPresetOptions): Promise<PresetLoadResult> {
+    return this.reportLoad(preset, await this.presetRunner.loadPresetAsync(preset, options))
+  }
+
+  private reportLoad(preset: Preset, result: PresetLoadResult): PresetLoadResult {
+    if (result.success) {
+      this.events.emit('presetLoaded', { preset })
     }
+    else {
+      this.events.emit('presetError', {
+        preset,
+        error: result.error ?? new Error(`Failed to load preset '${preset.metadata.name}'`),
+        diagnostics: result.diagnostics,
+      })
+    }
+    return result
+  }
+
+  public setFallbackPreset(preset: Preset): void {
+    this.presetRunner.setFallbackPreset(preset)
+  }
+
+  public setTargetFPS(fps: number | null): void {
+    this.renderLoop.setTargetFPS(fps)
+  }
+
+  // Replace the post-processing stack; throws if an effect fails to build
+  public setEffects(effects: EffectStackEntry[]): void {
+    this.presetRunner.setEffects(effects)
+  }
+
+  // Options left out keep their current values
+  public setCompositor(options: CompositorOptions): void {
+    this.presetRunner.setCompositorOptions(options)
   }
 
-  public connectAudio(audioElement: HTMLAudioElement): void {
-    this.audioAnalyzer.connectAudio(audioElement)
+  public getCompositor(): CompositorOptions {
+    return this.presetRunner.getCompositorOptions()
   }
 
-  public loadPreset(preset: Preset): void {
-    this.presetRunner.loadPreset(preset)
+  // A parsed LUT or the text of a .cube file; null removes it
+  public setLUT(lut: CubeLUT | string | null): void {
+    this.presetRunner.setLUT(typeof lut === 'string' ? parseCubeLUT(lut) : lut)
+  }
+
+  public async loadLUT(url: string): Promise<void> {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to load LUT from ${url}: HTTP ${response.status}`)
+    }
+    this.setLUT(await response.text())
+  }
+
+  public setToneMapping(toneMapping: ToneMapping): void {
+    this.presetRunner.setToneMapping(toneMapping)
+  }
+
+  public setExposure(exposure: number): void {
+    this.presetRunner.setExposure(exposure)
+  }
+
+  // Fraction of the canvas resolution presets currently render at
+  public getRenderScale(): number {
+    return this.presetRunner.getRenderScale()
+  }
+
+  // True while rendering is paused because the page is hidden, the canvas is off-screen or the context is lost
+  public isPaused(): boolean {
+    return this.renderLoop.isPaused()
   }
 
   public start(): void {
@@ -69,29 +415,74 @@ export class Visualizer {
     this.canvas.width = width
     this.canvas.height = height
     this.glContext.resize(width, height)
+    this.presetRunner.resize(width, height)
   }
 
-  private render(): void {
+  private render(deltaTime: number): void {
     // Update audio analysis
     this.audioAnalyzer.update()
     this.beatDetector.update()
+    this.tempoTracker.update()
+    this.updateSilence()
+    this.updateResolution(deltaTime)
 
     // Get audio data for preset
-    const audioData = {
-      spectrum: this.audioAnalyzer.getSpectrum(),
-      waveform: this.audioAnalyzer.getWaveform(),
-      energy: this.audioAnalyzer.getEnergy(),
-      beat: this.beatDetector.isBeat(),
-      bass: this.audioAnalyzer.getBass(),
-      treble: this.audioAnalyzer.getTreble(),
-    }
+    const audioData = collectAudioData(this.audioAnalyzer, this.beatDetector, this.tempoTracker)
 
     // Render current preset
-    this.presetRunner.render(audioData)
+    this.presetRunner.render(audioData, deltaTime)
+
+    if (audioData.beat)
+      this.events.emit('beat', { strength: audioData.onsetStrength ?? 0, bpm: audioData.tempo?.bpm ?? 0 })
+
+    for (const name of ONSET_NAMES) {
+      if (audioData.onsets?.[name] === true)
+        this.events.emit('onset', { name, strength: audioData.onsetStrength ?? 0 })
+    }
+
+    this.events.emit('frame', { frame: this.frameCount++, deltaTime, audioData })
+  }
+
+  private updateResolution(deltaTime: number): void {
+    if (!this.resolutionScaler)
+      return
+
+    // Budget is the frame cap, or the display's refresh interval when that is
+    // longer or nothing caps the rate; frames can't come faster than the display
+    const budget = Math.max(this.renderLoop.getFrameInterval(), this.renderLoop.getRefreshInterval() ?? 1000 / 60)
+    if (this.resolutionScaler.update(deltaTime * 1000, budget))
+      this.presetRunner.setRenderScale(this.resolutionScaler.getScale())
+  }
+
+  // Throttle while the audio has been silent for silenceTimeout; analysis keeps
+  // running at the lower rate, so rendering picks up as soon as sound returns
+  private updateSilence(): void {
+    const { silenceTimeout, silenceThreshold = 0.01, silentFPS = 5 } = this.config
+    if (silenceTimeout === undefined)
+      return
+
+    const now = performance.now()
+    if (this.audioAnalyzer.getEnergy() < silenceThreshold) {
+      this.silentSince ??= now
+      if (now - this.silentSince >= silenceTimeout)
+        this.renderLoop.setThrottle(silentFPS)
+    }
+    else {
+      this.silentSince = null
+      this.renderLoop.setThrottle(null)
+    }
   }
 
   public async destroy(): Promise<void> {
     this.renderLoop.stop()
+    this.canvas.removeEventListener('pointerdown', this.handlePointer)
+    this.canvas.removeEventListener('pointermove', this.handlePointer)
+    this.canvas.removeEventListener('pointerup', this.handlePointer)
+    if (typeof document !== 'undefined')
+      document.removeEventListener('visibilitychange', this.handleVisibilityChange)
+    this.visibilityObserver?.disconnect()
+    this.resizeObserver?.disconnect()
+    this.events.removeAllListeners()
     await this.audioAnalyzer.destroy()
     this.glContext.destroy()
   }
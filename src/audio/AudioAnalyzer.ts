@@ -1,3 +1,13 @@
+import type { Clock } from '../core/Clock'
+import type { BandOptions } from './bands'
+import type { Analyser } from './FFTAnalyser'
+import type { AudioLevel, FrequencyRange } from './levels'
+import { realtimeClock } from '../core/Clock'
+import { logger } from '../core/logger'
+import { BandAnalyzer } from './bands'
+import { FFTAnalyser } from './FFTAnalyser'
+import { DEFAULT_FREQUENCY_RANGES, getRangeLevel, LevelTracker } from './levels'
+
 export interface AudioData {
   spectrum: Uint8Array
   waveform: Uint8Array
@@ -6,65 +16,354 @@ export interface AudioData {
   treble: number
 }
 
+export interface AudioConnectOptions {
+  // Route the source to the speakers
+  output?: boolean
+}
+
+export interface AudioBufferConnectOptions extends AudioConnectOptions {
+  loop?: boolean
+}
+
+// 'decibels': 0 at minDecibels and 1 at maxDecibels, not clipped above.
+// 'linear': the analyser's raw magnitude
+export type SpectrumScale = 'decibels' | 'linear'
+
+export interface AudioAnalyzerOptions {
+  // Read float data: full dynamic range and signed waveform samples
+  float?: boolean
+  // Window mapped to the byte spectrum and to 0-1 in float mode
+  minDecibels?: number
+  maxDecibels?: number
+  spectrumScale?: SpectrumScale
+  // Perceptual bands computed from the spectrum every update
+  bands?: BandOptions
+  // Named ranges in Hz, reported by getLevels() and as u_<name> uniforms (default: bass, mid, treb)
+  ranges?: Record<string, FrequencyRange>
+}
+
+// Assumed until a source tells us its real rate
+const DEFAULT_SAMPLE_RATE = 44100
+
 export class AudioAnalyzer {
-  private audioContext: AudioContext | null = null
+  private ownContext: AudioContext | null = null
   private analyzerNode: AnalyserNode | null = null
-  private sourceNode: MediaElementAudioSourceNode | null = null
+  // Software analyser used instead of analyzerNode for PCM input
+  private pcmAnalyser: FFTAnalyser | null = null
+  // Rate of the source being analyzed, whichever context it belongs to
+  private sampleRate: number | null = null
+  private sourceNode: AudioNode | null = null
+  private mediaElementSources = new WeakMap<HTMLMediaElement, MediaElementAudioSourceNode>()
+  private ownedStream: MediaStream | null = null
+  private ownedBufferSource: AudioBufferSourceNode | null = null
   private spectrumData: Uint8Array<ArrayBuffer>
   private waveformData: Uint8Array<ArrayBuffer>
+  private floatSpectrumData: Float32Array<ArrayBuffer>
+  private floatWaveformData: Float32Array<ArrayBuffer>
   private fftSize: number
   private smoothingTimeConstant: number
+  private options: Required<AudioAnalyzerOptions> = {
+    float: false,
+    minDecibels: -100,
+    maxDecibels: -30,
+    spectrumScale: 'decibels',
+    bands: {},
+    ranges: DEFAULT_FREQUENCY_RANGES,
+  }
+
+  private bandAnalyzer = new BandAnalyzer()
+  private levelTracker = new LevelTracker()
+  private clock: Clock
+  private lastUpdateTime: number | null = null
 
-  constructor(fftSize = 2048, smoothingTimeConstant = 0.8) {
+  constructor(fftSize = 2048, smoothingTimeConstant = 0.8, options: AudioAnalyzerOptions = {}, clock: Clock = realtimeClock) {
+    this.clock = clock
     this.fftSize = fftSize
     this.smoothingTimeConstant = smoothingTimeConstant
     this.spectrumData = new Uint8Array(fftSize / 2)
     this.waveformData = new Uint8Array(fftSize)
+    this.floatSpectrumData = new Float32Array(fftSize / 2)
+    this.floatWaveformData = new Float32Array(fftSize)
+    this.setOptions(options)
   }
 
-  public connectAudio(audioElement: HTMLAudioElement): void {
-    try {
-      // Create audio context
+  public setOptions(options: AudioAnalyzerOptions): void {
+    const next = { ...this.options, ...options }
+    if (next.minDecibels >= next.maxDecibels) {
+      throw new Error(`minDecibels (${next.minDecibels}) must be below maxDecibels (${next.maxDecibels})`)
+    }
+
+    this.options = next
+    if (options.bands) {
+      this.bandAnalyzer = new BandAnalyzer(options.bands)
+    }
+    if (options.ranges) {
+      this.levelTracker = new LevelTracker(options.ranges)
+    }
+
+    const analyser = this.getAnalyser()
+    if (analyser)
+      this.applyDecibelRange(analyser)
+  }
+
+  public getOptions(): Required<AudioAnalyzerOptions> {
+    return { ...this.options }
+  }
+
+  public isFloat(): boolean {
+    return this.options.float
+  }
+
+  private applyDecibelRange(analyser: Analyser): void {
+    // Widen first so the analyser never sees min >= max in between
+    analyser.minDecibels = Math.min(analyser.minDecibels, this.options.minDecibels)
+    analyser.maxDecibels = this.options.maxDecibels
+    analyser.minDecibels = this.options.minDecibels
+  }
+
+  // Create our own context on first use; it is reused when switching sources
+  private getOwnContext(): AudioContext {
+    if (!this.ownContext) {
       try {
         const AudioCtx = window.AudioContext ?? (typeof window !== 'undefined' && 'webkitAudioContext' in window ? window.webkitAudioContext : undefined)
-        this.audioContext = new AudioCtx()
+        this.ownContext = new AudioCtx()
       }
       catch {
         throw new Error('Web Audio API is not supported in this browser')
       }
+    }
+
+    // Contexts created before a user gesture start suspended
+    if (this.ownContext.state === 'suspended') {
+      this.ownContext.resume().catch((error: unknown) => {
+        logger.warn('Failed to resume audio context:', error)
+      })
+    }
+
+    return this.ownContext
+  }
+
+  public connectAudio(audioElement: HTMLMediaElement, options: AudioConnectOptions = {}): void {
+    try {
+      const audioContext = this.getOwnContext()
+
+      // An element can only ever have one source node per context
+      let source = this.mediaElementSources.get(audioElement)
+      if (!source) {
+        source = audioContext.createMediaElementSource(audioElement)
+        this.mediaElementSources.set(audioElement, source)
+      }
 
-      // Create analyzer node
-      this.analyzerNode = this.audioContext.createAnalyser()
-      this.analyzerNode.fftSize = this.fftSize
-      this.analyzerNode.smoothingTimeConstant = this.smoothingTimeConstant
+      // Elements play through the analyzer, so they are silent unless routed to the speakers
+      this.attach(source, options.output ?? true)
+      logger.info('Audio analyzer connected successfully')
+    }
+    catch (error) {
+      logger.error('Failed to connect audio analyzer:', error)
+    }
+  }
+
+  // Live input from the microphone or line-in; rejects if permission is denied
+  public async connectMicrophone(constraints: MediaTrackConstraints | boolean = true, options: AudioConnectOptions = {}): Promise<void> {
+    // mediaDevices is missing outside secure contexts
+    if (typeof navigator === 'undefined' || typeof navigator.mediaDevices?.getUserMedia !== 'function') {
+      throw new TypeError('Microphone input is not supported in this browser')
+    }
+
+    const stream = await navigator.mediaDevices.getUserMedia({ audio: constraints })
+    this.connectStream(stream, options)
+    if (!this.isConnected()) {
+      stream.getTracks().forEach(track => track.stop())
+      throw new Error('Failed to connect microphone')
+    }
+
+    // The stream was opened here, so it is closed here too
+    this.ownedStream = stream
+  }
+
+  // Any MediaStream with an audio track, e.g. tab capture or WebRTC
+  public connectStream(stream: MediaStream, options: AudioConnectOptions = {}): void {
+    try {
+      if (stream.getAudioTracks().length === 0) {
+        throw new Error('MediaStream has no audio tracks')
+      }
+
+      const audioContext = this.getOwnContext()
+
+      // Not routed to the speakers by default, to avoid microphone feedback
+      this.attach(audioContext.createMediaStreamSource(stream), options.output ?? false)
+      logger.info('Audio analyzer connected to stream')
+    }
+    catch (error) {
+      logger.error('Failed to connect audio stream:', error)
+    }
+  }
 
-      // Create source from audio element
-      this.sourceNode = this.audioContext.createMediaElementSource(audioElement)
+  // Analyze a node from an existing graph, e.g. a buffer source in an OfflineAudioContext.
+  // The host graph is assumed to handle playback, so it is not routed to the speakers by default
+  public connectNode(node: AudioNode, options: AudioConnectOptions = {}): void {
+    try {
+      this.attach(node, options.output ?? false)
+      logger.info('Audio analyzer connected to node')
+    }
+    catch (error) {
+      logger.error('Failed to connect audio node:', error)
+    }
+  }
+
+  // Play a decoded buffer and analyze it
+  public connectBuffer(buffer: AudioBuffer, options: AudioBufferConnectOptions = {}): AudioBufferSourceNode | null {
+    try {
+      const source = this.getOwnContext().createBufferSource()
+      source.buffer = buffer
+      source.loop = options.loop ?? false
 
-      // Connect: source -> analyzer -> destination
-      this.sourceNode.connect(this.analyzerNode)
-      this.analyzerNode.connect(this.audioContext.destination)
+      this.attach(source, options.output ?? true)
+      source.start()
 
-      console.log('Audio analyzer connected successfully')
+      // Stopped when switching to another source
+      this.ownedBufferSource = source
+      logger.info('Audio analyzer connected to buffer')
+      return source
     }
     catch (error) {
-      console.error('Failed to connect audio analyzer:', error)
+      logger.error('Failed to connect audio buffer:', error)
+      return null
+    }
+  }
+
+  // Analyze PCM pushed by the caller instead of a Web Audio source; works outside
+  // the browser. Feed the returned analyser with write() or seek() before each update()
+  public connectPCM(sampleRate: number): FFTAnalyser {
+    this.disconnect()
+
+    this.pcmAnalyser = new FFTAnalyser({
+      fftSize: this.fftSize,
+      smoothingTimeConstant: this.smoothingTimeConstant,
+      minDecibels: this.options.minDecibels,
+      maxDecibels: this.options.maxDecibels,
+    })
+    this.sampleRate = sampleRate
+    return this.pcmAnalyser
+  }
+
+  private attach(source: AudioNode, output: boolean): void {
+    // Switching sources reuses the analyzer's context, so release the old one first
+    this.disconnect()
+
+    const audioContext = source.context
+    this.sampleRate = audioContext.sampleRate
+
+    // Create analyzer node
+    this.analyzerNode = audioContext.createAnalyser()
+    this.analyzerNode.fftSize = this.fftSize
+    this.analyzerNode.smoothingTimeConstant = this.smoothingTimeConstant
+    this.applyDecibelRange(this.analyzerNode)
+
+    // Connect: source -> analyzer (-> destination)
+    this.sourceNode = source
+    this.sourceNode.connect(this.analyzerNode)
+    if (output)
+      this.analyzerNode.connect(audioContext.destination)
+  }
+
+  // Stop analyzing the current source; update() reports silence until the next connect
+  public disconnect(): void {
+    if (this.sourceNode && this.analyzerNode) {
+      // Only our own connection; host nodes may feed other parts of their graph
+      this.sourceNode.disconnect(this.analyzerNode)
     }
+    this.sourceNode = null
+
+    if (this.analyzerNode) {
+      this.analyzerNode.disconnect()
+      this.analyzerNode = null
+    }
+
+    if (this.ownedBufferSource) {
+      this.ownedBufferSource.stop()
+      this.ownedBufferSource = null
+    }
+
+    if (this.ownedStream) {
+      this.ownedStream.getTracks().forEach(track => track.stop())
+      this.ownedStream = null
+    }
+
+    this.pcmAnalyser = null
+    this.sampleRate = null
+  }
+
+  public isConnected(): boolean {
+    return this.analyzerNode !== null || this.pcmAnalyser !== null
+  }
+
+  private getAnalyser(): Analyser | null {
+    return this.analyzerNode ?? this.pcmAnalyser
   }
 
   public update(): void {
-    if (!this.analyzerNode) {
+    this.updateSpectrum()
+
+    const sampleRate = this.getSampleRate()
+    const deltaTime = this.getDeltaTime()
+    if (this.options.float)
+      this.bandAnalyzer.update(this.floatSpectrumData, sampleRate, 1, deltaTime)
+    else
+      this.bandAnalyzer.update(this.spectrumData, sampleRate, 255, deltaTime)
+
+    this.levelTracker.update(this.spectrumData, sampleRate, 255, deltaTime)
+  }
+
+  // Seconds since the previous update, so band and level smoothing don't depend on frame rate
+  private getDeltaTime(): number {
+    const now = this.clock.now()
+    const deltaTime = this.lastUpdateTime === null ? 1 / 60 : (now - this.lastUpdateTime) / 1000
+    this.lastUpdateTime = now
+    return Math.min(Math.max(deltaTime, 0), 1)
+  }
+
+  private updateSpectrum(): void {
+    const analyser = this.getAnalyser()
+    if (!analyser) {
       // Fill with silence if no audio connected
       this.spectrumData.fill(0)
       this.waveformData.fill(0)
+      this.floatSpectrumData.fill(0)
+      this.floatWaveformData.fill(0)
+      return
+    }
+
+    if (this.options.float) {
+      this.updateFloat(analyser)
       return
     }
 
     // Get frequency domain data (spectrum) - use Uint8Array version
-    this.analyzerNode.getByteFrequencyData(this.spectrumData)
+    analyser.getByteFrequencyData(this.spectrumData)
 
     // Get time domain data (waveform) - use Uint8Array version
-    this.analyzerNode.getByteTimeDomainData(this.waveformData)
+    analyser.getByteTimeDomainData(this.waveformData)
+  }
+
+  private updateFloat(analyser: Analyser): void {
+    const { minDecibels, maxDecibels, spectrumScale } = this.options
+
+    analyser.getFloatFrequencyData(this.floatSpectrumData)
+    analyser.getFloatTimeDomainData(this.floatWaveformData)
+
+    // The byte arrays are derived the way the analyser would, so energy, bass and beats behave as in byte mode
+    for (let i = 0; i < this.floatSpectrumData.length; i++) {
+      const decibels = this.floatSpectrumData[i]
+      const normalized = (decibels - minDecibels) / (maxDecibels - minDecibels)
+
+      this.spectrumData[i] = Math.min(Math.max(Math.floor(255 * normalized), 0), 255)
+      this.floatSpectrumData[i] = spectrumScale === 'linear' ? 10 ** (decibels / 20) : Math.max(normalized, 0)
+    }
+
+    for (let i = 0; i < this.floatWaveformData.length; i++) {
+      this.waveformData[i] = Math.min(Math.max(Math.floor(128 * (1 + this.floatWaveformData[i])), 0), 255)
+    }
   }
 
   public getSpectrum(): Uint8Array {
@@ -75,6 +374,33 @@ export class AudioAnalyzer {
     return this.waveformData
   }
 
+  // Float mode only: the spectrum scaled by spectrumScale
+  public getFloatSpectrum(): Float32Array {
+    return this.floatSpectrumData
+  }
+
+  // Float mode only: signed samples, -1 to 1
+  public getFloatWaveform(): Float32Array {
+    return this.floatWaveformData
+  }
+
+  // Smoothed band levels on the scale set by the `bands` option
+  public getBands(): Float32Array {
+    return this.bandAnalyzer.getValues()
+  }
+
+  public getBandPeaks(): Float32Array {
+    return this.bandAnalyzer.getPeaks()
+  }
+
+  public getBandAnalyzer(): BandAnalyzer {
+    return this.bandAnalyzer
+  }
+
+  public getSampleRate(): number {
+    return this.sampleRate ?? DEFAULT_SAMPLE_RATE
+  }
+
   public getEnergy(): number {
     if (!this.spectrumData.length)
       return 0
@@ -89,49 +415,37 @@ export class AudioAnalyzer {
     return Math.sqrt(energy / this.spectrumData.length)
   }
 
-  public getBass(): number {
-    if (!this.spectrumData.length)
-      return 0
-
-    // Bass frequencies: roughly 20-250 Hz
-    // For 44.1kHz sample rate and 2048 FFT size:
-    // Frequency resolution = 44100 / 2048 ≈ 21.5 Hz per bin
-    // Bass range: bins 1-12 (21.5Hz - 258Hz)
-    const bassEnd = Math.min(12, this.spectrumData.length)
+  // Instant level (RMS, 0-1) of a range in Hz, using the source's real sample rate
+  public getRangeLevel(range: FrequencyRange): number {
+    return getRangeLevel(this.spectrumData, this.getSampleRate(), range, 255)
+  }
 
-    let bass = 0
-    for (let i = 1; i < bassEnd; i++) {
-      const value = this.spectrumData[i] / 255.0
-      bass += value * value
-    }
+  public getBass(): number {
+    return this.getRangeLevel(this.options.ranges.bass ?? DEFAULT_FREQUENCY_RANGES.bass)
+  }
 
-    return Math.sqrt(bass / bassEnd)
+  public getMid(): number {
+    return this.getRangeLevel(this.options.ranges.mid ?? DEFAULT_FREQUENCY_RANGES.mid)
   }
 
   public getTreble(): number {
-    if (!this.spectrumData.length)
-      return 0
-
-    // Treble frequencies: roughly 4kHz and up
-    // For 44.1kHz sample rate and 2048 FFT size:
-    // 4kHz ≈ bin 186, we'll use the top quarter of the spectrum
-    const trebleStart = Math.floor(this.spectrumData.length * 0.75)
-    const trebleEnd = this.spectrumData.length
+    return this.getRangeLevel(this.options.ranges.treb ?? DEFAULT_FREQUENCY_RANGES.treb)
+  }
 
-    let treble = 0
-    for (let i = trebleStart; i < trebleEnd; i++) {
-      const value = this.spectrumData[i] / 255.0
-      treble += value * value
-    }
+  // Milkdrop-style levels of every named range, advanced by update()
+  public getLevels(): Record<string, AudioLevel> {
+    return this.levelTracker.getLevels()
+  }
 
-    return Math.sqrt(treble / (trebleEnd - trebleStart))
+  public getLevel(name: string): AudioLevel | undefined {
+    return this.levelTracker.getLevel(name)
   }
 
   public getFrequencyBin(frequency: number): number {
-    if (!this.audioContext)
+    if (this.sampleRate === null)
       return 0
 
-    const sampleRate = this.audioContext.sampleRate
+    const sampleRate = this.sampleRate
     const binSize = sampleRate / this.fftSize
     const bin = Math.floor(frequency / binSize)
 
@@ -144,19 +458,11 @@ export class AudioAnalyzer {
   }
 
   public async destroy(): Promise<void> {
-    if (this.sourceNode) {
-      this.sourceNode.disconnect()
-      this.sourceNode = null
-    }
-
-    if (this.analyzerNode) {
-      this.analyzerNode.disconnect()
-      this.analyzerNode = null
-    }
+    this.disconnect()
 
-    if (this.audioContext && this.audioContext.state !== 'closed') {
-      await this.audioContext.close()
-      this.audioContext = null
+    if (this.ownContext && this.ownContext.state !== 'closed') {
+      await this.ownContext.close()
     }
+    this.ownContext = null
   }
 }
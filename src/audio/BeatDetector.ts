@@ -1,66 +1,90 @@
+import type { Clock } from '../core/Clock'
 import type { AudioAnalyzer } from './AudioAnalyzer'
-
-export interface BeatDetectionConfig {
-  threshold: number
+import type {
+  BeatDetectionResult,
+  BeatDetectionStrategy,
+  EnergyBeatOptions,
+  OnsetName,
+  SpectralFluxOptions,
+} from './beatStrategies'
+import { realtimeClock } from '../core/Clock'
+import { DEFAULT_ONSET_RANGES, EnergyBeatStrategy, SpectralFluxBeatStrategy } from './beatStrategies'
+
+export type BeatStrategyName = 'energy' | 'spectralFlux'
+
+export interface BeatDetectionConfig extends EnergyBeatOptions, SpectralFluxOptions {
+  // A built-in strategy by name, or your own
+  strategy: BeatStrategyName | BeatDetectionStrategy
   minimumInterval: number
-  energyHistory: number
-  varianceThreshold: number
 }
 
 export class BeatDetector {
   private audioAnalyzer: AudioAnalyzer
   private config: BeatDetectionConfig
-  private energyHistory: number[] = []
+  private strategy: BeatDetectionStrategy
+  private result: BeatDetectionResult = { beat: false, strength: 0, onsets: { kick: false, snare: false, hat: false } }
   private lastBeatTime = 0
   private isCurrentlyBeat = false
+  private clock: Clock
 
   constructor(
     audioAnalyzer: AudioAnalyzer,
     config: Partial<BeatDetectionConfig> = {},
+    clock: Clock = realtimeClock,
   ) {
     this.audioAnalyzer = audioAnalyzer
+    this.clock = clock
     this.config = {
+      strategy: 'energy', // Spectral flux and drum onsets are opt-in
       threshold: 1.3, // Energy must be 30% above average
       minimumInterval: 300, // Minimum 300ms between beats
-      energyHistory: 43, // Keep ~1 second of history at 43 FPS
+      energyWindow: 1000, // Average over the last second
       varianceThreshold: 0.1, // Minimum variance to detect beats
+      fluxWindow: 500, // Median over the last half second
+      fluxThreshold: 1.5, // Flux must be 50% above the median
+      fluxMinimum: 0.02, // ...and above this, so noise in silence doesn't trigger
+      onsetInterval: 100, // Minimum 100ms between onsets of one drum
+      onsetRanges: DEFAULT_ONSET_RANGES,
       ...config,
     }
+    this.strategy = this.createStrategy(this.config.strategy)
   }
 
-  public update(): void {
-    const currentTime = performance.now()
-    const energy = this.audioAnalyzer.getEnergy()
-
-    // Add current energy to history
-    this.energyHistory.push(energy)
-
-    // Keep history at specified length
-    if (this.energyHistory.length > this.config.energyHistory) {
-      this.energyHistory.shift()
+  private createStrategy(strategy: BeatStrategyName | BeatDetectionStrategy): BeatDetectionStrategy {
+    if (typeof strategy !== 'string')
+      return strategy
+
+    switch (strategy) {
+      case 'energy':
+        return new EnergyBeatStrategy(this.config)
+      case 'spectralFlux':
+        return new SpectralFluxBeatStrategy(this.config)
+      default:
+        throw new Error(`Unknown beat detection strategy '${String(strategy)}'`)
     }
+  }
 
-    // Need enough history to detect beats
-    if (this.energyHistory.length < this.config.energyHistory) {
-      this.isCurrentlyBeat = false
-      return
-    }
+  public setStrategy(strategy: BeatStrategyName | BeatDetectionStrategy): void {
+    this.strategy = this.createStrategy(strategy)
+    this.config.strategy = strategy
+    this.reset()
+  }
 
-    // Calculate average energy over history
-    const averageEnergy = this.energyHistory.reduce((sum, e) => sum + e, 0) / this.energyHistory.length
+  public update(): void {
+    const currentTime = this.clock.now()
 
-    // Calculate variance to ensure we have dynamic audio
-    const variance = this.calculateVariance(this.energyHistory, averageEnergy)
+    this.result = this.strategy.update({
+      time: currentTime,
+      energy: this.audioAnalyzer.getEnergy(),
+      spectrum: this.audioAnalyzer.getSpectrum(),
+      sampleRate: this.audioAnalyzer.getSampleRate(),
+    })
 
     // Check if enough time has passed since last beat
     const timeSinceLastBeat = currentTime - this.lastBeatTime
     const enoughTimeElapsed = timeSinceLastBeat >= this.config.minimumInterval
 
-    // Detect beat: energy above threshold and enough variance
-    const energyThresholdMet = energy > averageEnergy * this.config.threshold
-    const varianceThresholdMet = variance > this.config.varianceThreshold
-
-    if (energyThresholdMet && varianceThresholdMet && enoughTimeElapsed) {
+    if (this.result.beat && enoughTimeElapsed) {
       this.isCurrentlyBeat = true
       this.lastBeatTime = currentTime
     }
@@ -73,22 +97,22 @@ export class BeatDetector {
     return this.isCurrentlyBeat
   }
 
+  // Onset strength envelope from the current strategy
   public getBeatStrength(): number {
-    if (this.energyHistory.length < this.config.energyHistory) {
-      return 0
-    }
-
-    const currentEnergy = this.audioAnalyzer.getEnergy()
-    const averageEnergy = this.energyHistory.reduce((sum, e) => sum + e, 0) / this.energyHistory.length
+    return this.result.strength
+  }
 
-    if (averageEnergy === 0)
-      return 0
+  // Whether a kick, snare or hat started this update; always false with the energy strategy
+  public isOnset(name: OnsetName): boolean {
+    return this.result.onsets[name]
+  }
 
-    return Math.max(0, (currentEnergy - averageEnergy) / averageEnergy)
+  public getOnsets(): Record<OnsetName, boolean> {
+    return this.result.onsets
   }
 
   public getTimeSinceLastBeat(): number {
-    return performance.now() - this.lastBeatTime
+    return this.clock.now() - this.lastBeatTime
   }
 
   public setBeatThreshold(threshold: number): void {
@@ -99,18 +123,9 @@ export class BeatDetector {
     this.config.minimumInterval = interval
   }
 
-  private calculateVariance(values: number[], mean: number): number {
-    if (values.length === 0)
-      return 0
-
-    const squaredDiffs = values.map(value => (value - mean) ** 2)
-    const avgSquaredDiff = squaredDiffs.reduce((sum, diff) => sum + diff, 0) / values.length
-
-    return Math.sqrt(avgSquaredDiff)
-  }
-
   public reset(): void {
-    this.energyHistory = []
+    this.strategy.reset()
+    this.result = { beat: false, strength: 0, onsets: { kick: false, snare: false, hat: false } }
     this.lastBeatTime = 0
     this.isCurrentlyBeat = false
   }
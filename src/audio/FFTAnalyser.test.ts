@@ -0,0 +1,115 @@
+import { describe, expect, it } from 'vitest'
+import { FFT, FFTAnalyser } from './FFTAnalyser'
+
+function sine(frequency: number, sampleRate: number, length: number, amplitude = 1): Float32Array {
+  return Float32Array.from({ length }, (_, i) => amplitude * Math.sin(2 * Math.PI * frequency * i / sampleRate))
+}
+
+function peakBin(spectrum: ArrayLike<number>): number {
+  let peak = 0
+  for (let k = 1; k < spectrum.length; k++) {
+    if (spectrum[k] > spectrum[peak])
+      peak = k
+  }
+  return peak
+}
+
+describe('radix-2 transform', () => {
+  it('rejects sizes that are not powers of two', () => {
+    expect(() => new FFT(12)).toThrow('FFT size must be a power of two, got 12')
+  })
+
+  it('matches a direct DFT', () => {
+    const size = 16
+    const input = Array.from({ length: size }, (_, i) => Math.sin(i) + 0.5 * Math.cos(3 * i))
+    const real = Float64Array.from(input)
+    const imag = new Float64Array(size)
+    new FFT(size).transform(real, imag)
+
+    for (let k = 0; k < size; k++) {
+      let re = 0
+      let im = 0
+      for (let n = 0; n < size; n++) {
+        re += input[n] * Math.cos(2 * Math.PI * k * n / size)
+        im -= input[n] * Math.sin(2 * Math.PI * k * n / size)
+      }
+      expect(real[k]).toBeCloseTo(re, 9)
+      expect(imag[k]).toBeCloseTo(im, 9)
+    }
+  })
+})
+
+describe('software analyser', () => {
+  it('validates fftSize', () => {
+    expect(() => new FFTAnalyser({ fftSize: 16 })).toThrow('fftSize must be between 32 and 32768, got 16')
+  })
+
+  it('peaks at the bin of a sine', () => {
+    const sampleRate = 44100
+    const analyser = new FFTAnalyser({ fftSize: 1024, smoothingTimeConstant: 0 })
+    // Bin 40 exactly, quiet enough that the bytes do not clip
+    analyser.write(sine(40 * sampleRate / 1024, sampleRate, 1024, 0.01))
+
+    const bytes = new Uint8Array(analyser.frequencyBinCount)
+    analyser.getByteFrequencyData(bytes)
+    expect(peakBin(bytes)).toBe(40)
+
+    const decibels = new Float32Array(analyser.frequencyBinCount)
+    analyser.getFloatFrequencyData(decibels)
+    expect(peakBin(decibels)).toBe(40)
+    // Blackman window gain 0.42, halved for a real sine
+    expect(decibels[40]).toBeCloseTo(20 * Math.log10(0.01 * 0.21), 1)
+  })
+
+  it('returns the latest samples oldest first', () => {
+    const analyser = new FFTAnalyser({ fftSize: 32 })
+    analyser.write(new Float32Array(30).fill(0.5))
+    analyser.write(new Float32Array([1, -1, 0.25, -0.25]))
+
+    const samples = new Float32Array(32)
+    analyser.getFloatTimeDomainData(samples)
+    expect(Array.from(samples.slice(-5))).toEqual([0.5, 1, -1, 0.25, -0.25])
+
+    const bytes = new Uint8Array(32)
+    analyser.getByteTimeDomainData(bytes)
+    expect(Array.from(bytes.slice(-4))).toEqual([255, 0, 160, 96])
+  })
+
+  it('mixes channels down to mono', () => {
+    const analyser = new FFTAnalyser({ fftSize: 32 })
+    analyser.write([new Float32Array(32).fill(1), new Float32Array(32).fill(0)])
+
+    const samples = new Float32Array(32)
+    analyser.getFloatTimeDomainData(samples)
+    expect(samples.every(sample => sample === 0.5)).toBe(true)
+  })
+
+  it('smooths magnitudes across blocks', () => {
+    const sampleRate = 44100
+    const analyser = new FFTAnalyser({ fftSize: 256, smoothingTimeConstant: 0.5 })
+    const tone = sine(16 * sampleRate / 256, sampleRate, 256)
+    const decibels = new Float32Array(analyser.frequencyBinCount)
+
+    analyser.write(tone)
+    analyser.getFloatFrequencyData(decibels)
+    const first = decibels[16]
+
+    analyser.write(tone)
+    analyser.getFloatFrequencyData(decibels)
+    // Half of the magnitude after one block, three quarters after two
+    expect(decibels[16] - first).toBeCloseTo(20 * Math.log10(1.5), 3)
+  })
+
+  it('seeks to the window that ends at a time', () => {
+    const channel = Float32Array.from({ length: 100 }, (_, i) => i / 100)
+    const analyser = new FFTAnalyser({ fftSize: 32 })
+    analyser.seek({ sampleRate: 10, channels: [channel] }, 2)
+
+    const samples = new Float32Array(32)
+    analyser.getFloatTimeDomainData(samples)
+    // Ends at sample 20, so the first 12 are before the start of the audio
+    expect(samples[11]).toBe(0)
+    expect(samples[12]).toBeCloseTo(0)
+    expect(samples[31]).toBeCloseTo(0.19)
+  })
+})
@@ -0,0 +1,231 @@
+import type { PCMAudio } from './wav'
+
+// The parts of AnalyserNode that AudioAnalyzer reads from
+export interface Analyser {
+  minDecibels: number
+  maxDecibels: number
+  getByteFrequencyData: (array: Uint8Array<ArrayBuffer>) => void
+  getByteTimeDomainData: (array: Uint8Array<ArrayBuffer>) => void
+  getFloatFrequencyData: (array: Float32Array<ArrayBuffer>) => void
+  getFloatTimeDomainData: (array: Float32Array<ArrayBuffer>) => void
+}
+
+export interface FFTAnalyserOptions {
+  fftSize?: number
+  smoothingTimeConstant?: number
+  minDecibels?: number
+  maxDecibels?: number
+}
+
+// In-place radix-2 FFT over separate real and imaginary arrays
+export class FFT {
+  public readonly size: number
+  private reversed: Uint32Array
+  private cosTable: Float64Array
+  private sinTable: Float64Array
+
+  constructor(size: number) {
+    if (size < 2 || (size & (size - 1)) !== 0) {
+      throw new Error(`FFT size must be a power of two, got ${size}`)
+    }
+
+    this.size = size
+    this.reversed = new Uint32Array(size)
+    this.cosTable = new Float64Array(size / 2)
+    this.sinTable = new Float64Array(size / 2)
+
+    const bits = Math.log2(size)
+    for (let i = 0; i < size; i++) {
+      let reversed = 0
+      for (let bit = 0; bit < bits; bit++) {
+        reversed = (reversed << 1) | ((i >> bit) & 1)
+      }
+      this.reversed[i] = reversed
+    }
+
+    for (let i = 0; i < size / 2; i++) {
+      this.cosTable[i] = Math.cos(2 * Math.PI * i / size)
+      this.sinTable[i] = -Math.sin(2 * Math.PI * i / size)
+    }
+  }
+
+  public transform(real: Float64Array, imag: Float64Array): void {
+    const size = this.size
+
+    for (let i = 0; i < size; i++) {
+      const j = this.reversed[i]
+      if (j > i) {
+        [real[i], real[j]] = [real[j], real[i]];
+        [imag[i], imag[j]] = [imag[j], imag[i]]
+      }
+    }
+
+    for (let length = 2; length <= size; length *= 2) {
+      const half = length / 2
+      const step = size / length
+      for (let start = 0; start < size; start += length) {
+        for (let k = 0; k < half; k++) {
+          const cos = this.cosTable[k * step]
+          const sin = this.sinTable[k * step]
+          const a = start + k
+          const b = a + half
+          const re = real[b] * cos - imag[b] * sin
+          const im = real[b] * sin + imag[b] * cos
+          real[b] = real[a] - re
+          imag[b] = imag[a] - im
+          real[a] += re
+          imag[a] += im
+        }
+      }
+    }
+  }
+}
+
+// Software stand-in for AnalyserNode that analyzes PCM written to it, for use
+// outside the browser. Follows the Web Audio spec: Blackman window, magnitudes
+// divided by fftSize, exponential smoothing, then conversion to decibels.
+export class FFTAnalyser implements Analyser {
+  public readonly fftSize: number
+  public readonly frequencyBinCount: number
+  public smoothingTimeConstant: number
+  public minDecibels: number
+  public maxDecibels: number
+
+  private fft: FFT
+  private window: Float64Array
+  // The last fftSize samples, oldest first once unrolled from writeIndex
+  private input: Float32Array
+  private writeIndex = 0
+  private real: Float64Array
+  private imag: Float64Array
+  private magnitudes: Float64Array
+  private decibels: Float32Array
+  // Smoothing advances once per block of new input, as AnalyserNode does per render quantum
+  private dirty = true
+
+  constructor(options: FFTAnalyserOptions = {}) {
+    this.fftSize = options.fftSize ?? 2048
+    if (this.fftSize < 32 || this.fftSize > 32768) {
+      throw new Error(`fftSize must be between 32 and 32768, got ${this.fftSize}`)
+    }
+
+    this.frequencyBinCount = this.fftSize / 2
+    this.smoothingTimeConstant = options.smoothingTimeConstant ?? 0.8
+    this.minDecibels = options.minDecibels ?? -100
+    this.maxDecibels = options.maxDecibels ?? -30
+
+    this.fft = new FFT(this.fftSize)
+    this.window = new Float64Array(this.fftSize)
+    for (let i = 0; i < this.fftSize; i++) {
+      const phase = 2 * Math.PI * i / this.fftSize
+      this.window[i] = 0.42 - 0.5 * Math.cos(phase) + 0.08 * Math.cos(2 * phase)
+    }
+
+    this.input = new Float32Array(this.fftSize)
+    this.real = new Float64Array(this.fftSize)
+    this.imag = new Float64Array(this.fftSize)
+    this.magnitudes = new Float64Array(this.frequencyBinCount)
+    this.decibels = new Float32Array(this.frequencyBinCount)
+  }
+
+  // Append samples; several channels are mixed down to mono by averaging
+  public write(samples: Float32Array | Float32Array[]): void {
+    const channels = Array.isArray(samples) ? samples : [samples]
+    if (channels.length === 0)
+      return
+
+    const length = Math.min(...channels.map(channel => channel.length))
+    for (let i = 0; i < length; i++) {
+      let sum = 0
+      for (const channel of channels) sum += channel[i]
+      this.input[this.writeIndex] = sum / channels.length
+      this.writeIndex = (this.writeIndex + 1) % this.fftSize
+    }
+
+    if (length > 0)
+      this.dirty = true
+  }
+
+  // Replace the input with the fftSize samples that end at `time` seconds into the audio
+  public seek(audio: PCMAudio, time: number): void {
+    const end = Math.round(time * audio.sampleRate)
+    const start = end - this.fftSize
+
+    this.writeIndex = 0
+    for (let i = 0; i < this.fftSize; i++) {
+      const index = start + i
+      let sum = 0
+      for (const channel of audio.channels) {
+        sum += index >= 0 && index < channel.length ? channel[index] : 0
+      }
+      this.input[i] = audio.channels.length > 0 ? sum / audio.channels.length : 0
+    }
+
+    this.dirty = true
+  }
+
+  public reset(): void {
+    this.input.fill(0)
+    this.magnitudes.fill(0)
+    this.writeIndex = 0
+    this.dirty = true
+  }
+
+  private getSample(i: number): number {
+    return this.input[(this.writeIndex + i) % this.fftSize]
+  }
+
+  private analyze(): void {
+    if (!this.dirty)
+      return
+    this.dirty = false
+
+    const size = this.fftSize
+    for (let i = 0; i < size; i++) {
+      this.real[i] = this.getSample(i) * this.window[i]
+      this.imag[i] = 0
+    }
+
+    this.fft.transform(this.real, this.imag)
+
+    const smoothing = Math.min(Math.max(this.smoothingTimeConstant, 0), 1)
+    for (let k = 0; k < this.frequencyBinCount; k++) {
+      const magnitude = Math.hypot(this.real[k], this.imag[k]) / size
+      const smoothed = smoothing * this.magnitudes[k] + (1 - smoothing) * magnitude
+      // Non-finite values (e.g. NaN input) reset the history, as the spec requires
+      this.magnitudes[k] = Number.isFinite(smoothed) ? smoothed : 0
+      this.decibels[k] = 20 * Math.log10(this.magnitudes[k])
+    }
+  }
+
+  public getFloatFrequencyData(array: Float32Array<ArrayBuffer>): void {
+    this.analyze()
+    const length = Math.min(array.length, this.frequencyBinCount)
+    array.set(this.decibels.subarray(0, length))
+  }
+
+  public getByteFrequencyData(array: Uint8Array<ArrayBuffer>): void {
+    this.analyze()
+    const length = Math.min(array.length, this.frequencyBinCount)
+    const scale = 255 / (this.maxDecibels - this.minDecibels)
+    for (let k = 0; k < length; k++) {
+      const value = Math.floor(scale * (this.decibels[k] - this.minDecibels))
+      array[k] = Math.min(Math.max(value, 0), 255)
+    }
+  }
+
+  public getFloatTimeDomainData(array: Float32Array<ArrayBuffer>): void {
+    const length = Math.min(array.length, this.fftSize)
+    for (let i = 0; i < length; i++) {
+      array[i] = this.getSample(i)
+    }
+  }
+
+  public getByteTimeDomainData(array: Uint8Array<ArrayBuffer>): void {
+    const length = Math.min(array.length, this.fftSize)
+    for (let i = 0; i < length; i++) {
+      const value = Math.floor(128 * (1 + this.getSample(i)))
+      array[i] = Math.min(Math.max(value, 0), 255)
+    }
+  }
+}
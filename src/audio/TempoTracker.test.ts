@@ -0,0 +1,106 @@
+import type { BeatDetector } from './BeatDetector'
+import { describe, expect, it } from 'vitest'
+import { VirtualClock } from '../core/Clock'
+import { TempoTracker } from './TempoTracker'
+
+// Stands in for the beat detector with a pulse train at a fixed tempo
+class PulseDetector {
+  public beat = false
+
+  public isBeat(): boolean {
+    return this.beat
+  }
+
+  public getBeatStrength(): number {
+    return this.beat ? 1 : 0
+  }
+}
+
+// Drive a tracker at 60 fps with a beat every `period` ms, starting at `offset`
+function play(tracker: TempoTracker, clock: VirtualClock, detector: PulseDetector, period: number, duration: number, offset = 0): void {
+  const frame = 1000 / 60
+  const end = clock.now() + duration
+  let nextPulse = clock.now() + offset
+  while (clock.now() < end) {
+    clock.advance(frame)
+    detector.beat = clock.now() >= nextPulse
+    if (detector.beat)
+      nextPulse += period
+    tracker.update()
+  }
+}
+
+function createTracker(config = {}): { tracker: TempoTracker, clock: VirtualClock, detector: PulseDetector } {
+  const clock = new VirtualClock()
+  const detector = new PulseDetector()
+  const tracker = new TempoTracker(detector as unknown as BeatDetector, config, clock)
+  return { tracker, clock, detector }
+}
+
+describe('tempoTracker', () => {
+  it('rejects an empty tempo range', () => {
+    const clock = new VirtualClock()
+    expect(() => new TempoTracker(new PulseDetector() as unknown as BeatDetector, { minBpm: 120, maxBpm: 120 }, clock)).toThrow('Tempo range 120-120 BPM is empty')
+  })
+
+  it('reports no tempo before it has enough history', () => {
+    const { tracker, clock, detector } = createTracker()
+    play(tracker, clock, detector, 500, 1000)
+    expect(tracker.getTempo()).toEqual({ bpm: 0, beatPhase: 0, barPhase: 0, confidence: 0 })
+    expect(tracker.getNextBeatTime()).toBeNull()
+  })
+
+  it('locks on to a steady pulse', () => {
+    const { tracker, clock, detector } = createTracker()
+    play(tracker, clock, detector, 500, 10000)
+
+    expect(tracker.getBpm()).toBeGreaterThan(117)
+    expect(tracker.getBpm()).toBeLessThan(123)
+    expect(tracker.getConfidence()).toBeGreaterThan(0.5)
+  })
+
+  it('picks the tempo within the range rather than a multiple', () => {
+    const { tracker, clock, detector } = createTracker({ minBpm: 70, maxBpm: 140 })
+    play(tracker, clock, detector, 375, 12000)
+    expect(tracker.getBpm()).toBeGreaterThan(155 / 2)
+    expect(tracker.getBpm()).toBeLessThan(165 / 2 + 1)
+  })
+
+  it('keeps the beat clock running after onsets stop', () => {
+    const { tracker, clock, detector } = createTracker()
+    play(tracker, clock, detector, 500, 10000)
+    const bpm = tracker.getBpm()
+
+    let predictedBeats = 0
+    const frame = 1000 / 60
+    detector.beat = false
+    for (let time = 0; time < 2000; time += frame) {
+      clock.advance(frame)
+      tracker.update()
+      if (tracker.isBeat())
+        predictedBeats++
+      expect(tracker.getBeatPhase()).toBeGreaterThanOrEqual(0)
+      expect(tracker.getBeatPhase()).toBeLessThanOrEqual(1)
+    }
+
+    expect(predictedBeats).toBe(4)
+    expect(tracker.getBpm()).toBeCloseTo(bpm, 0)
+  })
+
+  it('counts bars in beats', () => {
+    const { tracker, clock, detector } = createTracker({ beatsPerBar: 4 })
+    play(tracker, clock, detector, 500, 10000)
+    const barPhase = tracker.getBarPhase()
+    // Four beats later the bar phase comes round again
+    play(tracker, clock, detector, 500, 2000)
+    expect(tracker.getBarPhase()).toBeCloseTo(barPhase, 1)
+  })
+
+  it('forgets everything on reset', () => {
+    const { tracker, clock, detector } = createTracker()
+    play(tracker, clock, detector, 500, 10000)
+    tracker.reset()
+    expect(tracker.getBpm()).toBe(0)
+    expect(tracker.getTimeToNextBeat()).toBeNull()
+  })
+})
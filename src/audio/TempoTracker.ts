@@ -0,0 +1,284 @@
+import type { Clock } from '../core/Clock'
+import type { BeatDetector } from './BeatDetector'
+import { realtimeClock } from '../core/Clock'
+
+export interface TempoConfig {
+  minBpm: number
+  maxBpm: number
+  beatsPerBar: number
+  // Milliseconds of onset history the tempo is estimated from
+  historyLength: number
+  // Milliseconds between tempo estimates
+  estimateInterval: number
+  // How far each detected beat pulls the predicted phase towards it, 0-1
+  phaseCorrection: number
+  // Estimates below this confidence keep the previous tempo
+  minimumConfidence: number
+}
+
+export interface TempoData {
+  // 0 until a tempo has been found
+  bpm: number
+  // Ramps from 0 to 1 over each beat
+  beatPhase: number
+  // Ramps from 0 to 1 over each bar
+  barPhase: number
+  // How periodic the recent onsets are, 0-1
+  confidence: number
+}
+
+// Milliseconds per onset envelope sample
+const HOP = 10
+
+// Estimates within this fraction of the current period refine it instead of replacing it
+const PERIOD_TOLERANCE = 0.05
+
+// Tempo estimation from the autocorrelation of the beat detector's onset strength,
+// with a phase-locked beat clock that keeps running when onsets stop
+export class TempoTracker {
+  private beatDetector: BeatDetector
+  private config: TempoConfig
+  private clock: Clock
+  // Onset strength, one sample per HOP, oldest first
+  private envelope: number[] = []
+  // 1 where the beat detector reported a beat, aligned with envelope
+  private beats: number[] = []
+  private lastSampleTime: number | null = null
+  private lastEstimateTime = -Infinity
+  private time = 0
+  // Milliseconds per beat, 0 until the first estimate
+  private period = 0
+  // A different period seen once; it replaces the current one if seen again
+  private candidatePeriod = 0
+  private confidence = 0
+  private nextBeatTime = 0
+  private beatIndex = 0
+  private isCurrentlyBeat = false
+
+  constructor(beatDetector: BeatDetector, config: Partial<TempoConfig> = {}, clock: Clock = realtimeClock) {
+    this.beatDetector = beatDetector
+    this.clock = clock
+    this.config = {
+      minBpm: 60,
+      maxBpm: 180,
+      beatsPerBar: 4,
+      historyLength: 6000, // Enough for several beats at the slowest tempo
+      estimateInterval: 500,
+      phaseCorrection: 0.2,
+      minimumConfidence: 0.1,
+      ...config,
+    }
+
+    if (!(this.config.minBpm > 0 && this.config.maxBpm > this.config.minBpm)) {
+      throw new Error(`Tempo range ${this.config.minBpm}-${this.config.maxBpm} BPM is empty`)
+    }
+  }
+
+  // Call after BeatDetector.update()
+  public update(): void {
+    const now = this.clock.now()
+    this.time = now
+
+    this.record(now, this.beatDetector.getBeatStrength(), this.beatDetector.isBeat())
+
+    if (now - this.lastEstimateTime >= this.config.estimateInterval) {
+      this.estimate(now)
+      this.lastEstimateTime = now
+    }
+
+    this.track(now)
+  }
+
+  private record(now: number, strength: number, beat: boolean): void {
+    const maxSamples = Math.ceil(this.config.historyLength / HOP)
+
+    if (this.lastSampleTime === null) {
+      this.lastSampleTime = now
+      this.envelope.push(strength)
+      this.beats.push(beat ? 1 : 0)
+      return
+    }
+
+    // Hold the strength over the frame, so the envelope doesn't depend on frame rate
+    const count = Math.min(Math.floor((now - this.lastSampleTime) / HOP), maxSamples)
+    for (let i = 0; i < count; i++) {
+      this.envelope.push(strength)
+      this.beats.push(beat && i === 0 ? 1 : 0)
+    }
+    this.lastSampleTime += Math.floor((now - this.lastSampleTime) / HOP) * HOP
+
+    if (this.envelope.length > maxSamples) {
+      this.envelope.splice(0, this.envelope.length - maxSamples)
+      this.beats.splice(0, this.beats.length - maxSamples)
+    }
+  }
+
+  private estimate(now: number): void {
+    const minLag = Math.max(1, Math.floor(60000 / this.config.maxBpm / HOP))
+    const maxLag = Math.ceil(60000 / this.config.minBpm / HOP)
+    const length = this.envelope.length
+    if (length < maxLag * 2)
+      return
+
+    const mean = this.envelope.reduce((sum, value) => sum + value, 0) / length
+    const signal = this.envelope.map(value => value - mean)
+
+    const autocorrelation = (lag: number): number => {
+      if (lag >= length)
+        return 0
+      let sum = 0
+      for (let i = lag; i < length; i++) sum += signal[i] * signal[i - lag]
+      return sum / (length - lag)
+    }
+
+    const energy = autocorrelation(0)
+    if (energy <= 0) {
+      this.confidence = 0
+      return
+    }
+
+    // Score each lag with its first multiple, like a two-tooth comb filter, and
+    // weight towards 120 BPM so half and double tempo lose close calls
+    const values = new Float64Array(maxLag + 2)
+    for (let lag = minLag - 1; lag <= maxLag + 1; lag++) values[lag] = autocorrelation(lag)
+
+    let bestLag = 0
+    let bestScore = -Infinity
+    for (let lag = minLag; lag <= maxLag; lag++) {
+      const bpm = 60000 / (lag * HOP)
+      const prior = Math.exp(-0.5 * Math.log2(bpm / 120) ** 2)
+      const score = (values[lag] + 0.5 * autocorrelation(lag * 2)) * prior
+      if (score > bestScore) {
+        bestScore = score
+        bestLag = lag
+      }
+    }
+
+    this.confidence = Math.min(Math.max(values[bestLag] / energy, 0), 1)
+    if (this.confidence < this.config.minimumConfidence)
+      return
+
+    // Parabolic interpolation between neighbouring lags
+    const previous = values[bestLag - 1]
+    const next = values[bestLag + 1]
+    const curvature = previous - 2 * values[bestLag] + next
+    const offset = curvature < 0 ? Math.min(Math.max(0.5 * (previous - next) / curvature, -0.5), 0.5) : 0
+    const period = (bestLag + offset) * HOP
+
+    if (this.period > 0 && Math.abs(period - this.period) < this.period * PERIOD_TOLERANCE) {
+      this.period = this.period * 0.8 + period * 0.2
+      this.candidatePeriod = 0
+    }
+    else if (this.period === 0 || Math.abs(period - this.candidatePeriod) < this.candidatePeriod * PERIOD_TOLERANCE) {
+      this.period = period
+      this.candidatePeriod = 0
+      this.nextBeatTime = now + this.findPhase(bestLag)
+    }
+    else {
+      this.candidatePeriod = period
+    }
+  }
+
+  // Milliseconds until the next beat, from where detected beats line up best at
+  // this lag. Onset strength breaks ties, and decides alone when there were no beats.
+  private findPhase(lag: number): number {
+    const last = this.envelope.length - 1
+    const hasBeats = this.beats.includes(1)
+    let bestOffset = 0
+    let bestSum = -Infinity
+    for (let offset = 0; offset < lag; offset++) {
+      let sum = 0
+      for (let i = last - offset; i >= 0; i -= lag) {
+        // Beats can land a sample either side of the grid
+        const beats = hasBeats ? this.beats[i] + (this.beats[i - 1] ?? 0) + (this.beats[i + 1] ?? 0) : 0
+        sum += beats + this.envelope[i] * 1e-3
+      }
+      if (sum > bestSum) {
+        bestSum = sum
+        bestOffset = offset
+      }
+    }
+
+    return this.period - bestOffset * HOP
+  }
+
+  private track(now: number): void {
+    this.isCurrentlyBeat = false
+    if (this.period === 0)
+      return
+
+    // Pull the beat clock towards detected beats that land near a predicted one
+    if (this.beatDetector.isBeat()) {
+      const previousBeatTime = this.nextBeatTime - this.period
+      const error = now - previousBeatTime < this.nextBeatTime - now
+        ? now - previousBeatTime
+        : now - this.nextBeatTime
+      if (Math.abs(error) < this.period * 0.25) {
+        this.nextBeatTime += error * this.config.phaseCorrection
+      }
+    }
+
+    if (now >= this.nextBeatTime) {
+      const beats = Math.floor((now - this.nextBeatTime) / this.period) + 1
+      this.nextBeatTime += beats * this.period
+      this.beatIndex += beats
+      this.isCurrentlyBeat = true
+    }
+  }
+
+  public getBpm(): number {
+    return this.period > 0 ? 60000 / this.period : 0
+  }
+
+  public getBeatPhase(): number {
+    if (this.period === 0)
+      return 0
+    return Math.min(Math.max(1 - (this.nextBeatTime - this.time) / this.period, 0), 1)
+  }
+
+  // Bars are counted from when the tempo locked, not from detected downbeats
+  public getBarPhase(): number {
+    const beatsPerBar = this.config.beatsPerBar
+    return ((this.beatIndex % beatsPerBar) + this.getBeatPhase()) / beatsPerBar
+  }
+
+  public getConfidence(): number {
+    return this.confidence
+  }
+
+  // True on the update where a predicted beat falls, whether or not an onset was detected
+  public isBeat(): boolean {
+    return this.isCurrentlyBeat
+  }
+
+  // Clock time in milliseconds of the next predicted beat, or null without a tempo
+  public getNextBeatTime(): number | null {
+    return this.period > 0 ? this.nextBeatTime : null
+  }
+
+  public getTimeToNextBeat(): number | null {
+    return this.period > 0 ? this.nextBeatTime - this.clock.now() : null
+  }
+
+  public getTempo(): TempoData {
+    return {
+      bpm: this.getBpm(),
+      beatPhase: this.getBeatPhase(),
+      barPhase: this.getBarPhase(),
+      confidence: this.confidence,
+    }
+  }
+
+  public reset(): void {
+    this.envelope = []
+    this.beats = []
+    this.lastSampleTime = null
+    this.lastEstimateTime = -Infinity
+    this.period = 0
+    this.candidatePeriod = 0
+    this.confidence = 0
+    this.nextBeatTime = 0
+    this.beatIndex = 0
+    this.isCurrentlyBeat = false
+  }
+}
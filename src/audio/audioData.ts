@@ -0,0 +1,27 @@
+import type { AudioData } from '../presets/PresetRunner'
+import type { AudioAnalyzer } from './AudioAnalyzer'
+import type { BeatDetector } from './BeatDetector'
+import type { TempoTracker } from './TempoTracker'
+
+// Snapshot of the analysis that presets render from; call after both have updated
+export function collectAudioData(audioAnalyzer: AudioAnalyzer, beatDetector: BeatDetector, tempoTracker?: TempoTracker): AudioData {
+  const float = audioAnalyzer.isFloat()
+
+  return {
+    spectrum: audioAnalyzer.getSpectrum(),
+    waveform: audioAnalyzer.getWaveform(),
+    floatSpectrum: float ? audioAnalyzer.getFloatSpectrum() : undefined,
+    floatWaveform: float ? audioAnalyzer.getFloatWaveform() : undefined,
+    sampleRate: audioAnalyzer.getSampleRate(),
+    bands: audioAnalyzer.getBands(),
+    bandPeaks: audioAnalyzer.getBandPeaks(),
+    energy: audioAnalyzer.getEnergy(),
+    beat: beatDetector.isBeat(),
+    onsets: beatDetector.getOnsets(),
+    onsetStrength: beatDetector.getBeatStrength(),
+    tempo: tempoTracker?.getTempo(),
+    bass: audioAnalyzer.getBass(),
+    treble: audioAnalyzer.getTreble(),
+    levels: audioAnalyzer.getLevels(),
+  }
+}
@@ -0,0 +1,112 @@
+import { describe, expect, it, vi } from 'vitest'
+import { logger } from '../core/logger'
+import { BandAnalyzer, getBandEdges } from './bands'
+
+describe('getBandEdges', () => {
+  it('spaces log bands evenly in log frequency', () => {
+    const edges = getBandEdges({ count: 3, minFrequency: 10, maxFrequency: 10000 }, 48000)
+    expect(edges.map(edge => Math.round(edge))).toEqual([10, 100, 1000, 10000])
+  })
+
+  it('spaces mel bands evenly in mel', () => {
+    const edges = getBandEdges({ scale: 'mel', count: 4, minFrequency: 20, maxFrequency: 8000 }, 48000)
+    const mels = edges.map(edge => 2595 * Math.log10(1 + edge / 700))
+    const steps = mels.slice(1).map((mel, i) => mel - mels[i])
+    steps.forEach(step => expect(step).toBeCloseTo(steps[0]))
+    expect(edges[0]).toBeCloseTo(20)
+    expect(edges[4]).toBeCloseTo(8000)
+  })
+
+  it('uses the 1/3-octave bands that fit the range', () => {
+    const edges = getBandEdges({ scale: 'octave', minFrequency: 700, maxFrequency: 1500 }, 48000)
+    // Bands centred on 794, 1000 and 1260 Hz
+    expect(edges).toHaveLength(4)
+    expect(Math.sqrt(edges[1] * edges[2])).toBeCloseTo(1000)
+    expect(edges[0]).toBeGreaterThanOrEqual(700)
+    expect(edges[3]).toBeLessThanOrEqual(1500)
+  })
+
+  it('clamps to Nyquist and rejects empty ranges', () => {
+    expect(getBandEdges({ count: 2, minFrequency: 100 }, 8000)[2]).toBe(4000)
+    expect(() => getBandEdges({ minFrequency: 5000 }, 8000)).toThrow('Band range 5000-4000 Hz is empty at 8000 Hz')
+    expect(() => getBandEdges({ scale: 'octave', minFrequency: 1000, maxFrequency: 1100 }, 48000)).toThrow('narrower than a third of an octave')
+  })
+})
+
+describe('bandAnalyzer', () => {
+  it('validates the count and range up front', () => {
+    expect(() => new BandAnalyzer({ count: 0 })).toThrow('Band count must be a positive integer, got 0')
+    expect(() => new BandAnalyzer({ minFrequency: 500, maxFrequency: 100 })).toThrow('Band range 500-100 Hz is empty')
+  })
+
+  it('averages the bins in each band', () => {
+    // 1000 Hz per bin
+    const analyzer = new BandAnalyzer({ count: 2, minFrequency: 1000, maxFrequency: 4000, smoothing: 0 })
+    const spectrum = [0, 255, 255, 0, 0, 0, 0, 0]
+    analyzer.update(spectrum, 16000, 255, 1 / 60)
+
+    // Bins 1-2 and 2-4
+    const [first, second] = analyzer.getValues()
+    expect(first).toBe(1)
+    expect(second).toBeCloseTo(1 / 3)
+    expect(analyzer.getCenterFrequencies().map(Math.round)).toEqual([1414, 2828])
+  })
+
+  it('interpolates bands narrower than a bin', () => {
+    const analyzer = new BandAnalyzer({ count: 1, minFrequency: 1100, maxFrequency: 1300, smoothing: 0 })
+    analyzer.update([0, 0, 1, 0], 8000, 1, 1 / 60)
+    // Centre at bin 1.2
+    expect(analyzer.getValues()[0]).toBeCloseTo(0.2)
+  })
+
+  it('smooths values and holds peaks before they fall', () => {
+    const analyzer = new BandAnalyzer({ count: 1, minFrequency: 1000, maxFrequency: 3000, smoothing: 0.5, peakHold: 0.03, peakDecay: 3 })
+    const loud = [0, 1, 1, 1]
+    const silent = [0, 0, 0, 0]
+    const frame = 1 / 30
+
+    analyzer.update(loud, 8000, 1, frame)
+    expect(analyzer.getValues()[0]).toBeCloseTo(0.5)
+
+    analyzer.update(silent, 8000, 1, frame)
+    expect(analyzer.getValues()[0]).toBeCloseTo(0.25)
+    expect(analyzer.getPeaks()[0]).toBeCloseTo(0.5)
+
+    // Held for a frame, then falls by 3 per second
+    analyzer.update(silent, 8000, 1, frame)
+    expect(analyzer.getPeaks()[0]).toBeCloseTo(0.4)
+
+    analyzer.reset()
+    expect(analyzer.getPeaks()[0]).toBe(0)
+  })
+
+  it('responds the same at any frame rate', () => {
+    const options = { count: 1, minFrequency: 1000, maxFrequency: 3000, smoothing: 0.5, peakHold: 0.1, peakDecay: 1 }
+    const slow = new BandAnalyzer(options)
+    const fast = new BandAnalyzer(options)
+    const loud = [0, 1, 1, 1]
+    const silent = [0, 0, 0, 0]
+
+    slow.update(loud, 8000, 1, 1 / 30)
+    fast.update(loud, 8000, 1, 1 / 30)
+    for (let i = 0; i < 10; i++) slow.update(silent, 8000, 1, 1 / 30)
+    for (let i = 0; i < 40; i++) fast.update(silent, 8000, 1, 1 / 120)
+
+    expect(fast.getValues()[0]).toBeCloseTo(slow.getValues()[0], 6)
+    expect(fast.getPeaks()[0]).toBeCloseTo(slow.getPeaks()[0], 1)
+  })
+
+  it('goes quiet with a warning when the range is above Nyquist', () => {
+    const warn = vi.spyOn(logger, 'warn').mockImplementation(() => {})
+    const analyzer = new BandAnalyzer({ minFrequency: 5000, maxFrequency: 10000 })
+
+    expect(() => {
+      analyzer.update([0, 1, 1, 1], 8000, 1, 1 / 60)
+      analyzer.update([0, 1, 1, 1], 8000, 1, 1 / 60)
+    }).not.toThrow()
+    expect(analyzer.getValues()).toHaveLength(0)
+    expect(warn).toHaveBeenCalledOnce()
+    expect(warn).toHaveBeenCalledWith('Frequency bands disabled: Band range 5000-4000 Hz is empty at 8000 Hz')
+    warn.mockRestore()
+  })
+})
@@ -0,0 +1,203 @@
+import { logger } from '../core/logger'
+import { adjustRate } from './levels'
+
+// 'log': equal steps in log frequency. 'mel': equal steps in perceived pitch.
+// 'octave': standard 1/3-octave bands; the count follows from the frequency range
+export type BandScale = 'log' | 'mel' | 'octave'
+
+export interface BandOptions {
+  scale?: BandScale
+  count?: number
+  minFrequency?: number
+  maxFrequency?: number
+  // Fraction of the previous value kept per frame at 30 fps: 0 follows the
+  // spectrum exactly, values towards 1 respond more slowly
+  smoothing?: number
+  // Seconds a peak is held before it starts to fall
+  peakHold?: number
+  // How far a peak falls per second once released
+  peakDecay?: number
+}
+
+export const DEFAULT_BAND_OPTIONS: Required<BandOptions> = {
+  scale: 'log',
+  count: 32,
+  minFrequency: 20,
+  maxFrequency: 20000,
+  smoothing: 0.25,
+  peakHold: 0.5,
+  peakDecay: 0.6,
+}
+
+function hzToMel(frequency: number): number {
+  return 2595 * Math.log10(1 + frequency / 700)
+}
+
+function melToHz(mel: number): number {
+  return 700 * (10 ** (mel / 2595) - 1)
+}
+
+// Band edges in Hz: count + 1 values from low to high
+export function getBandEdges(options: BandOptions, sampleRate: number): number[] {
+  const { scale, count, minFrequency } = { ...DEFAULT_BAND_OPTIONS, ...options }
+  const maxFrequency = Math.min(options.maxFrequency ?? DEFAULT_BAND_OPTIONS.maxFrequency, sampleRate / 2)
+  const low = Math.max(minFrequency, 1)
+
+  if (maxFrequency <= low) {
+    const limit = Number.isFinite(sampleRate) ? ` at ${sampleRate} Hz` : ''
+    throw new Error(`Band range ${low}-${maxFrequency} Hz is empty${limit}`)
+  }
+
+  if (scale === 'octave') {
+    // Centers at 1 kHz * 2^(n/3), edges a sixth of an octave either side
+    const first = Math.ceil(3 * Math.log2(low / 1000) + 0.5)
+    const last = Math.floor(3 * Math.log2(maxFrequency / 1000) - 0.5)
+    if (first > last) {
+      throw new Error(`Band range ${low}-${maxFrequency} Hz is narrower than a third of an octave`)
+    }
+
+    const edges: number[] = []
+    for (let n = first; n <= last; n++) {
+      edges.push(1000 * 2 ** ((n - 0.5) / 3))
+    }
+    edges.push(1000 * 2 ** ((last + 0.5) / 3))
+    return edges
+  }
+
+  if (scale === 'mel') {
+    const lowMel = hzToMel(low)
+    const highMel = hzToMel(maxFrequency)
+    return Array.from({ length: count + 1 }, (_, i) => melToHz(lowMel + (highMel - lowMel) * i / count))
+  }
+
+  return Array.from({ length: count + 1 }, (_, i) => low * (maxFrequency / low) ** (i / count))
+}
+
+// Groups a linear FFT spectrum into perceptual bands, with smoothing and peak-hold
+export class BandAnalyzer {
+  private options: Required<BandOptions>
+  private values = new Float32Array(0)
+  private peaks = new Float32Array(0)
+  // Seconds each peak has been held
+  private holds = new Float32Array(0)
+  // Spectrum layout the band bins were computed for
+  private sampleRate = 0
+  private binCount = 0
+  private ranges: { start: number, end: number }[] = []
+
+  constructor(options: BandOptions = {}) {
+    this.options = { ...DEFAULT_BAND_OPTIONS, ...options }
+
+    if (!Number.isInteger(this.options.count) || this.options.count < 1) {
+      throw new Error(`Band count must be a positive integer, got ${this.options.count}`)
+    }
+
+    // Catch empty ranges now rather than on every update; Nyquist is checked once the rate is known
+    getBandEdges(this.options, Infinity)
+  }
+
+  public getOptions(): Required<BandOptions> {
+    return { ...this.options }
+  }
+
+  private layout(sampleRate: number, binCount: number): void {
+    if (sampleRate === this.sampleRate && binCount === this.binCount)
+      return
+
+    const binWidth = sampleRate / 2 / binCount
+
+    // A range above Nyquist at this rate leaves no bands, instead of failing every update
+    let edges: number[] = []
+    try {
+      edges = getBandEdges(this.options, sampleRate)
+    }
+    catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      logger.warn(`Frequency bands disabled: ${errorMessage}`)
+    }
+
+    // Fractional bin positions; bands narrower than a bin are interpolated
+    this.ranges = edges.slice(0, -1).map((edge, i) => ({
+      start: edge / binWidth,
+      end: edges[i + 1] / binWidth,
+    }))
+
+    const count = this.ranges.length
+    if (count !== this.values.length) {
+      this.values = new Float32Array(count)
+      this.peaks = new Float32Array(count)
+      this.holds = new Float32Array(count)
+    }
+
+    this.sampleRate = sampleRate
+    this.binCount = binCount
+  }
+
+  // spectrum values are divided by `scale`, e.g. 255 for byte data; deltaTime is
+  // in seconds, so bands respond the same at any frame rate
+  public update(spectrum: ArrayLike<number>, sampleRate: number, scale: number, deltaTime: number): void {
+    if (spectrum.length === 0)
+      return
+
+    this.layout(sampleRate, spectrum.length)
+
+    const last = spectrum.length - 1
+    const sample = (position: number): number => {
+      const clamped = Math.min(Math.max(position, 0), last)
+      const index = Math.floor(clamped)
+      const next = Math.min(index + 1, last)
+      return (spectrum[index] + (spectrum[next] - spectrum[index]) * (clamped - index)) / scale
+    }
+
+    const { peakHold, peakDecay } = this.options
+    const smoothing = adjustRate(this.options.smoothing, deltaTime)
+
+    this.ranges.forEach(({ start, end }, band) => {
+      let value: number
+      const first = Math.ceil(start)
+      const lastBin = Math.min(Math.floor(end), last)
+
+      if (lastBin - first < 1) {
+        value = sample((start + end) / 2)
+      }
+      else {
+        let sum = 0
+        for (let bin = first; bin <= lastBin; bin++) sum += spectrum[bin]
+        value = sum / (lastBin - first + 1) / scale
+      }
+
+      this.values[band] = smoothing * this.values[band] + (1 - smoothing) * value
+
+      if (this.values[band] >= this.peaks[band]) {
+        this.peaks[band] = this.values[band]
+        this.holds[band] = 0
+      }
+      else if (this.holds[band] < peakHold) {
+        this.holds[band] += deltaTime
+      }
+      else {
+        this.peaks[band] = Math.max(this.values[band], this.peaks[band] - peakDecay * deltaTime)
+      }
+    })
+  }
+
+  public getValues(): Float32Array {
+    return this.values
+  }
+
+  public getPeaks(): Float32Array {
+    return this.peaks
+  }
+
+  // Center frequency of each band in Hz, for labelling
+  public getCenterFrequencies(): number[] {
+    const binWidth = this.binCount > 0 ? this.sampleRate / 2 / this.binCount : 0
+    return this.ranges.map(({ start, end }) => Math.sqrt(start * end) * binWidth)
+  }
+
+  public reset(): void {
+    this.values.fill(0)
+    this.peaks.fill(0)
+    this.holds.fill(0)
+  }
+}
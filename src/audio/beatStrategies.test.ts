@@ -0,0 +1,116 @@
+import type { BeatDetectionStrategy, OnsetName } from './beatStrategies'
+import { describe, expect, it } from 'vitest'
+import { createSeededRandom } from '../core/Clock'
+import { DEFAULT_ONSET_RANGES, EnergyBeatStrategy, SpectralFluxBeatStrategy } from './beatStrategies'
+
+const SAMPLE_RATE = 44100
+const BIN_COUNT = 1024
+const FRAME = 1000 / 60
+
+const FLUX_OPTIONS = {
+  fluxWindow: 500,
+  fluxThreshold: 1.5,
+  fluxMinimum: 0.02,
+  onsetInterval: 100,
+  onsetRanges: DEFAULT_ONSET_RANGES,
+}
+
+const ENERGY_OPTIONS = {
+  threshold: 1.3,
+  energyWindow: 1000,
+  varianceThreshold: 0.1,
+}
+
+// A quiet spectrum with a little noise, and the kick range at full level on hits
+function createSpectrum(random: () => number, hit: boolean): Uint8Array {
+  const spectrum = Uint8Array.from({ length: BIN_COUNT }, () => 60 + Math.floor(random() * 8))
+  if (hit) {
+    const binWidth = SAMPLE_RATE / 2 / BIN_COUNT
+    for (let i = Math.floor(DEFAULT_ONSET_RANGES.kick.min / binWidth); i <= Math.ceil(DEFAULT_ONSET_RANGES.kick.max / binWidth); i++)
+      spectrum[i] = 255
+  }
+  return spectrum
+}
+
+// Run a strategy at 60 fps for `duration` ms, hitting wherever `isHit` says, and
+// collect the times of each kind of detection
+function play(strategy: BeatDetectionStrategy, duration: number, isHit: (time: number) => boolean): { beats: number[], onsets: Record<OnsetName, number[]> } {
+  const random = createSeededRandom(7)
+  const beats: number[] = []
+  const onsets: Record<OnsetName, number[]> = { kick: [], snare: [], hat: [] }
+
+  for (let frame = 0; frame * FRAME < duration; frame++) {
+    const time = frame * FRAME
+    const hit = isHit(time)
+    const result = strategy.update({
+      time,
+      energy: hit ? 1 : 0.2 + random() * 0.02,
+      spectrum: createSpectrum(random, hit),
+      sampleRate: SAMPLE_RATE,
+    })
+    if (result.beat)
+      beats.push(time)
+    for (const name of Object.keys(onsets) as OnsetName[]) {
+      if (result.onsets[name])
+        onsets[name].push(time)
+    }
+  }
+
+  return { beats, onsets }
+}
+
+// A hit on the first frame of every period
+function every(period: number): (time: number) => boolean {
+  return time => time % period < FRAME
+}
+
+describe('spectralFluxBeatStrategy', () => {
+  it('fires a kick and a beat for every hit of an impulse train', () => {
+    const { beats, onsets } = play(new SpectralFluxBeatStrategy(FLUX_OPTIONS), 5000, every(500))
+
+    // The first update only sets the baseline, so the flux window is full just
+    // after the hit at 500 ms; every hit from 1000 ms on is detected
+    expect(onsets.kick).toHaveLength(8)
+    expect(onsets.kick[0]).toBeCloseTo(1000)
+    expect(beats).toEqual(onsets.kick)
+    onsets.kick.forEach(time => expect(time % 500).toBeLessThan(FRAME))
+    expect(onsets.hat).toEqual([])
+  })
+
+  it('stays quiet on steady noise', () => {
+    const { beats, onsets } = play(new SpectralFluxBeatStrategy(FLUX_OPTIONS), 5000, () => false)
+    expect(beats).toEqual([])
+    expect(onsets).toEqual({ kick: [], snare: [], hat: [] })
+  })
+
+  it('respects the onset interval', () => {
+    const { onsets } = play(new SpectralFluxBeatStrategy(FLUX_OPTIONS), 3000, every(FRAME * 3))
+
+    expect(onsets.kick.length).toBeGreaterThan(0)
+    onsets.kick.slice(1).forEach((time, i) => expect(time - onsets.kick[i]).toBeGreaterThanOrEqual(100))
+  })
+
+  it('starts over after reset', () => {
+    const strategy = new SpectralFluxBeatStrategy(FLUX_OPTIONS)
+    play(strategy, 2000, every(500))
+    strategy.reset()
+    // The first update after a reset only sets the baseline
+    const result = strategy.update({ time: 0, energy: 1, spectrum: createSpectrum(Math.random, true), sampleRate: SAMPLE_RATE })
+    expect(result).toEqual({ beat: false, strength: 0, onsets: { kick: false, snare: false, hat: false } })
+  })
+})
+
+describe('energyBeatStrategy', () => {
+  it('fires on energy spikes once the window is full', () => {
+    const { beats, onsets } = play(new EnergyBeatStrategy(ENERGY_OPTIONS), 5000, every(500))
+
+    expect(beats).toHaveLength(8)
+    beats.forEach(time => expect(time).toBeGreaterThanOrEqual(1000))
+    expect(onsets.kick).toEqual([])
+  })
+
+  it('stays quiet on steady energy', () => {
+    const { beats } = play(new EnergyBeatStrategy(ENERGY_OPTIONS), 5000, () => false)
+    expect(beats).toEqual([])
+  })
+})
@@ -0,0 +1,235 @@
+import type { FrequencyRange } from './levels'
+import { getRangeBins } from './levels'
+
+export type OnsetName = 'kick' | 'snare' | 'hat'
+
+export const ONSET_NAMES: OnsetName[] = ['kick', 'snare', 'hat']
+
+// Where each drum's onsets show up most clearly
+export const DEFAULT_ONSET_RANGES: Record<OnsetName, FrequencyRange> = {
+  kick: { min: 40, max: 120 },
+  snare: { min: 200, max: 2500 },
+  hat: { min: 6000, max: 16000 },
+}
+
+// What a strategy sees each update
+export interface BeatDetectionInput {
+  // Milliseconds from the detector's clock
+  time: number
+  energy: number
+  // Byte spectrum in the analyzer's decibel window
+  spectrum: Uint8Array
+  sampleRate: number
+}
+
+export interface BeatDetectionResult {
+  // A beat candidate; BeatDetector enforces minimumInterval on top
+  beat: boolean
+  // Onset strength envelope, 0 when nothing is happening
+  strength: number
+  onsets: Record<OnsetName, boolean>
+}
+
+export interface BeatDetectionStrategy {
+  update: (input: BeatDetectionInput) => BeatDetectionResult
+  reset: () => void
+}
+
+export interface EnergyBeatOptions {
+  threshold: number
+  // Milliseconds of energy the average is taken over
+  energyWindow: number
+  varianceThreshold: number
+}
+
+export interface SpectralFluxOptions {
+  // Milliseconds of flux the median threshold is taken over
+  fluxWindow: number
+  // Flux must exceed the median times this, plus fluxMinimum
+  fluxThreshold: number
+  fluxMinimum: number
+  // Minimum milliseconds between onsets of the same drum
+  onsetInterval: number
+  onsetRanges: Record<OnsetName, FrequencyRange>
+}
+
+// The envelope halves every this many milliseconds after an onset
+const ENVELOPE_HALF_LIFE = 80
+
+function noOnsets(): Record<OnsetName, boolean> {
+  return { kick: false, snare: false, hat: false }
+}
+
+// Values from a trailing time window, so behaviour doesn't depend on frame rate
+class TimedHistory {
+  private times: number[] = []
+  private values: number[] = []
+  private startTime: number | null = null
+
+  public push(time: number, value: number, window: number): void {
+    this.startTime ??= time
+    this.times.push(time)
+    this.values.push(value)
+    while (this.times.length > 1 && this.times[0] <= time - window) {
+      this.times.shift()
+      this.values.shift()
+    }
+  }
+
+  // Whether values have been pushed for a whole window
+  public isFull(time: number, window: number): boolean {
+    return this.startTime !== null && time - this.startTime >= window
+  }
+
+  public getValues(): number[] {
+    return this.values
+  }
+
+  public clear(): void {
+    this.times = []
+    this.values = []
+    this.startTime = null
+  }
+}
+
+function median(values: number[]): number {
+  if (values.length === 0)
+    return 0
+
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+// Full-spectrum energy against its recent average. Options are read on every
+// update, so changes made through BeatDetector apply immediately.
+export class EnergyBeatStrategy implements BeatDetectionStrategy {
+  private options: EnergyBeatOptions
+  private energyHistory = new TimedHistory()
+
+  constructor(options: EnergyBeatOptions) {
+    this.options = options
+  }
+
+  public update({ time, energy }: BeatDetectionInput): BeatDetectionResult {
+    // Add current energy to history, dropping what has left the window
+    this.energyHistory.push(time, energy, this.options.energyWindow)
+
+    // Need enough history to detect beats
+    if (!this.energyHistory.isFull(time, this.options.energyWindow)) {
+      return { beat: false, strength: 0, onsets: noOnsets() }
+    }
+
+    // Calculate average energy over history
+    const history = this.energyHistory.getValues()
+    const averageEnergy = history.reduce((sum, e) => sum + e, 0) / history.length
+
+    // Calculate variance to ensure we have dynamic audio
+    const variance = this.calculateVariance(history, averageEnergy)
+
+    // Detect beat: energy above threshold and enough variance
+    const energyThresholdMet = energy > averageEnergy * this.options.threshold
+    const varianceThresholdMet = variance > this.options.varianceThreshold
+
+    return {
+      beat: energyThresholdMet && varianceThresholdMet,
+      strength: averageEnergy === 0 ? 0 : Math.max(0, (energy - averageEnergy) / averageEnergy),
+      onsets: noOnsets(),
+    }
+  }
+
+  private calculateVariance(values: number[], mean: number): number {
+    if (values.length === 0)
+      return 0
+
+    const squaredDiffs = values.map(value => (value - mean) ** 2)
+    const avgSquaredDiff = squaredDiffs.reduce((sum, diff) => sum + diff, 0) / values.length
+
+    return Math.sqrt(avgSquaredDiff)
+  }
+
+  public reset(): void {
+    this.energyHistory.clear()
+  }
+}
+
+// Per-band spectral flux (the rise in each bin since the last update) against
+// an adaptive threshold from the median of recent flux. Kick onsets are beats.
+export class SpectralFluxBeatStrategy implements BeatDetectionStrategy {
+  private options: SpectralFluxOptions
+  private previousSpectrum = new Float32Array(0)
+  private history: Record<OnsetName, TimedHistory> = { kick: new TimedHistory(), snare: new TimedHistory(), hat: new TimedHistory() }
+  private totalHistory = new TimedHistory()
+  private above = noOnsets()
+  private lastOnsetTime: Record<OnsetName, number> = { kick: -Infinity, snare: -Infinity, hat: -Infinity }
+  private envelope = 0
+  private lastTime: number | null = null
+
+  constructor(options: SpectralFluxOptions) {
+    this.options = options
+  }
+
+  public update({ time, spectrum, sampleRate }: BeatDetectionInput): BeatDetectionResult {
+    const onsets = noOnsets()
+
+    // The first update (or a new FFT size) only sets the baseline
+    if (this.previousSpectrum.length !== spectrum.length) {
+      this.previousSpectrum = new Float32Array(spectrum.length)
+      for (let i = 0; i < spectrum.length; i++) this.previousSpectrum[i] = spectrum[i] / 255
+      this.lastTime = time
+      return { beat: false, strength: 0, onsets }
+    }
+
+    const flux = new Float32Array(spectrum.length)
+    let total = 0
+    for (let i = 0; i < spectrum.length; i++) {
+      const value = spectrum[i] / 255
+      flux[i] = Math.max(0, value - this.previousSpectrum[i])
+      total += flux[i]
+      this.previousSpectrum[i] = value
+    }
+    total /= spectrum.length || 1
+
+    const { fluxWindow, fluxThreshold, fluxMinimum, onsetInterval, onsetRanges } = this.options
+    for (const name of ONSET_NAMES) {
+      const { start, end } = getRangeBins(spectrum.length, sampleRate, onsetRanges[name])
+      let bandFlux = 0
+      for (let i = start; i < end; i++) bandFlux += flux[i]
+      bandFlux /= end - start
+
+      const history = this.history[name]
+      const threshold = median(history.getValues()) * fluxThreshold + fluxMinimum
+      const isAbove = history.isFull(time, fluxWindow) && bandFlux > threshold
+
+      // Trigger on the rising edge only, so a long attack counts once
+      if (isAbove && !this.above[name] && time - this.lastOnsetTime[name] >= onsetInterval) {
+        onsets[name] = true
+        this.lastOnsetTime[name] = time
+      }
+      this.above[name] = isAbove
+
+      history.push(time, bandFlux, fluxWindow)
+    }
+
+    // Envelope jumps to the flux above its median and decays with time
+    const totalThreshold = median(this.totalHistory.getValues()) + fluxMinimum
+    const excess = this.totalHistory.isFull(time, fluxWindow) ? Math.max(0, total - totalThreshold) / totalThreshold : 0
+    const deltaTime = this.lastTime === null ? 0 : Math.max(0, time - this.lastTime)
+    this.envelope = Math.max(excess, this.envelope * 0.5 ** (deltaTime / ENVELOPE_HALF_LIFE))
+    this.lastTime = time
+
+    this.totalHistory.push(time, total, fluxWindow)
+
+    return { beat: onsets.kick, strength: this.envelope, onsets }
+  }
+
+  public reset(): void {
+    this.previousSpectrum = new Float32Array(0)
+    for (const name of ONSET_NAMES) this.history[name].clear()
+    this.totalHistory.clear()
+    this.above = noOnsets()
+    this.lastOnsetTime = { kick: -Infinity, snare: -Infinity, hat: -Infinity }
+    this.envelope = 0
+    this.lastTime = null
+  }
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { getRangeBins, getRangeLevel, LevelTracker, validateFrequencyRanges } from './levels'
+
+describe('getRangeBins', () => {
+  it('covers the range and never comes back empty', () => {
+    // 100 Hz per bin
+    expect(getRangeBins(100, 20000, { min: 250, max: 1000 })).toEqual({ start: 2, end: 10 })
+    expect(getRangeBins(100, 20000, { min: 10, max: 20 })).toEqual({ start: 0, end: 1 })
+    expect(getRangeBins(100, 20000, { min: 20000, max: 30000 })).toEqual({ start: 99, end: 100 })
+  })
+})
+
+describe('getRangeLevel', () => {
+  it('takes the RMS of the scaled bins', () => {
+    const spectrum = [255, 0, 255, 0]
+    expect(getRangeLevel(spectrum, 800, { min: 0, max: 400 }, 255)).toBeCloseTo(Math.SQRT1_2)
+    expect(getRangeLevel([], 800, { min: 0, max: 400 })).toBe(0)
+  })
+})
+
+describe('validateFrequencyRanges', () => {
+  it('rejects bad names and empty ranges', () => {
+    expect(() => validateFrequencyRanges({ '1st': { min: 0, max: 10 } })).toThrow('must be a valid GLSL identifier')
+    expect(() => validateFrequencyRanges({ low: { min: 10, max: 10 } })).toThrow('Frequency range \'low\' (10-10 Hz) is empty')
+  })
+})
+
+describe('levelTracker', () => {
+  const ranges = { low: { min: 0, max: 100 } }
+  const spectrum = (value: number): number[] => [value, value]
+
+  it('starts relative levels at 1 for a steady input', () => {
+    const tracker = new LevelTracker(ranges)
+    for (let i = 0; i < 10; i++) tracker.update(spectrum(0.5), 400, 1, 1 / 30)
+
+    expect(tracker.getLevel('low')).toEqual({ value: 0.5, relative: 1, att: 1 })
+  })
+
+  it('reports jumps relative to the long-term average', () => {
+    const tracker = new LevelTracker(ranges)
+    for (let i = 0; i < 100; i++) tracker.update(spectrum(0.2), 400, 1, 1 / 30)
+    tracker.update(spectrum(0.4), 400, 1, 1 / 30)
+
+    const level = tracker.getLevel('low') as { value: number, relative: number, att: number }
+    expect(level.value).toBeCloseTo(0.4)
+    expect(level.relative).toBeGreaterThan(1.9)
+    // att reacts more slowly than relative
+    expect(level.att).toBeGreaterThan(1)
+    expect(level.att).toBeLessThan(level.relative)
+  })
+
+  it('holds levels at 1 during silence', () => {
+    const tracker = new LevelTracker(ranges)
+    tracker.update(spectrum(0), 400, 1, 1 / 30)
+    expect(tracker.getLevel('low')).toEqual({ value: 0, relative: 1, att: 1 })
+  })
+
+  it('scales rates with the frame time', () => {
+    const fast = new LevelTracker(ranges)
+    const slow = new LevelTracker(ranges)
+    fast.update(spectrum(0.2), 400, 1, 1 / 30)
+    slow.update(spectrum(0.2), 400, 1, 1 / 30)
+
+    fast.update(spectrum(0.4), 400, 1, 1 / 60)
+    fast.update(spectrum(0.4), 400, 1, 1 / 60)
+    slow.update(spectrum(0.4), 400, 1, 1 / 30)
+
+    const fastAtt = fast.getLevel('low')?.att as number
+    const slowAtt = slow.getLevel('low')?.att as number
+    expect(fastAtt).toBeGreaterThan(1)
+    // Rates stretch with the frame time, so only the 50-frame warm-up switch differs
+    expect(fastAtt).toBeCloseTo(slowAtt, 1)
+  })
+})
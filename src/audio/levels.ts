@@ -0,0 +1,137 @@
+// A named frequency range in Hz
+export interface FrequencyRange {
+  min: number
+  max: number
+}
+
+// Milkdrop's three ranges
+export const DEFAULT_FREQUENCY_RANGES: Record<string, FrequencyRange> = {
+  bass: { min: 20, max: 250 },
+  mid: { min: 250, max: 4000 },
+  treb: { min: 4000, max: 20000 },
+}
+
+export interface AudioLevel {
+  // RMS of the range's spectrum, 0-1
+  value: number
+  // value relative to its long-term average; about 1 for typical loudness (Milkdrop's bass)
+  relative: number
+  // relative smoothed over a few frames (Milkdrop's bass_att)
+  att: number
+}
+
+const RANGE_NAME_PATTERN = /^[a-z]\w*$/i
+
+// Milkdrop tunes its rates for 30 fps
+const BASE_FPS = 30
+
+// Rates are per frame at BASE_FPS; stretch them to the actual frame time
+export function adjustRate(rate: number, deltaTime: number): number {
+  return rate ** (deltaTime * BASE_FPS)
+}
+
+export function validateFrequencyRanges(ranges: Record<string, FrequencyRange>): void {
+  for (const [name, range] of Object.entries(ranges)) {
+    if (!RANGE_NAME_PATTERN.test(name)) {
+      throw new Error(`Frequency range name '${name}' must be a valid GLSL identifier`)
+    }
+    if (!(range.min >= 0 && range.max > range.min)) {
+      throw new Error(`Frequency range '${name}' (${range.min}-${range.max} Hz) is empty`)
+    }
+  }
+}
+
+// Bins [start, end) of a spectrum that cover a range; never empty
+export function getRangeBins(binCount: number, sampleRate: number, range: FrequencyRange): { start: number, end: number } {
+  const binWidth = sampleRate / 2 / binCount
+  const start = Math.min(Math.max(Math.floor(range.min / binWidth), 0), binCount - 1)
+  const end = Math.min(Math.max(Math.ceil(range.max / binWidth), start + 1), binCount)
+  return { start, end }
+}
+
+// RMS of a spectrum between two frequencies; values are divided by `scale`
+export function getRangeLevel(spectrum: ArrayLike<number>, sampleRate: number, range: FrequencyRange, scale = 1): number {
+  if (spectrum.length === 0)
+    return 0
+
+  const { start, end } = getRangeBins(spectrum.length, sampleRate, range)
+
+  let sum = 0
+  for (let i = start; i < end; i++) {
+    const value = spectrum[i] / scale
+    sum += value * value
+  }
+
+  return Math.sqrt(sum / (end - start))
+}
+
+// Milkdrop-style levels: each range's instant value, the same relative to its
+// long-term average, and an attenuated (smoothed) relative value
+export class LevelTracker {
+  private ranges: Record<string, FrequencyRange>
+  private levels: Record<string, AudioLevel> = {}
+  private average: Record<string, number> = {}
+  private longAverage: Record<string, number> = {}
+  private frame = 0
+
+  constructor(ranges: Record<string, FrequencyRange> = DEFAULT_FREQUENCY_RANGES) {
+    validateFrequencyRanges(ranges)
+    this.ranges = ranges
+    this.reset()
+  }
+
+  public update(spectrum: ArrayLike<number>, sampleRate: number, scale: number, deltaTime: number): void {
+    // Long-term averages settle quickly over the first 50 frames, then slowly
+    const longRate = adjustRate(this.frame < 50 ? 0.9 : 0.992, deltaTime)
+
+    for (const [name, range] of Object.entries(this.ranges)) {
+      const value = getRangeLevel(spectrum, sampleRate, range, scale)
+
+      // Start the averages at the first value instead of ramping up from silence
+      if (this.frame === 0) {
+        this.average[name] = value
+        this.longAverage[name] = value
+      }
+
+      // Attack faster than release
+      const rate = adjustRate(value > this.average[name] ? 0.2 : 0.5, deltaTime)
+      this.average[name] = this.average[name] * rate + value * (1 - rate)
+      this.longAverage[name] = this.longAverage[name] * longRate + value * (1 - longRate)
+
+      const level = this.levels[name]
+      level.value = value
+      if (this.longAverage[name] < 0.001) {
+        level.relative = 1
+        level.att = 1
+      }
+      else {
+        level.relative = value / this.longAverage[name]
+        level.att = this.average[name] / this.longAverage[name]
+      }
+    }
+
+    this.frame++
+  }
+
+  public getLevels(): Record<string, AudioLevel> {
+    return this.levels
+  }
+
+  public getLevel(name: string): AudioLevel | undefined {
+    return this.levels[name]
+  }
+
+  public getRanges(): Record<string, FrequencyRange> {
+    return this.ranges
+  }
+
+  public reset(): void {
+    this.levels = {}
+    for (const name of Object.keys(this.ranges)) {
+      this.levels[name] = { value: 0, relative: 1, att: 1 }
+      this.average[name] = 0
+      this.longAverage[name] = 0
+    }
+    this.frame = 0
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest'
+import { decodeWav } from './wav'
+
+interface WavOptions {
+  format?: number
+  channelCount?: number
+  sampleRate?: number
+  bitsPerSample?: number
+  extraChunk?: boolean
+}
+
+// A minimal WAV file around already encoded sample bytes
+function createWav(samples: number[], write: (view: DataView, offset: number, value: number) => void, options: WavOptions = {}): ArrayBuffer {
+  const { format = 1, channelCount = 1, sampleRate = 8000, bitsPerSample = 16, extraChunk = false } = options
+  const bytesPerSample = bitsPerSample / 8
+  const dataSize = samples.length * bytesPerSample
+  // An odd-sized chunk to check padding is skipped
+  const extraSize = extraChunk ? 8 + 3 + 1 : 0
+  const buffer = new ArrayBuffer(12 + 24 + extraSize + 8 + dataSize)
+  const view = new DataView(buffer)
+  const writeTag = (offset: number, tag: string): void => {
+    for (let i = 0; i < 4; i++) view.setUint8(offset + i, tag.charCodeAt(i))
+  }
+
+  writeTag(0, 'RIFF')
+  view.setUint32(4, buffer.byteLength - 8, true)
+  writeTag(8, 'WAVE')
+  writeTag(12, 'fmt ')
+  view.setUint32(16, 16, true)
+  view.setUint16(20, format, true)
+  view.setUint16(22, channelCount, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * channelCount * bytesPerSample, true)
+  view.setUint16(32, channelCount * bytesPerSample, true)
+  view.setUint16(34, bitsPerSample, true)
+
+  let offset = 36
+  if (extraChunk) {
+    writeTag(offset, 'LIST')
+    view.setUint32(offset + 4, 3, true)
+    offset += extraSize
+  }
+
+  writeTag(offset, 'data')
+  view.setUint32(offset + 4, dataSize, true)
+  samples.forEach((value, i) => write(view, offset + 8 + i * bytesPerSample, value))
+  return buffer
+}
+
+describe('decodeWav', () => {
+  it('decodes 16-bit PCM and splits channels', () => {
+    const wav = createWav([0, -32768, 16384, 32767], (view, offset, value) => view.setInt16(offset, value, true), { channelCount: 2, sampleRate: 44100 })
+    const audio = decodeWav(wav)
+
+    expect(audio.sampleRate).toBe(44100)
+    expect(audio.channels).toHaveLength(2)
+    expect(Array.from(audio.channels[0])).toEqual([0, 0.5])
+    expect(Array.from(audio.channels[1])).toEqual([-1, 32767 / 32768])
+  })
+
+  it('decodes unsigned 8-bit and signed 24-bit PCM', () => {
+    const eight = createWav([0, 128, 192], (view, offset, value) => view.setUint8(offset, value), { bitsPerSample: 8 })
+    expect(Array.from(decodeWav(eight).channels[0])).toEqual([-1, 0, 0.5])
+
+    const twentyFour = createWav([-8388608, 4194304], (view, offset, value) => {
+      view.setUint8(offset, value & 0xFF)
+      view.setUint8(offset + 1, (value >> 8) & 0xFF)
+      view.setInt8(offset + 2, value >> 16)
+    }, { bitsPerSample: 24 })
+    expect(Array.from(decodeWav(twentyFour).channels[0])).toEqual([-1, 0.5])
+  })
+
+  it('decodes float samples from a typed array view', () => {
+    const wav = createWav([0.25, -0.75], (view, offset, value) => view.setFloat32(offset, value, true), { format: 3, bitsPerSample: 32 })
+    const bytes = new Uint8Array(wav.byteLength + 4)
+    bytes.set(new Uint8Array(wav), 4)
+
+    expect(Array.from(decodeWav(bytes.subarray(4)).channels[0])).toEqual([0.25, -0.75])
+  })
+
+  it('skips unknown chunks with their padding', () => {
+    const wav = createWav([16384], (view, offset, value) => view.setInt16(offset, value, true), { extraChunk: true })
+    expect(Array.from(decodeWav(wav).channels[0])).toEqual([0.5])
+  })
+
+  it('rejects files it cannot read', () => {
+    expect(() => decodeWav(new ArrayBuffer(8))).toThrow('Not a WAV file')
+    const adpcm = createWav([0], (view, offset, value) => view.setInt16(offset, value, true), { format: 2 })
+    expect(() => decodeWav(adpcm)).toThrow('Unsupported WAV encoding: format 2, 16 bits per sample')
+  })
+})
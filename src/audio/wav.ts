@@ -0,0 +1,114 @@
+// Raw samples, one array per channel
+export interface PCMAudio {
+  sampleRate: number
+  channels: Float32Array[]
+}
+
+const WAVE_FORMAT_PCM = 0x0001
+const WAVE_FORMAT_IEEE_FLOAT = 0x0003
+const WAVE_FORMAT_EXTENSIBLE = 0xFFFE
+
+function readTag(view: DataView, offset: number): string {
+  return String.fromCharCode(
+    view.getUint8(offset),
+    view.getUint8(offset + 1),
+    view.getUint8(offset + 2),
+    view.getUint8(offset + 3),
+  )
+}
+
+function createSampleReader(view: DataView, format: number, bitsPerSample: number): (offset: number) => number {
+  if (format === WAVE_FORMAT_IEEE_FLOAT) {
+    if (bitsPerSample === 32)
+      return offset => view.getFloat32(offset, true)
+    if (bitsPerSample === 64)
+      return offset => view.getFloat64(offset, true)
+  }
+  else if (format === WAVE_FORMAT_PCM) {
+    // 8-bit WAV is unsigned, wider formats are signed
+    if (bitsPerSample === 8)
+      return offset => (view.getUint8(offset) - 128) / 128
+    if (bitsPerSample === 16)
+      return offset => view.getInt16(offset, true) / 32768
+    if (bitsPerSample === 24) {
+      return (offset) => {
+        const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16)
+        return value / 8388608
+      }
+    }
+    if (bitsPerSample === 32)
+      return offset => view.getInt32(offset, true) / 2147483648
+  }
+
+  throw new Error(`Unsupported WAV encoding: format ${format}, ${bitsPerSample} bits per sample`)
+}
+
+// Decode a RIFF/WAVE file holding 8/16/24/32-bit integer or 32/64-bit float PCM
+export function decodeWav(data: ArrayBuffer | ArrayBufferView): PCMAudio {
+  const view = data instanceof ArrayBuffer
+    ? new DataView(data)
+    : new DataView(data.buffer, data.byteOffset, data.byteLength)
+
+  if (view.byteLength < 12 || readTag(view, 0) !== 'RIFF' || readTag(view, 8) !== 'WAVE') {
+    throw new Error('Not a WAV file')
+  }
+
+  let format = 0
+  let channelCount = 0
+  let sampleRate = 0
+  let bitsPerSample = 0
+  let blockAlign = 0
+  let dataOffset = -1
+  let dataSize = 0
+
+  let offset = 12
+  while (offset + 8 <= view.byteLength) {
+    const tag = readTag(view, offset)
+    const size = view.getUint32(offset + 4, true)
+    const body = offset + 8
+
+    if (tag === 'fmt ') {
+      format = view.getUint16(body, true)
+      channelCount = view.getUint16(body + 2, true)
+      sampleRate = view.getUint32(body + 4, true)
+      blockAlign = view.getUint16(body + 12, true)
+      bitsPerSample = view.getUint16(body + 14, true)
+
+      // The real format is the first two bytes of the subformat GUID
+      if (format === WAVE_FORMAT_EXTENSIBLE && size >= 26) {
+        format = view.getUint16(body + 24, true)
+      }
+    }
+    else if (tag === 'data') {
+      dataOffset = body
+      // Streamed files may leave the size unset or too large
+      dataSize = Math.min(size, view.byteLength - body)
+      break
+    }
+
+    // Chunks are padded to an even length
+    offset = body + size + (size & 1)
+  }
+
+  if (channelCount === 0 || sampleRate === 0) {
+    throw new Error('WAV file has no format chunk')
+  }
+  if (dataOffset < 0) {
+    throw new Error('WAV file has no data chunk')
+  }
+
+  const readSample = createSampleReader(view, format, bitsPerSample)
+  const bytesPerSample = bitsPerSample / 8
+  const frameSize = blockAlign > 0 ? blockAlign : bytesPerSample * channelCount
+  const length = Math.floor(dataSize / frameSize)
+
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(length))
+  for (let i = 0; i < length; i++) {
+    const frame = dataOffset + i * frameSize
+    for (let c = 0; c < channelCount; c++) {
+      channels[c][i] = readSample(frame + c * bytesPerSample)
+    }
+  }
+
+  return { sampleRate, channels }
+}
@@ -0,0 +1,50 @@
+// Time source for everything that animates; offline rendering swaps in a virtual clock
+export interface Clock {
+  // Milliseconds, from an arbitrary origin
+  now: () => number
+  // Wall-clock date, for Shadertoy's iDate
+  date: () => Date
+}
+
+export const realtimeClock: Clock = {
+  now: () => performance.now(),
+  date: () => new Date(),
+}
+
+export class VirtualClock implements Clock {
+  private time = 0
+  private startDate: Date
+
+  // Dates are fixed relative to startDate so renders do not depend on when they run
+  constructor(startDate: Date = new Date(2000, 0, 1)) {
+    this.startDate = startDate
+  }
+
+  public now(): number {
+    return this.time
+  }
+
+  public date(): Date {
+    return new Date(this.startDate.getTime() + this.time)
+  }
+
+  public setTime(milliseconds: number): void {
+    this.time = milliseconds
+  }
+
+  public advance(milliseconds: number): void {
+    this.time += milliseconds
+  }
+}
+
+// Deterministic replacement for Math.random (mulberry32)
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
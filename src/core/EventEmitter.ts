@@ -0,0 +1,58 @@
+import { logger } from './logger'
+
+export type EventHandler<T> = (payload: T) => void
+
+// Minimal typed emitter; `Events` maps each event name to its payload type
+export class EventEmitter<Events extends object> {
+  private handlers = new Map<keyof Events, Set<EventHandler<never>>>()
+
+  // Returns a function that removes the handler
+  public on<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    let handlers = this.handlers.get(event)
+    if (!handlers) {
+      handlers = new Set()
+      this.handlers.set(event, handlers)
+    }
+    handlers.add(handler)
+    return () => this.off(event, handler)
+  }
+
+  public once<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): () => void {
+    const off = this.on(event, (payload) => {
+      off()
+      handler(payload)
+    })
+    return off
+  }
+
+  public off<K extends keyof Events>(event: K, handler: EventHandler<Events[K]>): void {
+    this.handlers.get(event)?.delete(handler)
+  }
+
+  public hasListeners<K extends keyof Events>(event: K): boolean {
+    return (this.handlers.get(event)?.size ?? 0) > 0
+  }
+
+  public emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const handlers = this.handlers.get(event)
+    if (!handlers)
+      return
+
+    // A throwing handler must not stop the others, or the frame that emitted
+    for (const handler of [...handlers] as EventHandler<Events[K]>[]) {
+      try {
+        handler(payload)
+      }
+      catch (error) {
+        logger.error(`Error in '${String(event)}' handler:`, error)
+      }
+    }
+  }
+
+  public removeAllListeners(event?: keyof Events): void {
+    if (event === undefined)
+      this.handlers.clear()
+    else
+      this.handlers.delete(event)
+  }
+}
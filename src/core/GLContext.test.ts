@@ -0,0 +1,77 @@
+import { describe, expect, it, vi } from 'vitest'
+import { GLContext } from './GLContext'
+
+// A canvas whose WEBGL_lose_context dispatches the context events, as browsers do
+function createCanvas(): { canvas: HTMLCanvasElement, gl: Record<string, unknown>, getExtension: ReturnType<typeof vi.fn> } {
+  const target = new EventTarget()
+  const loseContext = {
+    loseContext: () => target.dispatchEvent(new Event('webglcontextlost', { cancelable: true })),
+    restoreContext: () => target.dispatchEvent(new Event('webglcontextrestored')),
+  }
+  const getExtension = vi.fn((name: string) => name === 'WEBGL_lose_context' ? loseContext : null)
+  const gl = {
+    MAX_TEXTURE_SIZE: 0x0D33,
+    getExtension,
+    getParameter: () => 4096,
+    viewport: vi.fn(),
+    enable: vi.fn(),
+    disable: vi.fn(),
+    blendFunc: vi.fn(),
+    clearColor: vi.fn(),
+  }
+  const canvas = Object.assign(target, { width: 300, height: 150, getContext: () => gl }) as unknown as HTMLCanvasElement
+  return { canvas, gl, getExtension }
+}
+
+describe('gLContext', () => {
+  it('cancels a context loss so the browser can restore it', () => {
+    const { canvas } = createCanvas()
+    const context = new GLContext(canvas)
+    const lost = vi.fn()
+    context.on('lost', lost)
+
+    const event = new Event('webglcontextlost', { cancelable: true })
+    canvas.dispatchEvent(event)
+
+    expect(event.defaultPrevented).toBe(true)
+    expect(context.isLost()).toBe(true)
+    expect(lost).toHaveBeenCalledWith({ event })
+  })
+
+  it('sets up extensions and state again on restore', () => {
+    const { canvas, gl, getExtension } = createCanvas()
+    const context = new GLContext(canvas)
+    const restored = vi.fn()
+    context.on('restored', restored)
+    getExtension.mockClear()
+    vi.mocked(gl.viewport as () => void).mockClear()
+
+    context.loseContext()
+    context.restoreContext()
+
+    expect(context.isLost()).toBe(false)
+    expect(restored).toHaveBeenCalledOnce()
+    expect(getExtension).toHaveBeenCalledWith('EXT_color_buffer_float')
+    expect(gl.viewport).toHaveBeenCalledWith(0, 0, 300, 150)
+    expect(context.hasExtension('WEBGL_lose_context')).toBe(true)
+    expect(context.hasExtension('EXT_color_buffer_float')).toBe(false)
+  })
+
+  it('stops listening once destroyed', () => {
+    const { canvas } = createCanvas()
+    const context = new GLContext(canvas)
+    const lost = vi.fn()
+    context.on('lost', lost)
+    context.destroy()
+
+    canvas.dispatchEvent(new Event('webglcontextlost', { cancelable: true }))
+    expect(lost).not.toHaveBeenCalled()
+    expect(context.isLost()).toBe(false)
+  })
+
+  it('fails clearly without WEBGL_lose_context', () => {
+    const { canvas, getExtension } = createCanvas()
+    getExtension.mockReturnValue(null)
+    expect(() => new GLContext(canvas).loseContext()).toThrow('WEBGL_lose_context is not supported')
+  })
+})
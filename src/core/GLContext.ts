@@ -1,9 +1,22 @@
+import { EventEmitter } from './EventEmitter'
+import { logger } from './logger'
+
+export interface GLContextEvents {
+  lost: { event: Event }
+  // Extensions and initial state are set up again; every GPU resource must be recreated
+  restored: Record<string, never>
+}
+
 export class GLContext {
   public readonly gl: WebGL2RenderingContext
   private canvas: HTMLCanvasElement
   private extensions: Map<string, unknown> = new Map()
+  private events = new EventEmitter<GLContextEvents>()
+  private lost = false
+  // Queried up front, since a lost context answers every query with null
+  private maxTextureSize = 0
 
-  constructor(canvas: HTMLCanvasElement) {
+  constructor(canvas: HTMLCanvasElement, attributes: WebGLContextAttributes = {}) {
     this.canvas = canvas
 
     const gl = canvas.getContext('webgl2', {
@@ -12,6 +25,7 @@ export class GLContext {
       depth: false,
       stencil: false,
       powerPreference: 'high-performance',
+      ...attributes,
     })
 
     if (!gl) {
@@ -21,6 +35,51 @@ export class GLContext {
     this.gl = gl
     this.initializeExtensions()
     this.setupInitialState()
+
+    canvas.addEventListener('webglcontextlost', this.handleContextLost)
+    canvas.addEventListener('webglcontextrestored', this.handleContextRestored)
+  }
+
+  private handleContextLost = (event: Event): void => {
+    // Without this the browser never restores the context
+    event.preventDefault()
+    this.lost = true
+    logger.warn('WebGL context lost')
+    this.events.emit('lost', { event })
+  }
+
+  private handleContextRestored = (): void => {
+    this.lost = false
+    this.extensions.clear()
+    this.initializeExtensions()
+    this.setupInitialState()
+    logger.info('WebGL context restored')
+    this.events.emit('restored', {})
+  }
+
+  public on<K extends keyof GLContextEvents>(event: K, handler: (payload: GLContextEvents[K]) => void): () => void {
+    return this.events.on(event, handler)
+  }
+
+  public isLost(): boolean {
+    return this.lost
+  }
+
+  // Simulate a context loss and restore through WEBGL_lose_context, for testing
+  public loseContext(): void {
+    this.getLoseContextExtension().loseContext()
+  }
+
+  public restoreContext(): void {
+    this.getLoseContextExtension().restoreContext()
+  }
+
+  private getLoseContextExtension(): WEBGL_lose_context {
+    const extension = this.extensions.get('WEBGL_lose_context') as WEBGL_lose_context | undefined
+    if (!extension) {
+      throw new Error('WEBGL_lose_context is not supported')
+    }
+    return extension
   }
 
   private initializeExtensions(): void {
@@ -28,6 +87,7 @@ export class GLContext {
       'EXT_color_buffer_float',
       'OES_texture_float_linear',
       'EXT_texture_filter_anisotropic',
+      'WEBGL_lose_context',
     ]
 
     extensionNames.forEach((name) => {
@@ -41,6 +101,8 @@ export class GLContext {
   private setupInitialState(): void {
     const gl = this.gl
 
+    this.maxTextureSize = gl.getParameter(gl.MAX_TEXTURE_SIZE) as number
+
     // Set viewport
     gl.viewport(0, 0, this.canvas.width, this.canvas.height)
 
@@ -78,12 +140,15 @@ export class GLContext {
   }
 
   public getMaxTextureSize(): number {
-    return this.gl.getParameter(this.gl.MAX_TEXTURE_SIZE) as number
+    return this.maxTextureSize
   }
 
   public destroy(): void {
     // WebGL context cleanup is handled by the browser
     // Just clear our references
+    this.canvas.removeEventListener('webglcontextlost', this.handleContextLost)
+    this.canvas.removeEventListener('webglcontextrestored', this.handleContextRestored)
+    this.events.removeAllListeners()
     this.extensions.clear()
   }
 }
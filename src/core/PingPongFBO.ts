@@ -1,6 +1,8 @@
 export interface FBOOptions {
   width: number
   height: number
+  // Sized internal format such as gl.RGBA16F; defaults to format
+  internalFormat?: number
   format?: number
   type?: number
   filter?: number
@@ -13,6 +15,9 @@ export class PingPongFBO {
   private textures: WebGLTexture[] = []
   private width: number
   private height: number
+  private internalFormat: number
+  private format: number
+  private type: number
   private currentIndex = 0
 
   constructor(gl: WebGL2RenderingContext, options: FBOOptions) {
@@ -20,8 +25,9 @@ export class PingPongFBO {
     this.width = options.width
     this.height = options.height
 
-    const format = options.format ?? gl.RGBA
-    const type = options.type ?? gl.UNSIGNED_BYTE
+    this.format = options.format ?? gl.RGBA
+    this.internalFormat = options.internalFormat ?? this.format
+    this.type = options.type ?? gl.UNSIGNED_BYTE
     const filter = options.filter ?? gl.LINEAR
     const wrap = options.wrap ?? gl.CLAMP_TO_EDGE
 
@@ -36,7 +42,7 @@ export class PingPongFBO {
 
       // Setup texture
       gl.bindTexture(gl.TEXTURE_2D, texture)
-      gl.texImage2D(gl.TEXTURE_2D, 0, format, this.width, this.height, 0, format, type, null)
+      gl.texImage2D(gl.TEXTURE_2D, 0, this.internalFormat, this.width, this.height, 0, this.format, this.type, null)
       gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter)
       gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter)
       gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, wrap)
@@ -106,7 +112,7 @@ export class PingPongFBO {
 
     for (let i = 0; i < this.textures.length; i++) {
       gl.bindTexture(gl.TEXTURE_2D, this.textures[i])
-      gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, width, height, 0, gl.RGBA, gl.UNSIGNED_BYTE, null)
+      gl.texImage2D(gl.TEXTURE_2D, 0, this.internalFormat, width, height, 0, this.format, this.type, null)
     }
 
     gl.bindTexture(gl.TEXTURE_2D, null)
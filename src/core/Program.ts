@@ -1,12 +1,60 @@
+import { logger } from './logger'
+import { parseShaderLog, ShaderCompileError } from './ShaderCompileError'
+
+export type UniformType
+  = | 'float'
+    | 'int'
+    | 'bool'
+    | 'vec2'
+    | 'vec3'
+    | 'vec4'
+    | 'ivec2'
+    | 'ivec3'
+    | 'ivec4'
+    | 'mat2'
+    | 'mat3'
+    | 'mat4'
+    | 'sampler2D'
+
+// Arrays hold every element back to back (matrices column-major) and also set
+// array uniforms such as `uniform vec3 u_points[8]` from their first element
 export interface UniformValue {
-  type: 'float' | 'int' | 'vec2' | 'vec3' | 'vec4' | 'mat3' | 'mat4' | 'sampler2D'
-  value: number | number[] | WebGLTexture
+  type: UniformType
+  value: number | number[] | Float32Array | Int32Array
+}
+
+export type UniformSetter = (value: number | number[] | Float32Array | Int32Array) => void
+
+// An active uniform as the linker reports it
+export interface UniformInfo {
+  // GLSL type name, e.g. 'vec3' or 'sampler2D'
+  type: string
+  // Element count; arrays can report fewer elements than declared when the tail is unused
+  size: number
+  isArray: boolean
+}
+
+const COMPONENT_COUNTS: Record<UniformType, number> = {
+  float: 1,
+  int: 1,
+  bool: 1,
+  vec2: 2,
+  vec3: 3,
+  vec4: 4,
+  ivec2: 2,
+  ivec3: 3,
+  ivec4: 4,
+  mat2: 4,
+  mat3: 9,
+  mat4: 16,
+  sampler2D: 1,
 }
 
 export class Program {
   private gl: WebGL2RenderingContext
   private program: WebGLProgram
   private uniforms: Map<string, WebGLUniformLocation> = new Map()
+  private uniformInfo: Map<string, UniformInfo> = new Map()
   private attributes: Map<string, number> = new Map()
 
   constructor(gl: WebGL2RenderingContext, vertexSource: string, fragmentSource: string) {
@@ -30,9 +78,9 @@ export class Program {
       gl.linkProgram(program)
 
       if (gl.getProgramParameter(program, gl.LINK_STATUS) === false) {
-        const info = gl.getProgramInfoLog(program)
+        const info = gl.getProgramInfoLog(program) ?? ''
         gl.deleteProgram(program)
-        throw new Error(`Shader program linking failed: ${info}`)
+        throw new ShaderCompileError('link', parseShaderLog(info, 'link'), info)
       }
 
       // Clean up shaders
@@ -42,6 +90,9 @@ export class Program {
       return program
     }
     catch (error) {
+      if (error instanceof ShaderCompileError)
+        throw error
+
       const errorMessage = error instanceof Error ? error.message : String(error)
       throw new Error(`Failed to create shader program: ${errorMessage}`)
     }
@@ -59,9 +110,10 @@ export class Program {
     gl.compileShader(shader)
 
     if (gl.getShaderParameter(shader, gl.COMPILE_STATUS) === false) {
-      const info = gl.getShaderInfoLog(shader)
+      const info = gl.getShaderInfoLog(shader) ?? ''
+      const stage = type === gl.VERTEX_SHADER ? 'vertex' : 'fragment'
       gl.deleteShader(shader)
-      throw new Error(`Shader compilation failed: ${info}`)
+      throw new ShaderCompileError(stage, parseShaderLog(info, stage, source), info)
     }
 
     return shader
@@ -76,12 +128,47 @@ export class Program {
       if (uniformInfo) {
         const location = gl.getUniformLocation(this.program, uniformInfo.name)
         if (location) {
+          const isArray = uniformInfo.name.endsWith('[0]')
+          const info = { type: this.getTypeName(uniformInfo.type), size: uniformInfo.size, isArray }
           this.uniforms.set(uniformInfo.name, location)
+          this.uniformInfo.set(uniformInfo.name, info)
+
+          // Arrays are also reachable without the [0]
+          if (isArray) {
+            this.uniforms.set(uniformInfo.name.slice(0, -3), location)
+            this.uniformInfo.set(uniformInfo.name.slice(0, -3), info)
+          }
         }
       }
     }
   }
 
+  private getTypeName(type: number): string {
+    const gl = this.gl
+    const names: Record<number, string> = {
+      [gl.FLOAT]: 'float',
+      [gl.FLOAT_VEC2]: 'vec2',
+      [gl.FLOAT_VEC3]: 'vec3',
+      [gl.FLOAT_VEC4]: 'vec4',
+      [gl.INT]: 'int',
+      [gl.INT_VEC2]: 'ivec2',
+      [gl.INT_VEC3]: 'ivec3',
+      [gl.INT_VEC4]: 'ivec4',
+      [gl.UNSIGNED_INT]: 'uint',
+      [gl.BOOL]: 'bool',
+      [gl.BOOL_VEC2]: 'bvec2',
+      [gl.BOOL_VEC3]: 'bvec3',
+      [gl.BOOL_VEC4]: 'bvec4',
+      [gl.FLOAT_MAT2]: 'mat2',
+      [gl.FLOAT_MAT3]: 'mat3',
+      [gl.FLOAT_MAT4]: 'mat4',
+      [gl.SAMPLER_2D]: 'sampler2D',
+      [gl.SAMPLER_3D]: 'sampler3D',
+      [gl.SAMPLER_CUBE]: 'samplerCube',
+    }
+    return names[type] ?? `0x${type.toString(16)}`
+  }
+
   private discoverAttributes(): void {
     const gl = this.gl
     const attributeCount = gl.getProgramParameter(this.program, gl.ACTIVE_ATTRIBUTES) as number
@@ -106,52 +193,76 @@ export class Program {
       return
     }
 
+    this.applyUniform(name, location, uniform.type, uniform.value)
+  }
+
+  // A setter with the location and upload call resolved once, for uniforms set
+  // every frame; null if the program has no such uniform
+  public createUniformSetter(name: string, type: UniformType): UniformSetter | null {
+    const location = this.uniforms.get(name)
+    if (!location)
+      return null
+
+    return value => this.applyUniform(name, location, type, value)
+  }
+
+  private applyUniform(name: string, location: WebGLUniformLocation, type: UniformType, value: UniformValue['value']): void {
     const gl = this.gl
 
-    switch (uniform.type) {
+    if (typeof value === 'number') {
+      if (type === 'float')
+        gl.uniform1f(location, value)
+      else if (type === 'int' || type === 'bool' || type === 'sampler2D')
+        gl.uniform1i(location, value)
+      else
+        logger.warn(`Uniform '${name}' value for '${type}' must be an array of ${COMPONENT_COUNTS[type]} numbers`)
+      return
+    }
+
+    // Whole elements only; extra elements past the shader's array are dropped
+    const components = COMPONENT_COUNTS[type]
+    const info = this.uniformInfo.get(name)
+    if (value.length === 0 || value.length % components !== 0) {
+      logger.warn(`Uniform '${name}' value for '${type}' must be an array of ${components} numbers`)
+      return
+    }
+    const length = Math.min(value.length, components * (info?.size ?? 1))
+
+    switch (type) {
       case 'float':
-        gl.uniform1f(location, uniform.value as number)
+        gl.uniform1fv(location, value, 0, length)
         break
       case 'int':
-        gl.uniform1i(location, uniform.value as number)
+      case 'bool':
+      case 'sampler2D':
+        gl.uniform1iv(location, value, 0, length)
         break
-      case 'vec2': {
-        if (Array.isArray(uniform.value) && uniform.value.length === 2) {
-          const vec2 = uniform.value as number[]
-          gl.uniform2f(location, vec2[0], vec2[1])
-        }
-        else {
-          console.warn(`Uniform '${name}' value for 'vec2' must be an array of 2 numbers`)
-        }
+      case 'vec2':
+        gl.uniform2fv(location, value, 0, length)
         break
-      }
       case 'vec3':
-        if (Array.isArray(uniform.value) && uniform.value.length === 3) {
-          const vec3 = uniform.value as number[]
-          gl.uniform3f(location, vec3[0], vec3[1], vec3[2])
-        }
-        else {
-          console.warn(`Uniform '${name}' value for 'vec3' must be an array of 3 numbers`)
-        }
+        gl.uniform3fv(location, value, 0, length)
         break
       case 'vec4':
-        if (Array.isArray(uniform.value) && uniform.value.length === 4) {
-          const vec4 = uniform.value as number[]
-          gl.uniform4f(location, vec4[0], vec4[1], vec4[2], vec4[3])
-        }
-        else {
-          console.warn(`Uniform '${name}' value for 'vec4' must be an array of 4 numbers`)
-        }
+        gl.uniform4fv(location, value, 0, length)
+        break
+      case 'ivec2':
+        gl.uniform2iv(location, value, 0, length)
+        break
+      case 'ivec3':
+        gl.uniform3iv(location, value, 0, length)
+        break
+      case 'ivec4':
+        gl.uniform4iv(location, value, 0, length)
+        break
+      case 'mat2':
+        gl.uniformMatrix2fv(location, false, value, 0, length)
         break
       case 'mat3':
-        gl.uniformMatrix3fv(location, false, uniform.value as Float32Array)
+        gl.uniformMatrix3fv(location, false, value, 0, length)
         break
       case 'mat4':
-        gl.uniformMatrix4fv(location, false, uniform.value as Float32Array)
-        break
-      case 'sampler2D':
-        // Texture unit binding is handled externally
-        gl.uniform1i(location, uniform.value as number)
+        gl.uniformMatrix4fv(location, false, value, 0, length)
         break
     }
   }
@@ -168,9 +279,14 @@ export class Program {
     return this.uniforms.has(name)
   }
 
+  public getUniformInfo(name: string): UniformInfo | null {
+    return this.uniformInfo.get(name) ?? null
+  }
+
   public destroy(): void {
     this.gl.deleteProgram(this.program)
     this.uniforms.clear()
+    this.uniformInfo.clear()
     this.attributes.clear()
   }
 }
@@ -0,0 +1,77 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { RenderLoop } from './RenderLoop'
+
+// Runs the loop's animation frames by hand, at the given timestamps
+function stubAnimationFrames(): (timestamp: number) => void {
+  let pending: FrameRequestCallback | null = null
+  vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => {
+    pending = callback
+    return 1
+  })
+  vi.stubGlobal('cancelAnimationFrame', () => {
+    pending = null
+  })
+  return (timestamp) => {
+    const callback = pending
+    pending = null
+    callback?.(timestamp)
+  }
+}
+
+// Animation frames every interval milliseconds from start, returning the time after the last
+function runFrames(frame: (timestamp: number) => void, start: number, interval: number, count: number): number {
+  for (let i = 0; i < count; i++)
+    frame(start + i * interval)
+  return start + count * interval
+}
+
+describe('renderLoop', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('measures the display\'s refresh interval', () => {
+    const frame = stubAnimationFrames()
+    const loop = new RenderLoop(() => {})
+    loop.start()
+
+    expect(loop.getRefreshInterval()).toBeNull()
+    runFrames(frame, 0, 20, 10)
+    expect(loop.getRefreshInterval()).toBe(20)
+  })
+
+  it('counts frames skipped under a cap', () => {
+    const frame = stubAnimationFrames()
+    const loop = new RenderLoop(() => {}, { targetFPS: 10 })
+    loop.start()
+
+    runFrames(frame, 0, 1000 / 30, 10)
+    expect(loop.getRefreshInterval()).toBeCloseTo(1000 / 30)
+    expect(loop.getFrameInterval()).toBe(100)
+  })
+
+  it('barely moves for slow frames and drifts up to a slower display', () => {
+    const frame = stubAnimationFrames()
+    const loop = new RenderLoop(() => {})
+    loop.start()
+
+    let time = runFrames(frame, 0, 1000 / 60, 60)
+    time = runFrames(frame, time, 1000 / 30, 30)
+    expect(loop.getRefreshInterval()).toBeLessThan(1000 / 60 * 1.02)
+
+    runFrames(frame, time, 20, 50 * 30)
+    expect(loop.getRefreshInterval()).toBe(20)
+  })
+
+  it('ignores the gap across a pause', () => {
+    const frame = stubAnimationFrames()
+    const loop = new RenderLoop(() => {})
+    loop.start()
+
+    runFrames(frame, 0, 1000 / 60, 2)
+    loop.pause()
+    loop.resume()
+    frame(5000)
+    expect(loop.getRefreshInterval()).toBeCloseTo(1000 / 60)
+  })
+})
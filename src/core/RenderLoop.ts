@@ -1,4 +1,20 @@
-export type RenderCallback = () => void
+import { logger } from './logger'
+
+// deltaTime is in seconds since the previous rendered frame, 0 on the first
+export type RenderCallback = (deltaTime: number) => void
+
+export interface RenderLoopOptions {
+  // Cap on rendered frames per second; by default every animation frame is rendered
+  targetFPS?: number
+}
+
+// Frames may come this many milliseconds early, so a cap at the display's own
+// rate doesn't drop frames to timer jitter
+const FRAME_TOLERANCE = 1
+
+// Fraction per second the refresh interval estimate may rise by, so a move to a
+// slower display is picked up while slow frames barely move it
+const REFRESH_INTERVAL_DRIFT = 0.01
 
 export class RenderLoop {
   private callback: RenderCallback
@@ -7,9 +23,21 @@ export class RenderLoop {
   private lastTime = 0
   private frameCount = 0
   private fpsCallback?: (fps: number) => void
+  private errorCallback?: (error: unknown) => void
+  private targetFPS: number | null
+  private throttleFPS: number | null = null
+  // Time the frame schedule is measured from, and time of the last rendered frame
+  private frameClock: number | null = null
+  private lastFrameTime: number | null = null
+  // Timestamp of the last animation frame, rendered or skipped, and the display's
+  // refresh interval measured from them
+  private lastAnimationFrame: number | null = null
+  private refreshInterval: number | null = null
+  private pauseReasons = new Set<string>()
 
-  constructor(callback: RenderCallback) {
+  constructor(callback: RenderCallback, options: RenderLoopOptions = {}) {
     this.callback = callback
+    this.targetFPS = options.targetFPS ?? null
   }
 
   public start(): void {
@@ -18,36 +46,127 @@ export class RenderLoop {
     }
 
     this.isRunning = true
-    this.lastTime = performance.now()
-    this.frameCount = 0
-    this.tick()
+    this.schedule()
   }
 
   public stop(): void {
     this.isRunning = false
+    this.cancel()
+  }
+
+  // Stop rendering until every reason given here has been resumed; the loop
+  // stays started, so start() and stop() still work as usual while paused
+  public pause(reason = 'manual'): void {
+    this.pauseReasons.add(reason)
+    this.cancel()
+  }
+
+  public resume(reason = 'manual'): void {
+    this.pauseReasons.delete(reason)
+    if (this.isRunning && this.animationId === null)
+      this.schedule()
+  }
+
+  public isPaused(): boolean {
+    return this.pauseReasons.size > 0
+  }
+
+  public setTargetFPS(fps: number | null): void {
+    this.targetFPS = fps
+  }
+
+  // A temporary, lower cap, e.g. while nothing is happening; null lifts it
+  public setThrottle(fps: number | null): void {
+    this.throttleFPS = fps
+  }
+
+  public setFPSCallback(callback: (fps: number) => void): void {
+    this.fpsCallback = callback
+  }
+
+  // Replaces logging of errors thrown by the render callback
+  public setErrorCallback(callback: (error: unknown) => void): void {
+    this.errorCallback = callback
+  }
 
+  private schedule(): void {
+    if (this.isPaused())
+      return
+
+    if (this.animationId === null) {
+      // Resuming after a pause or stop: restart timing so the gap isn't one long frame
+      this.frameClock = null
+      this.lastFrameTime = null
+      this.lastAnimationFrame = null
+      this.lastTime = performance.now()
+      this.frameCount = 0
+    }
+    this.animationId = requestAnimationFrame(this.tick)
+  }
+
+  private cancel(): void {
     if (this.animationId !== null) {
       cancelAnimationFrame(this.animationId)
       this.animationId = null
     }
   }
 
-  public setFPSCallback(callback: (fps: number) => void): void {
-    this.fpsCallback = callback
+  // Milliseconds between frames under the current caps, 0 when uncapped
+  public getFrameInterval(): number {
+    const caps = [this.targetFPS, this.throttleFPS].filter((fps): fps is number => fps !== null && fps > 0)
+    return caps.length > 0 ? 1000 / Math.min(...caps) : 0
+  }
+
+  // Milliseconds between the display's animation frames, null until two have run
+  public getRefreshInterval(): number | null {
+    return this.refreshInterval
   }
 
-  private tick = (): void => {
-    if (!this.isRunning) {
+  // The refresh interval is the shortest gap between animation frames; frames
+  // that run long only raise the estimate by the drift
+  private measureRefresh(timestamp: number): void {
+    const interval = this.lastAnimationFrame === null ? 0 : timestamp - this.lastAnimationFrame
+    this.lastAnimationFrame = timestamp
+    if (interval <= 0)
+      return
+
+    this.refreshInterval = this.refreshInterval === null
+      ? interval
+      : Math.min(interval, this.refreshInterval * (1 + REFRESH_INTERVAL_DRIFT * interval / 1000))
+  }
+
+  // timestamp is the animation frame's start time, which follows the display's refresh
+  private tick = (timestamp: number): void => {
+    if (!this.isRunning || this.isPaused()) {
+      this.animationId = null
       return
     }
 
     const currentTime = performance.now()
-    const deltaTime = currentTime - this.lastTime
+    this.measureRefresh(timestamp)
+
+    // Skip animation frames that come before the next frame is due
+    const interval = this.getFrameInterval()
+    if (this.frameClock !== null && interval > 0) {
+      const elapsed = currentTime - this.frameClock
+      if (elapsed < interval - FRAME_TOLERANCE) {
+        this.animationId = requestAnimationFrame(this.tick)
+        return
+      }
+      // Keep to the schedule rather than the display's refresh, unless far behind
+      this.frameClock = elapsed < interval * 2 ? this.frameClock + interval : currentTime
+    }
+    else {
+      this.frameClock = currentTime
+    }
+
+    const deltaTime = this.lastFrameTime === null ? 0 : (currentTime - this.lastFrameTime) / 1000
+    this.lastFrameTime = currentTime
 
     // Calculate FPS every second
     this.frameCount++
-    if (deltaTime >= 1000) {
-      const fps = this.frameCount / (deltaTime / 1000)
+    if (currentTime - this.lastTime >= 1000) {
+      const fps = this.frameCount / ((currentTime - this.lastTime) / 1000)
       this.frameCount = 0
       this.lastTime = currentTime
 
@@ -58,10 +177,13 @@ export class RenderLoop {
 
     // Execute the render callback
     try {
-      this.callback()
+      this.callback(deltaTime)
     }
     catch (error) {
-      console.error('Render callback error:', error)
+      if (this.errorCallback)
+        this.errorCallback(error)
+      else
+        logger.error('Render callback error:', error)
     }
 
     // Schedule next frame
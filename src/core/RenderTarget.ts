@@ -0,0 +1,95 @@
+import type { FBOOptions } from './PingPongFBO'
+
+// A single framebuffer-backed texture, for passes that never read their own output
+export class RenderTarget {
+  private gl: WebGL2RenderingContext
+  private fbo: WebGLFramebuffer
+  private texture: WebGLTexture
+  private width: number
+  private height: number
+  private internalFormat: number
+  private format: number
+  private type: number
+
+  constructor(gl: WebGL2RenderingContext, options: FBOOptions) {
+    this.gl = gl
+    this.width = options.width
+    this.height = options.height
+    this.format = options.format ?? gl.RGBA
+    this.internalFormat = options.internalFormat ?? this.format
+    this.type = options.type ?? gl.UNSIGNED_BYTE
+
+    const filter = options.filter ?? gl.LINEAR
+    const wrap = options.wrap ?? gl.CLAMP_TO_EDGE
+
+    const fbo = gl.createFramebuffer()
+    const texture = gl.createTexture()
+
+    if (fbo === null || texture === null) {
+      throw new Error('Failed to create framebuffer or texture')
+    }
+
+    gl.bindTexture(gl.TEXTURE_2D, texture)
+    gl.texImage2D(gl.TEXTURE_2D, 0, this.internalFormat, this.width, this.height, 0, this.format, this.type, null)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, filter)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, filter)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, wrap)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, wrap)
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, fbo)
+    gl.framebufferTexture2D(gl.FRAMEBUFFER, gl.COLOR_ATTACHMENT0, gl.TEXTURE_2D, texture, 0)
+
+    if (gl.checkFramebufferStatus(gl.FRAMEBUFFER) !== gl.FRAMEBUFFER_COMPLETE) {
+      gl.deleteFramebuffer(fbo)
+      gl.deleteTexture(texture)
+      throw new Error('Framebuffer is not complete')
+    }
+
+    this.fbo = fbo
+    this.texture = texture
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null)
+    gl.bindTexture(gl.TEXTURE_2D, null)
+  }
+
+  public bind(): void {
+    const gl = this.gl
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.fbo)
+    gl.viewport(0, 0, this.width, this.height)
+  }
+
+  public unbind(): void {
+    this.gl.bindFramebuffer(this.gl.FRAMEBUFFER, null)
+  }
+
+  public getTexture(): WebGLTexture {
+    return this.texture
+  }
+
+  public resize(width: number, height: number): void {
+    if (width === this.width && height === this.height) {
+      return
+    }
+
+    this.width = width
+    this.height = height
+
+    const gl = this.gl
+    gl.bindTexture(gl.TEXTURE_2D, this.texture)
+    gl.texImage2D(gl.TEXTURE_2D, 0, this.internalFormat, width, height, 0, this.format, this.type, null)
+    gl.bindTexture(gl.TEXTURE_2D, null)
+  }
+
+  public clear(r = 0, g = 0, b = 0, a = 1): void {
+    const gl = this.gl
+    gl.bindFramebuffer(gl.FRAMEBUFFER, this.fbo)
+    gl.clearColor(r, g, b, a)
+    gl.clear(gl.COLOR_BUFFER_BIT)
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null)
+  }
+
+  public destroy(): void {
+    this.gl.deleteFramebuffer(this.fbo)
+    this.gl.deleteTexture(this.texture)
+  }
+}
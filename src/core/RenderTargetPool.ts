@@ -0,0 +1,61 @@
+import { RenderTarget } from './RenderTarget'
+
+export interface PoolFormat {
+  internalFormat: number
+  format: number
+  type: number
+}
+
+// Reuses render targets between passes and frames, so multi-pass effects don't
+// allocate textures every frame. Targets of one size are interchangeable.
+export class RenderTargetPool {
+  private gl: WebGL2RenderingContext
+  private format: PoolFormat
+  private free = new Map<string, RenderTarget[]>()
+  private sizes = new Map<RenderTarget, string>()
+
+  constructor(gl: WebGL2RenderingContext, format: PoolFormat) {
+    this.gl = gl
+    this.format = format
+  }
+
+  public acquire(width: number, height: number): RenderTarget {
+    const key = `${width}x${height}`
+    const target = this.free.get(key)?.pop()
+    if (target)
+      return target
+
+    const created = new RenderTarget(this.gl, { width, height, ...this.format })
+    this.sizes.set(created, key)
+    return created
+  }
+
+  // The target's texture stays readable until the next acquire of the same size
+  public release(target: RenderTarget): void {
+    const key = this.sizes.get(target)
+    if (key === undefined)
+      return
+
+    const free = this.free.get(key) ?? []
+    if (!free.includes(target))
+      free.push(target)
+    this.free.set(key, free)
+  }
+
+  // Destroy every free target, e.g. once the render size has changed
+  public clear(): void {
+    for (const targets of this.free.values()) {
+      for (const target of targets) {
+        target.destroy()
+        this.sizes.delete(target)
+      }
+    }
+    this.free.clear()
+  }
+
+  public destroy(): void {
+    this.sizes.forEach((_, target) => target.destroy())
+    this.sizes.clear()
+    this.free.clear()
+  }
+}
@@ -0,0 +1,116 @@
+export interface ResolutionScalerOptions {
+  // Lowest fraction of the canvas resolution to render at
+  minScale?: number
+  // Fraction the scale changes by in one step
+  step?: number
+  // Frames slower than the budget by more than this fraction count as over budget
+  tolerance?: number
+  // Milliseconds at or under budget before trying a higher scale
+  upscaleDelay?: number
+}
+
+export const DEFAULT_RESOLUTION_SCALER_OPTIONS: Required<ResolutionScalerOptions> = {
+  minScale: 0.5,
+  step: 0.1,
+  tolerance: 0.2,
+  upscaleDelay: 3000,
+}
+
+// Smoothing of the measured frame time; higher reacts more slowly
+const FRAME_TIME_SMOOTHING = 0.9
+
+// Milliseconds to wait after a change before measuring again, so the new scale
+// is judged on its own frames
+const SETTLE_TIME = 500
+
+// A step back down within this many milliseconds of a step up means the higher
+// scale doesn't fit; the wait before trying it again doubles, up to MAX_UPSCALE_DELAY
+const FAILED_UPSCALE_WINDOW = 2000
+const MAX_UPSCALE_DELAY = 60000
+
+// Picks a render scale from measured frame times: steps down while frames take
+// longer than the budget and back up after a stretch of frames within it
+export class ResolutionScaler {
+  private options: Required<ResolutionScalerOptions>
+  private scale = 1
+  private frameTime: number | null = null
+  private settleTime = 0
+  private withinBudgetTime = 0
+  private upscaleDelay: number
+  // Milliseconds since the last step up
+  private sinceUpscale = Infinity
+
+  constructor(options: ResolutionScalerOptions = {}) {
+    this.options = { ...DEFAULT_RESOLUTION_SCALER_OPTIONS, ...options }
+    this.upscaleDelay = this.options.upscaleDelay
+
+    const { minScale, step } = this.options
+    if (!(minScale > 0 && minScale <= 1)) {
+      throw new Error(`minScale must be between 0 and 1, got ${minScale}`)
+    }
+    if (!(step > 0)) {
+      throw new Error(`step must be positive, got ${step}`)
+    }
+  }
+
+  // deltaTime and budget in milliseconds; returns true when the scale changed
+  public update(deltaTime: number, budget: number): boolean {
+    if (deltaTime <= 0 || budget <= 0)
+      return false
+
+    this.sinceUpscale += deltaTime
+    if (this.settleTime > 0) {
+      this.settleTime -= deltaTime
+      return false
+    }
+
+    this.frameTime = this.frameTime === null
+      ? deltaTime
+      : this.frameTime * FRAME_TIME_SMOOTHING + deltaTime * (1 - FRAME_TIME_SMOOTHING)
+
+    const { minScale, step, tolerance } = this.options
+
+    if (this.frameTime > budget * (1 + tolerance)) {
+      this.withinBudgetTime = 0
+      if (this.sinceUpscale < FAILED_UPSCALE_WINDOW)
+        this.upscaleDelay = Math.min(this.upscaleDelay * 2, MAX_UPSCALE_DELAY)
+      return this.setScale(Math.max(minScale, this.scale - step))
+    }
+
+    this.withinBudgetTime += deltaTime
+    if (this.withinBudgetTime >= this.upscaleDelay) {
+      this.withinBudgetTime = 0
+      const changed = this.setScale(Math.min(1, this.scale + step))
+      if (changed)
+        this.sinceUpscale = 0
+      return changed
+    }
+
+    return false
+  }
+
+  private setScale(scale: number): boolean {
+    // Rounded so repeated steps land on the same values
+    const rounded = Math.round(scale * 1000) / 1000
+    if (rounded === this.scale)
+      return false
+
+    this.scale = rounded
+    this.frameTime = null
+    this.settleTime = SETTLE_TIME
+    return true
+  }
+
+  public getScale(): number {
+    return this.scale
+  }
+
+  public reset(): void {
+    this.scale = 1
+    this.frameTime = null
+    this.settleTime = 0
+    this.withinBudgetTime = 0
+    this.upscaleDelay = this.options.upscaleDelay
+    this.sinceUpscale = Infinity
+  }
+}
@@ -0,0 +1,92 @@
+import type { ShaderSourceMap } from './ShaderSourceMap'
+import { describe, expect, it } from 'vitest'
+import { parseShaderLog, ShaderCompileError } from './ShaderCompileError'
+import { remapShaderLog } from './ShaderSourceMap'
+
+// Info logs for an undeclared identifier on line 12, as each driver family reports it
+const LOGS = {
+  angle: 'ERROR: 0:12: \'glow\' : undeclared identifier\nERROR: 1 compilation errors.  No code generated.\n\0',
+  mesa: '0:12(3): error: `glow\' undeclared\n',
+  nvidia: '0(12) : error C1008: undefined variable "glow"\n',
+}
+
+const SOURCE = Array.from({ length: 14 }, (_, i) => i === 11 ? '  color += glow;' : `// line ${i + 1}`).join('\n')
+
+// Generated lines 1-10 come from a prelude, 11-14 from lines 4-7 of the pass
+const SOURCE_MAP: ShaderSourceMap = SOURCE.split('\n').map((text, i) =>
+  i < 10 ? null : { source: 'bloom', line: i - 6, text })
+
+describe('parseShaderLog', () => {
+  it('parses ANGLE logs and skips the summary line', () => {
+    expect(parseShaderLog(LOGS.angle, 'fragment', SOURCE)).toEqual([{
+      stage: 'fragment',
+      severity: 'error',
+      line: 12,
+      column: null,
+      message: '\'glow\' : undeclared identifier',
+      sourceSnippet: 'color += glow;',
+    }])
+  })
+
+  it('parses Mesa logs with columns', () => {
+    expect(parseShaderLog(LOGS.mesa, 'fragment', SOURCE)).toEqual([{
+      stage: 'fragment',
+      severity: 'error',
+      line: 12,
+      column: 3,
+      message: '`glow\' undeclared',
+      sourceSnippet: 'color += glow;',
+    }])
+  })
+
+  it('parses NVIDIA logs', () => {
+    expect(parseShaderLog(LOGS.nvidia, 'vertex')).toEqual([{
+      stage: 'vertex',
+      severity: 'error',
+      line: 12,
+      column: null,
+      message: 'undefined variable "glow"',
+    }])
+  })
+
+  it('keeps warnings and unrecognised lines', () => {
+    const diagnostics = parseShaderLog('WARNING: 0:3: extension not supported\nLink failed for some reason', 'link')
+
+    expect(diagnostics.map(({ severity, line, message }) => ({ severity, line, message }))).toEqual([
+      { severity: 'warning', line: 3, message: 'extension not supported' },
+      { severity: 'error', line: null, message: 'Link failed for some reason' },
+    ])
+  })
+})
+
+describe('shaderCompileError', () => {
+  it('reports every driver\'s error against the mapped file and line', () => {
+    for (const log of Object.values(LOGS)) {
+      const error = new ShaderCompileError('fragment', parseShaderLog(log, 'fragment', SOURCE), log)
+        .withSourceMap(SOURCE_MAP, 'bloom')
+
+      expect(error.pass).toBe('bloom')
+      expect(error.diagnostics).toHaveLength(1)
+      expect(error.diagnostics[0]).toMatchObject({ source: 'bloom', line: 5, sourceSnippet: 'color += glow;' })
+      expect(error.message).toMatch(/^Pass 'bloom': Shader compilation failed:\nbloom:5(:3)?: .*glow.*\n {2}> color \+= glow;$/)
+    }
+  })
+
+  it('leaves generated lines and other stages unmapped', () => {
+    const diagnostics = [
+      ...parseShaderLog('ERROR: 0:2: \'md_blur\' : no matching overloaded function found', 'fragment'),
+      ...parseShaderLog('ERROR: 0:12: \'pos\' : undeclared identifier', 'vertex'),
+    ]
+    const error = new ShaderCompileError('fragment', diagnostics, '').withSourceMap(SOURCE_MAP)
+
+    expect(error.diagnostics).toEqual(diagnostics)
+    expect(error.message).toBe('Shader compilation failed:\nfragment:2: \'md_blur\' : no matching overloaded function found\nvertex:12: \'pos\' : undeclared identifier')
+  })
+})
+
+describe('remapShaderLog', () => {
+  it('rewrites ANGLE line references to the original source', () => {
+    expect(remapShaderLog(LOGS.angle.split('\n')[0], SOURCE_MAP)).toBe('ERROR: bloom:5: \'glow\' : undeclared identifier\n  > color += glow;')
+    expect(remapShaderLog('ERROR: 0:2: prelude error', SOURCE_MAP)).toBe('ERROR: 0:2: prelude error')
+  })
+})
@@ -0,0 +1,134 @@
+import type { ShaderSourceMap } from './ShaderSourceMap'
+
+export type ShaderStage = 'preprocess' | 'vertex' | 'fragment' | 'link'
+
+export interface ShaderDiagnostic {
+  stage: ShaderStage
+  severity: 'error' | 'warning'
+  // File the line refers to: a pass, an included module or a translated shader
+  source?: string
+  line: number | null
+  column: number | null
+  message: string
+  sourceSnippet?: string
+}
+
+// Info log line formats, tried in order:
+//   ANGLE, SwiftShader, Safari: "ERROR: 0:12: 'foo' : undeclared identifier"
+//   Mesa:                       "0:12(5): error: 'foo' undeclared"
+//   NVIDIA:                     "0(12) : error C1008: undefined variable "foo""
+const LOG_PATTERNS: { pattern: RegExp, parse: (match: RegExpExecArray) => Omit<ShaderDiagnostic, 'stage'> }[] = [
+  {
+    pattern: /^(ERROR|WARNING):\s*\d+:(\d+):(.*)$/i,
+    parse: match => ({
+      severity: match[1].toUpperCase() === 'WARNING' ? 'warning' : 'error',
+      line: Number(match[2]),
+      column: null,
+      message: match[3].trim(),
+    }),
+  },
+  {
+    pattern: /^\d+:(\d+)\((\d+)\):\s*(error|warning):(.*)$/i,
+    parse: match => ({
+      severity: match[3].toLowerCase() === 'warning' ? 'warning' : 'error',
+      line: Number(match[1]),
+      column: Number(match[2]),
+      message: match[4].trim(),
+    }),
+  },
+  {
+    pattern: /^\d+\((\d+)\)\s*:\s*(error|warning)(?:\s+\w+)?\s*:(.*)$/i,
+    parse: match => ({
+      severity: match[2].toLowerCase() === 'warning' ? 'warning' : 'error',
+      line: Number(match[1]),
+      column: null,
+      message: match[3].trim(),
+    }),
+  },
+]
+
+// Split a driver info log into diagnostics; lines in no known format are kept as messages without a location
+export function parseShaderLog(log: string, stage: ShaderStage, source?: string): ShaderDiagnostic[] {
+  const lines = source?.split('\n')
+  const diagnostics: ShaderDiagnostic[] = []
+
+  for (const rawLine of log.split('\n')) {
+    const text = rawLine.replace(/\0/g, '').trim()
+    if (text === '')
+      continue
+
+    let diagnostic: ShaderDiagnostic | null = null
+    for (const { pattern, parse } of LOG_PATTERNS) {
+      const match = pattern.exec(text)
+      if (match) {
+        diagnostic = { stage, ...parse(match) }
+        break
+      }
+    }
+
+    if (!diagnostic) {
+      // ANGLE ends logs with a summary such as "1 compilation errors.  No code generated."
+      if (/compilation errors?\./i.test(text))
+        continue
+      diagnostic = { stage, severity: 'error', line: null, column: null, message: text }
+    }
+
+    if (lines && diagnostic.line !== null && lines[diagnostic.line - 1] !== undefined) {
+      diagnostic.sourceSnippet = lines[diagnostic.line - 1].trim()
+    }
+
+    diagnostics.push(diagnostic)
+  }
+
+  return diagnostics
+}
+
+function formatDiagnostic(diagnostic: ShaderDiagnostic): string {
+  const location = diagnostic.line === null
+    ? ''
+    : `${diagnostic.source ?? diagnostic.stage}:${diagnostic.line}${diagnostic.column === null ? '' : `:${diagnostic.column}`}: `
+  const snippet = diagnostic.sourceSnippet !== undefined ? `\n  > ${diagnostic.sourceSnippet}` : ''
+  return `${location}${diagnostic.message}${snippet}`
+}
+
+export class ShaderCompileError extends Error {
+  public readonly stage: ShaderStage
+  public readonly diagnostics: ShaderDiagnostic[]
+  // Raw driver info log
+  public readonly log: string
+  // Render graph pass the shader belongs to
+  public readonly pass?: string
+
+  constructor(stage: ShaderStage, diagnostics: ShaderDiagnostic[], log: string, pass?: string) {
+    const summary = diagnostics.map(formatDiagnostic).join('\n')
+    const prefix = pass !== undefined ? `Pass '${pass}': ` : ''
+    super(`${prefix}${stage === 'link' ? 'Shader program linking failed' : 'Shader compilation failed'}:\n${summary}`)
+
+    this.name = 'ShaderCompileError'
+    this.stage = stage
+    this.diagnostics = diagnostics
+    this.log = log
+    this.pass = pass
+  }
+
+  // Point fragment diagnostics at the files and lines the generated source came from
+  public withSourceMap(sourceMap: ShaderSourceMap | undefined, pass?: string): ShaderCompileError {
+    const diagnostics = this.diagnostics.map((diagnostic) => {
+      if (!sourceMap || diagnostic.stage !== 'fragment' || diagnostic.line === null)
+        return diagnostic
+
+      const location = sourceMap[diagnostic.line - 1]
+      if (!location)
+        return diagnostic
+
+      return {
+        ...diagnostic,
+        source: location.source,
+        line: location.line,
+        sourceSnippet: location.text?.trim() ?? diagnostic.sourceSnippet,
+      }
+    })
+
+    return new ShaderCompileError(this.stage, diagnostics, this.log, pass ?? this.pass)
+  }
+}
@@ -0,0 +1,98 @@
+import type { ShaderCompileError } from './ShaderCompileError'
+import { describe, expect, it } from 'vitest'
+import { preprocessShader, registerShaderModule, unregisterShaderModule } from './ShaderPreprocessor'
+
+const MODULES = {
+  'noise': '#include "hash"\nfloat noise(vec2 p) { return hash(p); }',
+  'hash': 'uniform float u_seed;\nfloat hash(vec2 p) { return fract(sin(dot(p, vec2(12.9898, 78.233)) + u_seed) * 43758.5453); }',
+  'palette': '#include "hash"\nuniform float u_seed;\nvec3 palette(float t) { return vec3(t); }',
+  'loop-a': '#include "loop-b"',
+  'loop-b': 'float b;\n#include <loop-a>',
+}
+
+// The error preprocessShader threw, for asserting on its diagnostics
+function preprocessError(source: string): ShaderCompileError {
+  try {
+    preprocessShader(source, { name: 'main', modules: MODULES })
+  }
+  catch (error) {
+    return error as ShaderCompileError
+  }
+  throw new Error('Expected preprocessShader to throw')
+}
+
+describe('preprocessShader', () => {
+  it('inlines included modules in place', () => {
+    const { source } = preprocessShader('#version 300 es\n#include "noise" // value noise\nvoid main() {}', { modules: MODULES })
+
+    expect(source.split('\n')).toEqual([
+      '#version 300 es',
+      'uniform float u_seed;',
+      MODULES.hash.split('\n')[1],
+      'float noise(vec2 p) { return hash(p); }',
+      'void main() {}',
+    ])
+  })
+
+  it('includes each module and uniform once', () => {
+    const { source } = preprocessShader('#include "noise"\n#include <palette>\n#include "hash"\nuniform float u_seed;', { modules: MODULES })
+
+    expect(source.match(/float hash\(/g)).toHaveLength(1)
+    expect(source.match(/uniform float u_seed;/g)).toHaveLength(1)
+    expect(source).toContain('vec3 palette(float t)')
+  })
+
+  it('maps output lines back through nested includes', () => {
+    const { source, sourceMap } = preprocessShader('precision highp float;\n#include "noise"\nvoid main() {}', { name: 'main', modules: MODULES })
+
+    expect(sourceMap).toHaveLength(source.split('\n').length)
+    expect(sourceMap).toEqual([
+      { source: 'main', line: 1, text: 'precision highp float;' },
+      { source: 'hash', line: 1, text: 'uniform float u_seed;' },
+      { source: 'hash', line: 2, text: MODULES.hash.split('\n')[1] },
+      { source: 'noise', line: 2, text: 'float noise(vec2 p) { return hash(p); }' },
+      { source: 'main', line: 3, text: 'void main() {}' },
+    ])
+  })
+
+  it('maps the root source through an existing source map', () => {
+    const translated = [null, { source: 'comp', line: 7, text: 'ret = noise(uv);' }]
+    const { sourceMap } = preprocessShader('#define X 1\nret = noise(uv);', { sourceMap: translated })
+
+    expect(sourceMap).toEqual(translated)
+  })
+
+  it('detects circular includes', () => {
+    const error = preprocessError('#include "loop-a"')
+
+    expect(error.stage).toBe('preprocess')
+    expect(error.diagnostics[0]).toMatchObject({
+      source: 'loop-b',
+      line: 2,
+      message: 'circular #include of \'loop-a\' (main -> loop-a -> loop-b -> loop-a)',
+      sourceSnippet: '#include <loop-a>',
+    })
+  })
+
+  it('reports unknown modules, nested #version and conflicting uniforms where they occur', () => {
+    expect(preprocessError('void main() {}\n#include "missing"').diagnostics[0])
+      .toMatchObject({ source: 'main', line: 2, message: 'unknown shader module \'missing\'' })
+    expect(preprocessError('#include "noise"\nuniform vec2 u_seed;').diagnostics[0])
+      .toMatchObject({ source: 'main', line: 2, message: 'uniform \'u_seed\' redeclared as vec2, first declared as float' })
+
+    expect(() => preprocessShader('#include "versioned"', { modules: { versioned: 'float a;\n#version 300 es' } }))
+      .toThrow('versioned:2: #version is not allowed in included module \'versioned\'')
+  })
+
+  it('resolves registered modules and prefers per-shader ones', () => {
+    registerShaderModule('test-registered', 'float registered;')
+    try {
+      expect(preprocessShader('#include "test-registered"').source).toBe('float registered;')
+      expect(preprocessShader('#include "test-registered"', { modules: { 'test-registered': 'float local;' } }).source).toBe('float local;')
+    }
+    finally {
+      unregisterShaderModule('test-registered')
+    }
+    expect(() => preprocessShader('#include "test-registered"')).toThrow('unknown shader module')
+  })
+})
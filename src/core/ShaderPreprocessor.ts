@@ -0,0 +1,139 @@
+import type { ShaderSourceLocation, ShaderSourceMap } from './ShaderSourceMap'
+import { BUILTIN_SHADER_MODULES } from '../shaders/library'
+import { ShaderCompileError } from './ShaderCompileError'
+
+export interface PreprocessOptions {
+  // Name used for the root source in errors and the source map
+  name?: string
+  // Existing map for the root source, e.g. from a translated shader
+  sourceMap?: ShaderSourceMap
+  // Modules visible to this shader only, on top of the registry
+  modules?: Record<string, string>
+}
+
+export interface PreprocessedShader {
+  source: string
+  sourceMap: ShaderSourceMap
+}
+
+const INCLUDE_PATTERN = /^\s*#\s*include\s+(?:"([^"]+)"|<([^>]+)>)\s*(?:\/\/.*)?$/
+const UNIFORM_PATTERN = /^\s*uniform\s+(?:(?:lowp|mediump|highp)\s+)?(\w+)\s+(\w+)(\s*\[[^\]]*\])?\s*;\s*(?:\/\/.*)?$/
+const VERSION_PATTERN = /^\s*#\s*version\b/
+
+const registry = new Map<string, string>(Object.entries(BUILTIN_SHADER_MODULES))
+
+// Make a module available to every shader as #include "name"
+export function registerShaderModule(name: string, source: string): void {
+  registry.set(name, source)
+}
+
+export function unregisterShaderModule(name: string): boolean {
+  if (name in BUILTIN_SHADER_MODULES) {
+    throw new Error(`Cannot unregister built-in shader module '${name}'`)
+  }
+  return registry.delete(name)
+}
+
+export function getShaderModuleNames(): string[] {
+  return Array.from(registry.keys())
+}
+
+class Preprocessor {
+  private modules: Record<string, string>
+  private included = new Set<string>()
+  private stack: string[] = []
+  private uniforms = new Map<string, string>()
+  private lines: string[] = []
+  private sourceMap: ShaderSourceMap = []
+
+  constructor(modules: Record<string, string>) {
+    this.modules = modules
+  }
+
+  private error(location: ShaderSourceLocation | null, message: string): ShaderCompileError {
+    return new ShaderCompileError('preprocess', [{
+      stage: 'preprocess',
+      severity: 'error',
+      source: location?.source,
+      line: location?.line ?? null,
+      column: null,
+      message,
+      sourceSnippet: location?.text?.trim(),
+    }], message)
+  }
+
+  private resolve(name: string): string | undefined {
+    return this.modules[name] ?? registry.get(name)
+  }
+
+  public process(source: string, name: string, locate: (line: number) => ShaderSourceLocation | null): void {
+    this.stack.push(name)
+
+    source.split('\n').forEach((text, i) => {
+      const location = locate(i + 1)
+
+      const include = INCLUDE_PATTERN.exec(text)
+      if (include) {
+        const module = include[1] ?? include[2]
+        if (this.stack.includes(module)) {
+          throw this.error(location, `circular #include of '${module}' (${[...this.stack, module].join(' -> ')})`)
+        }
+
+        // Every module is included once, however many files ask for it
+        if (this.included.has(module))
+          return
+
+        const moduleSource = this.resolve(module)
+        if (moduleSource === undefined) {
+          throw this.error(location, `unknown shader module '${module}'`)
+        }
+
+        this.included.add(module)
+        const moduleLines = moduleSource.split('\n')
+        this.process(moduleSource, module, line => ({ source: module, line, text: moduleLines[line - 1] }))
+        return
+      }
+
+      if (this.stack.length > 1 && VERSION_PATTERN.test(text)) {
+        throw this.error(location, `#version is not allowed in included module '${name}'`)
+      }
+
+      // Modules declare the uniforms they use; keep the first declaration of each
+      const uniform = UNIFORM_PATTERN.exec(text)
+      if (uniform) {
+        const type = `${uniform[1]}${uniform[3]?.trim() ?? ''}`
+        const existing = this.uniforms.get(uniform[2])
+        if (existing !== undefined) {
+          if (existing !== type) {
+            throw this.error(location, `uniform '${uniform[2]}' redeclared as ${type}, first declared as ${existing}`)
+          }
+          return
+        }
+        this.uniforms.set(uniform[2], type)
+      }
+
+      this.lines.push(text)
+      this.sourceMap.push(location)
+    })
+
+    this.stack.pop()
+  }
+
+  public getResult(): PreprocessedShader {
+    return { source: this.lines.join('\n'), sourceMap: this.sourceMap }
+  }
+}
+
+// Resolve #include directives and drop repeated uniform declarations, keeping
+// a map from every output line back to the file and line it came from
+export function preprocessShader(source: string, options: PreprocessOptions = {}): PreprocessedShader {
+  const name = options.name ?? 'shader'
+  const lines = source.split('\n')
+  const sourceMap = options.sourceMap
+
+  const preprocessor = new Preprocessor(options.modules ?? {})
+  preprocessor.process(source, name, line =>
+    sourceMap ? sourceMap[line - 1] ?? null : { source: name, line, text: lines[line - 1] })
+
+  return preprocessor.getResult()
+}
@@ -0,0 +1,20 @@
+export interface ShaderSourceLocation {
+  source: string
+  line: number
+  text?: string
+}
+
+// One entry per line of generated shader source; null for generated lines
+export type ShaderSourceMap = (ShaderSourceLocation | null)[]
+
+// Rewrite '0:LINE' references in a driver info log to their original location
+export function remapShaderLog(log: string, sourceMap: ShaderSourceMap): string {
+  return log.replace(/\b0:(\d+)(.*)/g, (match: string, lineText: string, rest: string) => {
+    const location = sourceMap[Number(lineText) - 1]
+    if (!location)
+      return match
+
+    const snippet = location.text !== undefined ? `\n  > ${location.text.trim()}` : ''
+    return `${location.source}:${location.line}${rest}${snippet}`
+  })
+}
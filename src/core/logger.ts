@@ -0,0 +1,37 @@
+// 'info' logs everything, 'silent' nothing; each level includes the ones before it
+export type LogLevel = 'silent' | 'error' | 'warn' | 'info'
+
+const LOG_LEVELS: LogLevel[] = ['silent', 'error', 'warn', 'info']
+
+let currentLevel: LogLevel = 'info'
+
+export function setLogLevel(level: LogLevel): void {
+  if (!LOG_LEVELS.includes(level)) {
+    throw new Error(`Unknown log level '${String(level)}'`)
+  }
+  currentLevel = level
+}
+
+export function getLogLevel(): LogLevel {
+  return currentLevel
+}
+
+function enabled(level: LogLevel): boolean {
+  return LOG_LEVELS.indexOf(level) <= LOG_LEVELS.indexOf(currentLevel)
+}
+
+// Console output for the whole library, filtered by the log level
+export const logger = {
+  info(...args: unknown[]): void {
+    if (enabled('info'))
+      console.log(...args)
+  },
+  warn(...args: unknown[]): void {
+    if (enabled('warn'))
+      console.warn(...args)
+  },
+  error(...args: unknown[]): void {
+    if (enabled('error'))
+      console.error(...args)
+  },
+}
@@ -2,24 +2,99 @@ import type { VisualizerConfig } from './Visualizer'
 import { Visualizer } from './Visualizer'
 
 export { AudioAnalyzer } from './audio/AudioAnalyzer'
-export type { AudioData } from './audio/AudioAnalyzer'
+export type { AudioAnalyzerOptions, AudioBufferConnectOptions, AudioConnectOptions, AudioData, SpectrumScale } from './audio/AudioAnalyzer'
+export { collectAudioData } from './audio/audioData'
+export { BandAnalyzer, DEFAULT_BAND_OPTIONS, getBandEdges } from './audio/bands'
+export type { BandOptions, BandScale } from './audio/bands'
 export { BeatDetector } from './audio/BeatDetector'
-export type { BeatDetectionConfig } from './audio/BeatDetector'
+export type { BeatDetectionConfig, BeatStrategyName } from './audio/BeatDetector'
+export { DEFAULT_ONSET_RANGES, EnergyBeatStrategy, ONSET_NAMES, SpectralFluxBeatStrategy } from './audio/beatStrategies'
+export type {
+  BeatDetectionInput,
+  BeatDetectionResult,
+  BeatDetectionStrategy,
+  EnergyBeatOptions,
+  OnsetName,
+  SpectralFluxOptions,
+} from './audio/beatStrategies'
+export { FFT, FFTAnalyser } from './audio/FFTAnalyser'
+export type { Analyser, FFTAnalyserOptions } from './audio/FFTAnalyser'
+export { DEFAULT_FREQUENCY_RANGES, getRangeLevel, LevelTracker, validateFrequencyRanges } from './audio/levels'
+export type { AudioLevel, FrequencyRange } from './audio/levels'
+export { TempoTracker } from './audio/TempoTracker'
+export type { TempoConfig, TempoData } from './audio/TempoTracker'
+export { decodeWav } from './audio/wav'
+export type { PCMAudio } from './audio/wav'
+export { createSeededRandom, realtimeClock, VirtualClock } from './core/Clock'
+export type { Clock } from './core/Clock'
+export { EventEmitter } from './core/EventEmitter'
+export type { EventHandler } from './core/EventEmitter'
 export { FullscreenQuad } from './core/FullscreenQuad'
 export { GLContext } from './core/GLContext'
+export type { GLContextEvents } from './core/GLContext'
+export { getLogLevel, logger, setLogLevel } from './core/logger'
+export type { LogLevel } from './core/logger'
 export { PingPongFBO } from './core/PingPongFBO'
 export type { FBOOptions } from './core/PingPongFBO'
 export { Program } from './core/Program'
-export type { UniformValue } from './core/Program'
+export type { UniformInfo, UniformSetter, UniformType, UniformValue } from './core/Program'
 export { RenderLoop } from './core/RenderLoop'
-export type { RenderCallback } from './core/RenderLoop'
+export type { RenderCallback, RenderLoopOptions } from './core/RenderLoop'
+export { RenderTarget } from './core/RenderTarget'
+export { RenderTargetPool } from './core/RenderTargetPool'
+export type { PoolFormat } from './core/RenderTargetPool'
+export { DEFAULT_RESOLUTION_SCALER_OPTIONS, ResolutionScaler } from './core/ResolutionScaler'
+export type { ResolutionScalerOptions } from './core/ResolutionScaler'
+export { parseShaderLog, ShaderCompileError } from './core/ShaderCompileError'
+export type { ShaderDiagnostic, ShaderStage } from './core/ShaderCompileError'
+export { getShaderModuleNames, preprocessShader, registerShaderModule, unregisterShaderModule } from './core/ShaderPreprocessor'
+export type { PreprocessedShader, PreprocessOptions } from './core/ShaderPreprocessor'
+export { remapShaderLog } from './core/ShaderSourceMap'
+export type { ShaderSourceLocation, ShaderSourceMap } from './core/ShaderSourceMap'
+export { decodeOfflineAudio, DEFAULT_OFFLINE_FPS, DEFAULT_OFFLINE_SEED, OfflineRenderer } from './OfflineRenderer'
+export type { OfflineAudioSource, OfflineFrame, OfflineFrameCallback, OfflineFrameFormat, OfflineRendererConfig, OfflineRenderOptions, OfflineRenderResult } from './OfflineRenderer'
+export { fallback } from './presets/builtins/fallback'
 export { simpleSpectrum } from './presets/builtins/simpleSpectrum'
+export { Compositor, DEFAULT_COMPOSITOR_OPTIONS } from './presets/Compositor'
+export type { AspectMode, CompositorOptions, SymmetryMode } from './presets/Compositor'
+export { parseCubeLUT } from './presets/cubeLUT'
+export type { CubeLUT } from './presets/cubeLUT'
+export { DEFAULT_EFFECT_PARAMS, EFFECT_NAMES, EFFECT_SHADERS, getAudioValue } from './presets/effects'
+export type { AudioBinding, CustomEffect, EffectConfig, EffectName, EffectParam, EffectStackEntry } from './presets/effects'
+export { EffectStack } from './presets/EffectStack'
 export { PresetLoader } from './presets/loader'
+export { isButterchurnPreset, parseButterchurn } from './presets/milkdrop/butterchurn'
+export type { ButterchurnPreset, ButterchurnShape, ButterchurnWave } from './presets/milkdrop/butterchurn'
+export { compileEEL, EELContext } from './presets/milkdrop/eel/compiler'
+export type { EELFunction } from './presets/milkdrop/eel/compiler'
+export { translateEELToGLSL } from './presets/milkdrop/eel/glsl'
+export { parseEEL } from './presets/milkdrop/eel/parser'
+export type { EELNode } from './presets/milkdrop/eel/parser'
+export { tokenize as tokenizeEEL } from './presets/milkdrop/eel/tokenizer'
+export { translateMilkdropShader } from './presets/milkdrop/hlsl'
+export type { MilkdropShaderOptions, MilkdropShaderTranslation } from './presets/milkdrop/hlsl'
+export { MilkdropEquationRunner } from './presets/milkdrop/MilkdropEquationRunner'
+export { createMilkdropPreset, MILKDROP_DEFAULT_BASE_VALUES } from './presets/milkdrop/MilkdropPreset'
+export type { MilkdropEquations, MilkdropImportResult, MilkdropPresetData, MilkdropShape, MilkdropWave } from './presets/milkdrop/MilkdropPreset'
+export { parseMilk } from './presets/milkdrop/milkParser'
 export { PresetBuilder } from './presets/Preset'
-export type { Preset, PresetMetadata, PresetShaders, PresetUniforms } from './presets/Preset'
+export type { ColorValue, HSVColor, PassFormat, Preset, PresetMetadata, PresetPass, PresetShaders, PresetTexture, PresetUniform, PresetUniforms, PresetUniformType, TextureSource } from './presets/Preset'
 export { PresetRunner } from './presets/PresetRunner'
+export type { LoadPresetOptions, PresetErrorMode, PresetLoadResult, PresetRunnerOptions } from './presets/PresetRunner'
+export { loadTextureSource, loadTextureSources, PresetTextures, releaseTextureSource, validatePresetTextures } from './presets/PresetTextures'
+export type { LoadedTextureSource } from './presets/PresetTextures'
+export { MAIN_PASS_NAME, RenderGraph } from './presets/RenderGraph'
+export type { GraphTexture } from './presets/RenderGraph'
+export { createShadertoyAudioData, wrapShadertoyShader } from './presets/shadertoy'
+export type { ShaderDialect, ShadertoyShader } from './presets/shadertoy'
+export { TONE_MAPPINGS } from './presets/toneMapping'
+export type { ToneMapping, ToneMappingOptions } from './presets/toneMapping'
+export { DEFAULT_TRANSITION_DURATION, TRANSITION_SHADERS } from './presets/transitions'
+export type { TransitionOptions, TransitionShader, TransitionType } from './presets/transitions'
+export { bindPresetUniforms, parseColor, PRESET_UNIFORM_TYPES, validatePresetUniforms } from './presets/uniforms'
+export type { UniformBinding } from './presets/uniforms'
 export { Visualizer } from './Visualizer'
-export type { VisualizerConfig } from './Visualizer'
+export type { AudioSourceKind, VisualizerConfig, VisualizerEvents } from './Visualizer'
 
 export function createVisualizer(config?: VisualizerConfig): Visualizer {
   return new Visualizer(config)
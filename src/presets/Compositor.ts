@@ -0,0 +1,302 @@
+import type { FullscreenQuad } from '../core/FullscreenQuad'
+import type { CubeLUT } from './cubeLUT'
+import type { ToneMapping, ToneMappingOptions } from './toneMapping'
+import { logger } from '../core/logger'
+import { Program } from '../core/Program'
+import { TONE_MAPPINGS, validateExposure, validateToneMapping } from './toneMapping'
+
+// How the image sits in the canvas when aspectRatio is set: 'fit' shows all of
+// it with bars in the background colour, 'fill' covers the canvas and crops
+export type AspectMode = 'stretch' | 'fit' | 'fill'
+
+// 'mirrorX' reflects the left half onto the right, 'mirrorY' the bottom onto the
+// top, 'mirrorXY' the bottom-left quarter onto the rest; 'kaleidoscope' repeats
+// one wedge around the center
+export type SymmetryMode = 'none' | 'mirrorX' | 'mirrorY' | 'mirrorXY' | 'kaleidoscope'
+
+export interface CompositorOptions extends ToneMappingOptions {
+  aspectMode?: AspectMode
+  // Width over height of the image, e.g. 16 / 9 for a projector; unset follows the canvas
+  aspectRatio?: number
+  // RGB from 0 to 1 for the bars in 'fit' mode
+  background?: [number, number, number]
+  symmetry?: SymmetryMode
+  // Wedges around the kaleidoscope (default: 6)
+  segments?: number
+  // Added to every channel (default: 0)
+  brightness?: number
+  // Around mid-grey; 1 leaves colours as they are
+  contrast?: number
+  // 0 is greyscale, 1 unchanged
+  saturation?: number
+  // Blend from the graded colour (0) to the LUT's (1, default)
+  lutIntensity?: number
+}
+
+export const DEFAULT_COMPOSITOR_OPTIONS: Required<Omit<CompositorOptions, 'aspectRatio'>> = {
+  toneMapping: 'none',
+  exposure: 1,
+  aspectMode: 'stretch',
+  background: [0, 0, 0],
+  symmetry: 'none',
+  segments: 6,
+  brightness: 0,
+  contrast: 1,
+  saturation: 1,
+  lutIntensity: 1,
+}
+
+type ResolvedOptions = typeof DEFAULT_COMPOSITOR_OPTIONS & Pick<CompositorOptions, 'aspectRatio'>
+
+const ASPECT_MODES: AspectMode[] = ['stretch', 'fit', 'fill']
+const SYMMETRY_MODES: SymmetryMode[] = ['none', 'mirrorX', 'mirrorY', 'mirrorXY', 'kaleidoscope']
+
+// LUT on unit 1; the image on unit 0
+const LUT_TEXTURE_UNIT = 1
+
+// Steps run in order: aspect, symmetry, exposure and tone mapping, colour
+// adjustments, then the LUT, which expects display-referred colour
+const COMPOSITOR_FRAGMENT_SHADER = `#version 300 es
+precision highp float;
+precision highp sampler3D;
+
+in vec2 v_texCoord;
+out vec4 fragColor;
+
+uniform sampler2D u_texture;
+uniform sampler3D u_lut;
+
+// Canvas size over image size; above 1 on an axis leaves bars, below crops
+uniform vec2 u_contentScale;
+uniform vec3 u_background;
+uniform int u_symmetry;
+uniform float u_segments;
+uniform float u_aspect;
+
+uniform float u_exposure;
+uniform int u_toneMapping;
+uniform float u_brightness;
+uniform float u_contrast;
+uniform float u_saturation;
+
+uniform int u_lutEnabled;
+uniform float u_lutSize;
+uniform vec3 u_lutDomainMin;
+uniform vec3 u_lutDomainMax;
+uniform float u_lutIntensity;
+
+// Narkowicz's fit of the ACES filmic curve
+vec3 aces(vec3 color) {
+  return clamp((color * (2.51 * color + 0.03)) / (color * (2.43 * color + 0.59) + 0.14), 0.0, 1.0);
+}
+
+vec2 applySymmetry(vec2 uv) {
+  if (u_symmetry == 1 || u_symmetry == 3)
+    uv.x = 0.5 - abs(uv.x - 0.5);
+  if (u_symmetry == 2 || u_symmetry == 3)
+    uv.y = 0.5 - abs(uv.y - 0.5);
+
+  if (u_symmetry == 4) {
+    vec2 p = (uv - 0.5) * vec2(u_aspect, 1.0);
+    float segment = 6.28318530718 / u_segments;
+    float angle = mod(atan(p.y, p.x), segment);
+    angle = abs(angle - segment * 0.5);
+    uv = vec2(cos(angle), sin(angle)) * length(p) / vec2(u_aspect, 1.0) + 0.5;
+  }
+
+  return uv;
+}
+
+void main() {
+  vec2 uv = 0.5 + (v_texCoord - 0.5) * u_contentScale;
+  if (any(lessThan(uv, vec2(0.0))) || any(greaterThan(uv, vec2(1.0)))) {
+    fragColor = vec4(u_background, 1.0);
+    return;
+  }
+
+  vec4 texel = texture(u_texture, applySymmetry(uv));
+  vec3 color = max(texel.rgb * u_exposure, 0.0);
+
+  if (u_toneMapping == 1)
+    color = color / (1.0 + color);
+  else if (u_toneMapping == 2)
+    color = aces(color);
+  color = clamp(color, 0.0, 1.0);
+
+  color = (color + u_brightness - 0.5) * u_contrast + 0.5;
+  float luma = dot(color, vec3(0.2126, 0.7152, 0.0722));
+  color = clamp(mix(vec3(luma), color, u_saturation), 0.0, 1.0);
+
+  if (u_lutEnabled == 1) {
+    vec3 coord = clamp((color - u_lutDomainMin) / (u_lutDomainMax - u_lutDomainMin), 0.0, 1.0);
+    // Sample texel centers so the ends of the table map to 0 and 1
+    coord = coord * (u_lutSize - 1.0) / u_lutSize + 0.5 / u_lutSize;
+    color = mix(color, texture(u_lut, coord).rgb, u_lutIntensity);
+  }
+
+  fragColor = vec4(clamp(color, 0.0, 1.0), clamp(texel.a, 0.0, 1.0));
+}
+`
+
+// Options given as undefined keep their current value, except aspectRatio: undefined unsets it
+function withoutUndefined(options: CompositorOptions): CompositorOptions {
+  return Object.fromEntries(
+    Object.entries(options).filter(([key, value]) => value !== undefined || key === 'aspectRatio'),
+  ) as CompositorOptions
+}
+
+function validateCompositorOptions(options: CompositorOptions): void {
+  if (options.toneMapping !== undefined)
+    validateToneMapping(options.toneMapping)
+  if (options.exposure !== undefined)
+    validateExposure(options.exposure)
+  if (options.aspectMode !== undefined && !ASPECT_MODES.includes(options.aspectMode))
+    throw new Error(`Unknown aspect mode '${String(options.aspectMode)}'`)
+  if (options.aspectRatio !== undefined && !(options.aspectRatio > 0 && Number.isFinite(options.aspectRatio)))
+    throw new Error(`Aspect ratio must be a positive number, got ${options.aspectRatio}`)
+  if (options.symmetry !== undefined && !SYMMETRY_MODES.includes(options.symmetry))
+    throw new Error(`Unknown symmetry mode '${String(options.symmetry)}'`)
+  if (options.segments !== undefined && !(Number.isInteger(options.segments) && options.segments >= 2))
+    throw new Error(`Kaleidoscope segments must be an integer of at least 2, got ${options.segments}`)
+  if (options.contrast !== undefined && !(options.contrast >= 0))
+    throw new Error(`Contrast must be non-negative, got ${options.contrast}`)
+  if (options.saturation !== undefined && !(options.saturation >= 0))
+    throw new Error(`Saturation must be non-negative, got ${options.saturation}`)
+  if (options.lutIntensity !== undefined && !(options.lutIntensity >= 0 && options.lutIntensity <= 1))
+    throw new Error(`LUT intensity must be between 0 and 1, got ${options.lutIntensity}`)
+}
+
+// The final stage: draws a finished frame to the canvas with its own program
+export class Compositor {
+  private gl: WebGL2RenderingContext
+  private fullscreenQuad: FullscreenQuad
+  private program: Program
+  private options: ResolvedOptions
+  private lut: CubeLUT | null = null
+  private lutTexture: WebGLTexture | null = null
+
+  constructor(gl: WebGL2RenderingContext, fullscreenQuad: FullscreenQuad, vertexShader: string, options: CompositorOptions = {}) {
+    validateCompositorOptions(options)
+    this.gl = gl
+    this.fullscreenQuad = fullscreenQuad
+    this.options = { ...DEFAULT_COMPOSITOR_OPTIONS, ...withoutUndefined(options) }
+    this.program = new Program(gl, vertexShader, COMPOSITOR_FRAGMENT_SHADER)
+  }
+
+  // Options left out keep their current values
+  public setOptions(options: CompositorOptions): void {
+    validateCompositorOptions(options)
+    this.options = { ...this.options, ...withoutUndefined(options) }
+  }
+
+  public getOptions(): CompositorOptions {
+    return { ...this.options }
+  }
+
+  public getToneMapping(): ToneMapping {
+    return this.options.toneMapping
+  }
+
+  public getExposure(): number {
+    return this.options.exposure
+  }
+
+  // null removes the LUT
+  public setLUT(lut: CubeLUT | null): void {
+    if (this.lutTexture) {
+      this.gl.deleteTexture(this.lutTexture)
+      this.lutTexture = null
+    }
+    this.lut = lut
+    if (!lut)
+      return
+
+    const gl = this.gl
+    const texture = gl.createTexture()
+    gl.bindTexture(gl.TEXTURE_3D, texture)
+    // RGB16F takes float data and is filterable everywhere
+    gl.texImage3D(gl.TEXTURE_3D, 0, gl.RGB16F, lut.size, lut.size, lut.size, 0, gl.RGB, gl.FLOAT, lut.data)
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_MIN_FILTER, gl.LINEAR)
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_MAG_FILTER, gl.LINEAR)
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+    gl.texParameteri(gl.TEXTURE_3D, gl.TEXTURE_WRAP_R, gl.CLAMP_TO_EDGE)
+    gl.bindTexture(gl.TEXTURE_3D, null)
+    this.lutTexture = texture
+
+    if (lut.title !== undefined)
+      logger.info(`Loaded LUT: ${lut.title}`)
+  }
+
+  public getLUT(): CubeLUT | null {
+    return this.lut
+  }
+
+  // Size of the image in a canvas of width x height: the canvas itself, or the
+  // box of aspectRatio that fits inside it or covers it
+  public getContentSize(width: number, height: number): [number, number] {
+    const { aspectMode, aspectRatio } = this.options
+    if (aspectMode === 'stretch' || aspectRatio === undefined)
+      return [width, height]
+
+    // Whether the box is wider than the canvas, so it fits by width and covers by height
+    const wider = aspectRatio > width / height
+    const byWidth = aspectMode === 'fit' ? wider : !wider
+    const size: [number, number] = byWidth ? [width, width / aspectRatio] : [height * aspectRatio, height]
+    return [Math.max(1, Math.round(size[0])), Math.max(1, Math.round(size[1]))]
+  }
+
+  // Draw texture, holding the content-size image, to the whole canvas
+  public present(texture: WebGLTexture): void {
+    const gl = this.gl
+    const width = gl.canvas.width
+    const height = gl.canvas.height
+    const [contentWidth, contentHeight] = this.getContentSize(width, height)
+    const options = this.options
+
+    gl.bindFramebuffer(gl.FRAMEBUFFER, null)
+    gl.viewport(0, 0, width, height)
+
+    gl.activeTexture(gl.TEXTURE0)
+    gl.bindTexture(gl.TEXTURE_2D, texture)
+    gl.activeTexture(gl.TEXTURE0 + LUT_TEXTURE_UNIT)
+    gl.bindTexture(gl.TEXTURE_3D, this.lutTexture)
+
+    const program = this.program
+    program.use()
+    program.setUniform('u_texture', { type: 'sampler2D', value: 0 })
+    program.setUniform('u_lut', { type: 'sampler2D', value: LUT_TEXTURE_UNIT })
+    program.setUniform('u_contentScale', { type: 'vec2', value: [width / contentWidth, height / contentHeight] })
+    program.setUniform('u_background', { type: 'vec3', value: options.background })
+    program.setUniform('u_symmetry', { type: 'int', value: SYMMETRY_MODES.indexOf(options.symmetry) })
+    program.setUniform('u_segments', { type: 'float', value: options.segments })
+    program.setUniform('u_aspect', { type: 'float', value: contentWidth / contentHeight })
+    program.setUniform('u_exposure', { type: 'float', value: options.exposure })
+    program.setUniform('u_toneMapping', { type: 'int', value: TONE_MAPPINGS.indexOf(options.toneMapping) })
+    program.setUniform('u_brightness', { type: 'float', value: options.brightness })
+    program.setUniform('u_contrast', { type: 'float', value: options.contrast })
+    program.setUniform('u_saturation', { type: 'float', value: options.saturation })
+
+    const lut = this.lut
+    program.setUniform('u_lutEnabled', { type: 'int', value: lut ? 1 : 0 })
+    if (lut) {
+      program.setUniform('u_lutSize', { type: 'float', value: lut.size })
+      program.setUniform('u_lutDomainMin', { type: 'vec3', value: lut.domainMin })
+      program.setUniform('u_lutDomainMax', { type: 'vec3', value: lut.domainMax })
+      program.setUniform('u_lutIntensity', { type: 'float', value: options.lutIntensity })
+    }
+
+    this.fullscreenQuad.render()
+
+    gl.activeTexture(gl.TEXTURE0 + LUT_TEXTURE_UNIT)
+    gl.bindTexture(gl.TEXTURE_3D, null)
+    gl.activeTexture(gl.TEXTURE0)
+  }
+
+  public destroy(): void {
+    this.program.destroy()
+    if (this.lutTexture)
+      this.gl.deleteTexture(this.lutTexture)
+    this.lutTexture = null
+  }
+}
@@ -0,0 +1,264 @@
+import type { FullscreenQuad } from '../core/FullscreenQuad'
+import type { RenderTarget } from '../core/RenderTarget'
+import type { RenderTargetPool } from '../core/RenderTargetPool'
+import type { EffectParam, EffectStackEntry } from './effects'
+import type { AudioData } from './PresetRunner'
+import { Program } from '../core/Program'
+import { preprocessShader } from '../core/ShaderPreprocessor'
+import { BLOOM_SHADERS, DEFAULT_EFFECT_PARAMS, EFFECT_NAMES, EFFECT_SHADERS, getEffectName, resolveEffectParam, validateEffectParams } from './effects'
+
+// Unit 0 holds the effect's input and units 1-3 the audio textures
+const EXTRA_TEXTURE_UNIT = 4
+
+const MAX_BLOOM_LEVELS = 8
+
+type BloomPass = keyof typeof BLOOM_SHADERS
+
+interface EffectNode {
+  name: string
+  params: Record<string, EffectParam>
+  // One program per effect, or the bloom passes
+  program: Program | null
+  bloom: Record<BloomPass, Program> | null
+}
+
+// Post-processing passes run in order over a finished frame. Intermediate
+// images come from the shared pool, so frames don't allocate once it is warm.
+export class EffectStack {
+  private gl: WebGL2RenderingContext
+  private fullscreenQuad: FullscreenQuad
+  private pool: RenderTargetPool
+  private nodes: EffectNode[] = []
+
+  constructor(
+    gl: WebGL2RenderingContext,
+    fullscreenQuad: FullscreenQuad,
+    pool: RenderTargetPool,
+    entries: EffectStackEntry[],
+    vertexShader: string,
+  ) {
+    this.gl = gl
+    this.fullscreenQuad = fullscreenQuad
+    this.pool = pool
+
+    try {
+      for (const entry of entries) {
+        this.nodes.push(this.createNode(entry, vertexShader))
+      }
+    }
+    catch (error) {
+      this.destroy()
+      throw error
+    }
+  }
+
+  private createNode(entry: EffectStackEntry, vertexShader: string): EffectNode {
+    const effect = typeof entry === 'string' ? entry : entry.effect
+    const params = typeof entry === 'string' ? {} : entry.params ?? {}
+    const name = getEffectName(entry)
+    validateEffectParams(name, params)
+
+    if (typeof effect !== 'string') {
+      const { source } = preprocessShader(effect.fragment, { name: effect.name })
+      return { name, params, program: this.compile(name, vertexShader, source), bloom: null }
+    }
+
+    if (!EFFECT_NAMES.includes(effect)) {
+      throw new Error(`Unknown effect '${String(effect)}'`)
+    }
+
+    const defaults = DEFAULT_EFFECT_PARAMS[effect]
+    for (const param of Object.keys(params)) {
+      if (!(param in defaults))
+        throw new Error(`Effect '${effect}' has no parameter '${param}'`)
+    }
+
+    const node: EffectNode = { name, params: { ...defaults, ...params }, program: null, bloom: null }
+    if (effect === 'bloom') {
+      const bloom: Partial<Record<BloomPass, Program>> = {}
+      try {
+        for (const pass of Object.keys(BLOOM_SHADERS) as BloomPass[]) {
+          bloom[pass] = this.compile(`bloom ${pass}`, vertexShader, BLOOM_SHADERS[pass])
+        }
+      }
+      catch (error) {
+        Object.values(bloom).forEach(program => program.destroy())
+        throw error
+      }
+      node.bloom = bloom as Record<BloomPass, Program>
+    }
+    else {
+      node.program = this.compile(effect, vertexShader, EFFECT_SHADERS[effect])
+    }
+    return node
+  }
+
+  private compile(name: string, vertexShader: string, fragmentShader: string): Program {
+    try {
+      return new Program(this.gl, vertexShader, fragmentShader)
+    }
+    catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      throw new Error(`Effect '${name}': ${errorMessage}`)
+    }
+  }
+
+  public isEmpty(): boolean {
+    return this.nodes.length === 0
+  }
+
+  public getEffectNames(): string[] {
+    return this.nodes.map(node => node.name)
+  }
+
+  // Run every effect over input (width x height) and return the final texture.
+  // prepare sets the common and audio uniforms on each program. The texture
+  // belongs to the pool and is valid until its next acquire.
+  public render(
+    input: WebGLTexture,
+    width: number,
+    height: number,
+    audioData: AudioData,
+    prepare: (program: Program) => void,
+  ): WebGLTexture {
+    const gl = this.gl
+    let texture = input
+    let previous: RenderTarget | null = null
+
+    // Passes replace their target's contents rather than blending into them
+    gl.disable(gl.BLEND)
+
+    for (const node of this.nodes) {
+      const values = this.resolveParams(node, audioData)
+      const target = node.bloom
+        ? this.renderBloom(node.bloom, texture, width, height, values, prepare)
+        : this.renderPass(node.program as Program, texture, width, height, values, prepare)
+
+      if (previous)
+        this.pool.release(previous)
+      previous = target
+      texture = target.getTexture()
+    }
+
+    if (previous)
+      this.pool.release(previous)
+
+    gl.enable(gl.BLEND)
+    return texture
+  }
+
+  private resolveParams(node: EffectNode, audioData: AudioData): Record<string, number | number[]> {
+    const values: Record<string, number | number[]> = {}
+    for (const [name, param] of Object.entries(node.params)) {
+      values[name] = resolveEffectParam(param, audioData)
+    }
+    return values
+  }
+
+  private renderPass(
+    program: Program,
+    input: WebGLTexture,
+    width: number,
+    height: number,
+    values: Record<string, number | number[]>,
+    prepare: (program: Program) => void,
+    extra: Record<string, WebGLTexture> = {},
+  ): RenderTarget {
+    const gl = this.gl
+    const target = this.pool.acquire(width, height)
+
+    target.bind()
+    program.use()
+    prepare(program)
+
+    if (program.hasUniform('u_resolution'))
+      program.setUniform('u_resolution', { type: 'vec2', value: [width, height] })
+
+    for (const [name, value] of Object.entries(values)) {
+      const uniformName = `u_${name}`
+      if (!program.hasUniform(uniformName))
+        continue
+      if (typeof value === 'number')
+        program.setUniform(uniformName, { type: 'float', value })
+      else
+        program.setUniform(uniformName, { type: `vec${value.length}` as 'vec2' | 'vec3' | 'vec4', value })
+    }
+
+    gl.activeTexture(gl.TEXTURE0)
+    gl.bindTexture(gl.TEXTURE_2D, input)
+    program.setUniform('u_texture', { type: 'sampler2D', value: 0 })
+
+    Object.entries(extra).forEach(([name, texture], i) => {
+      gl.activeTexture(gl.TEXTURE0 + EXTRA_TEXTURE_UNIT + i)
+      gl.bindTexture(gl.TEXTURE_2D, texture)
+      program.setUniform(name, { type: 'sampler2D', value: EXTRA_TEXTURE_UNIT + i })
+    })
+
+    this.fullscreenQuad.render()
+    target.unbind()
+    return target
+  }
+
+  private renderBloom(
+    programs: NonNullable<EffectNode['bloom']>,
+    input: WebGLTexture,
+    width: number,
+    height: number,
+    values: Record<string, number | number[]>,
+    prepare: (program: Program) => void,
+  ): RenderTarget {
+    const levelCount = Math.min(MAX_BLOOM_LEVELS, Math.max(1, Math.round(values.levels as number)))
+
+    // Bright pass at half resolution, then halve until levelCount or a few pixels
+    const levels: Array<{ target: RenderTarget, width: number, height: number }> = []
+    let levelWidth = Math.max(1, Math.round(width / 2))
+    let levelHeight = Math.max(1, Math.round(height / 2))
+    levels.push({
+      target: this.renderPass(programs.prefilter, input, levelWidth, levelHeight, { ...values, texelSize: [1 / width, 1 / height] }, prepare),
+      width: levelWidth,
+      height: levelHeight,
+    })
+
+    while (levels.length < levelCount && levelWidth > 2 && levelHeight > 2) {
+      const source = levels[levels.length - 1]
+      levelWidth = Math.max(1, Math.round(levelWidth / 2))
+      levelHeight = Math.max(1, Math.round(levelHeight / 2))
+      levels.push({
+        target: this.renderPass(programs.downsample, source.target.getTexture(), levelWidth, levelHeight, { texelSize: [1 / source.width, 1 / source.height] }, prepare),
+        width: levelWidth,
+        height: levelHeight,
+      })
+    }
+
+    // Add each level into the next larger one on the way back up
+    let blurred = levels[levels.length - 1]
+    for (let i = levels.length - 2; i >= 0; i--) {
+      const base = levels[i]
+      const target = this.renderPass(
+        programs.upsample,
+        blurred.target.getTexture(),
+        base.width,
+        base.height,
+        { radius: values.radius, texelSize: [1 / blurred.width, 1 / blurred.height] },
+        prepare,
+        { u_base: base.target.getTexture() },
+      )
+      this.pool.release(blurred.target)
+      this.pool.release(base.target)
+      blurred = { target, width: base.width, height: base.height }
+    }
+
+    const output = this.renderPass(programs.composite, input, width, height, values, prepare, { u_bloom: blurred.target.getTexture() })
+    this.pool.release(blurred.target)
+    return output
+  }
+
+  public destroy(): void {
+    for (const node of this.nodes) {
+      node.program?.destroy()
+      if (node.bloom)
+        Object.values(node.bloom).forEach(program => program.destroy())
+    }
+    this.nodes = []
+  }
+}
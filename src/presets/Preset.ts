@@ -1,17 +1,99 @@
+import type { BandOptions } from '../audio/bands'
+import type { ShaderSourceMap } from '../core/ShaderSourceMap'
+import type { EffectStackEntry } from './effects'
+import type { MilkdropPresetData } from './milkdrop/MilkdropPreset'
+import type { ShaderDialect } from './shadertoy'
+
+export type PresetUniformType
+  = | 'float'
+    | 'int'
+    | 'bool'
+    | 'vec2'
+    | 'vec3'
+    | 'vec4'
+    | 'ivec2'
+    | 'ivec3'
+    | 'ivec4'
+    | 'mat2'
+    | 'mat3'
+    | 'mat4'
+    // A vec3 or vec4 in the shader, given as a hex string, HSV or 0-1 components
+    | 'color'
+
+// Hue in degrees, saturation and value from 0 to 1
+export interface HSVColor {
+  h: number
+  s: number
+  v: number
+  a?: number
+}
+
+// '#rgb', '#rgba', '#rrggbb' or '#rrggbbaa', HSV, or [r, g, b] / [r, g, b, a]
+export type ColorValue = string | HSVColor | number[]
+
+export interface PresetUniform {
+  type: PresetUniformType
+  // One number per component, matrices column-major; arrays hold every element
+  // back to back, or one colour per element for colour arrays
+  value: number | number[] | boolean | boolean[] | ColorValue | ColorValue[]
+  // Element count of an array uniform such as `uniform vec2 u_points[8]`
+  count?: number
+  min?: number
+  max?: number
+  step?: number
+  description?: string
+}
+
 export interface PresetUniforms {
-  [key: string]: {
-    type: 'float' | 'vec2' | 'vec3' | 'vec4'
-    value: number | number[]
-    min?: number
-    max?: number
-    step?: number
-    description?: string
-  }
+  [key: string]: PresetUniform
+}
+
+export type PassFormat = 'rgba8' | 'rgba16f' | 'rgba32f'
+
+// An offscreen pass. Every pass and the main shader can sample its latest
+// output as `uniform sampler2D u_<name>`.
+export interface PresetPass {
+  name: string
+  vertex?: string
+  fragment: string
+  fragmentSourceMap?: ShaderSourceMap
+  dialect?: ShaderDialect
+  // Shadertoy iChannel0-3: 'audio', 'spectrum', 'waveform', 'previousFrame', a pass name or a preset texture
+  channels?: string[]
+  // Resolution relative to the canvas (default 1)
+  scale?: number
+  format?: PassFormat
+}
+
+export type TextureSource = string | HTMLImageElement | HTMLVideoElement | MediaStream
+
+// An image or video the shaders sample as `uniform sampler2D u_<name>`, with its
+// size in pixels as `uniform vec2 u_<name>Resolution`
+export interface PresetTexture {
+  // A URL or data URI, an element, or a MediaStream such as a webcam
+  source: TextureSource
+  // How a URL is loaded (default: 'video' for common video extensions and data URIs, else 'image')
+  type?: 'image' | 'video'
+  wrap?: 'clamp' | 'repeat' | 'mirror'
+  filter?: 'linear' | 'nearest'
+  mipmap?: boolean
+  // Flip rows so the image is upright at v_texCoord (default: true)
+  flipY?: boolean
 }
 
 export interface PresetShaders {
   vertex?: string
+  // Main pass, drawn to the screen after every offscreen pass
   fragment: string
+  // Maps generated fragment lines back to their original source for error messages
+  fragmentSourceMap?: ShaderSourceMap
+  // 'shadertoy' wraps a mainImage() shader written against Shadertoy's inputs
+  dialect?: ShaderDialect
+  channels?: string[]
+  // Main pass buffer, including the feedback read through u_previousFrame; float
+  // formats keep slow fades from banding and let colors exceed 1 for tone mapping
+  format?: PassFormat
+  passes?: PresetPass[]
 }
 
 export interface PresetMetadata {
@@ -21,6 +103,8 @@ export interface PresetMetadata {
   version?: string
   tags?: string[]
   createdAt?: string
+  // Band layout for u_bands and u_band[N]; defaults to the analyzer's own
+  bands?: BandOptions
 }
 
 export interface Preset {
@@ -28,6 +112,15 @@ export interface Preset {
   shaders: PresetShaders
   uniforms?: PresetUniforms
 
+  // Source data for presets imported from Milkdrop or Butterchurn
+  milkdrop?: MilkdropPresetData
+
+  // Post-processing for this preset in place of the visualizer's; [] turns it off
+  effects?: EffectStackEntry[]
+
+  // Images, videos and streams by uniform name; Shadertoy passes can also list them as channels
+  textures?: Record<string, PresetTexture>
+
   // Optional initialization and update functions
   init?: (gl: WebGL2RenderingContext) => void
   update?: (audioData: any, time: number, frame: number) => void
@@ -52,6 +145,21 @@ export class PresetBuilder {
     return this
   }
 
+  public setMilkdrop(milkdrop: MilkdropPresetData): this {
+    this.preset.milkdrop = milkdrop
+    return this
+  }
+
+  public setTextures(textures: Record<string, PresetTexture>): this {
+    this.preset.textures = textures
+    return this
+  }
+
+  public setEffects(effects: EffectStackEntry[]): this {
+    this.preset.effects = effects
+    return this
+  }
+
   public setInitFunction(init: (gl: WebGL2RenderingContext) => void): this {
     this.preset.init = init
     return this
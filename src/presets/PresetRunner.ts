@@ -1,46 +1,178 @@
+import type { OnsetName } from '../audio/beatStrategies'
+import type { AudioLevel } from '../audio/levels'
+import type { TempoData } from '../audio/TempoTracker'
+import type { Clock } from '../core/Clock'
 import type { GLContext } from '../core/GLContext'
-import type { Preset } from './Preset'
+import type { ShaderDiagnostic } from '../core/ShaderCompileError'
+import type { CompositorOptions } from './Compositor'
+import type { CubeLUT } from './cubeLUT'
+import type { EffectStackEntry } from './effects'
+import type { Preset, PresetUniform, PresetUniforms } from './Preset'
+import type { LoadedTextureSource } from './PresetTextures'
+import type { GraphTexture } from './RenderGraph'
+import type { ToneMapping, ToneMappingOptions } from './toneMapping'
+import type { TransitionOptions } from './transitions'
+import type { UniformBinding } from './uniforms'
+import { BandAnalyzer } from '../audio/bands'
+import { realtimeClock } from '../core/Clock'
 import { FullscreenQuad } from '../core/FullscreenQuad'
-import { PingPongFBO } from '../core/PingPongFBO'
+import { logger } from '../core/logger'
 import { Program } from '../core/Program'
+import { RenderTarget } from '../core/RenderTarget'
+import { RenderTargetPool } from '../core/RenderTargetPool'
+import { ShaderCompileError } from '../core/ShaderCompileError'
+import { fallback } from './builtins/fallback'
+import { Compositor } from './Compositor'
+import { EffectStack } from './EffectStack'
+import { MEGABUF_SIZE } from './milkdrop/eel/compiler'
+import { MilkdropEquationRunner } from './milkdrop/MilkdropEquationRunner'
+import { loadTextureSources, PresetTextures, releaseTextureSource } from './PresetTextures'
+import { RenderGraph } from './RenderGraph'
+import { createShadertoyAudioData, SHADERTOY_AUDIO_WIDTH } from './shadertoy'
+import { DEFAULT_TRANSITION_DURATION, getTransitionShader } from './transitions'
+import { bindPresetUniforms, validatePresetUniforms } from './uniforms'
+
+// What loadPreset shows when a preset fails to load: nothing, the preset
+// that was already running, or the fallback preset
+export type PresetErrorMode = 'blank' | 'keep' | 'fallback'
+
+export interface LoadPresetOptions extends TransitionOptions {
+  onError?: PresetErrorMode
+}
+
+export interface PresetLoadResult {
+  success: boolean
+  error?: Error
+  // Parsed compiler output when a shader failed to build
+  diagnostics: ShaderDiagnostic[]
+}
+
+export interface PresetRunnerOptions extends ToneMappingOptions {
+  // Source of preset time, transitions and u_date
+  clock?: Clock
+  // Random numbers for Milkdrop's rand() and rand_preset/rand_frame
+  random?: () => number
+  // Milkdrop's gmegabuf; by default the runner allocates its own on first use
+  gmegabuf?: Float64Array
+  // Post-processing run over every preset that doesn't bring its own
+  effects?: EffectStackEntry[]
+  // Output stage settings; toneMapping and exposure above are shorthands for these
+  compositor?: CompositorOptions
+}
 
 export interface AudioData {
   spectrum: Uint8Array
   waveform: Uint8Array
+  // Present in float mode; uploaded instead of the byte data
+  floatSpectrum?: Float32Array
+  floatWaveform?: Float32Array
+  // Rate the spectrum was analyzed at (default: 44100)
+  sampleRate?: number
+  // Analyzer bands, used by presets that do not set their own layout
+  bands?: Float32Array
+  bandPeaks?: Float32Array
   energy: number
   beat: boolean
+  // Drum onsets this frame and the onset strength envelope, from the beat detector
+  onsets?: Record<OnsetName, boolean>
+  onsetStrength?: number
+  // Estimated tempo and phase, when a tempo tracker is running
+  tempo?: TempoData
   bass: number
   treble: number
+  // Named frequency ranges (bass, mid, treb by default) with Milkdrop-style smoothing
+  levels?: Record<string, AudioLevel>
+}
+
+// A loaded preset with its own passes, feedback buffers and timeline
+interface PresetInstance {
+  preset: Preset
+  graph: RenderGraph
+  equationRunner: MilkdropEquationRunner | null
+  // Values the shaders get: the preset's, or the equation runner's copy
+  uniforms: PresetUniforms
+  // Setters for the declared uniforms each pass uses, resolved at load
+  uniformBindings: Map<Program, UniformBinding[]>
+  // Presets with their own band layout compute bands from the spectrum
+  bandAnalyzer: BandAnalyzer | null
+  // The preset's own post-processing, replacing the runner's
+  effects: EffectStack | null
+  textures: PresetTextures | null
+  startTime: number
+  lastTime: number
+  frameCount: number
+}
+
+interface ActiveTransition {
+  from: PresetInstance
+  program: Program
+  startTime: number
+  duration: number
 }
 
 export class PresetRunner {
   private glContext: GLContext
   private gl: WebGL2RenderingContext
   private fullscreenQuad: FullscreenQuad
-  private pingPongFBO: PingPongFBO
-  private currentProgram: Program | null = null
-  private currentPreset: Preset | null = null
+  private compositor: Compositor
+  // Transitions blend into this before presenting, so tone mapping sees the unclipped blend
+  private transitionTarget: RenderTarget | null = null
+  private effects: EffectStack | null = null
+  private effectEntries: EffectStackEntry[] = []
+  // Intermediate images for every effect stack
+  private effectPool: RenderTargetPool
+  private current: PresetInstance | null = null
+  private transition: ActiveTransition | null = null
+  private fallbackPreset: Preset = fallback
+  private clock: Clock
+  private random: () => number
+  // Milkdrop's gmegabuf, shared by every preset this runner loads
+  private gmegabuf: Float64Array | null
 
-  private startTime = performance.now()
-  private frameCount = 0
   private audioTexture: WebGLTexture | null = null
   private spectrumTexture: WebGLTexture | null = null
+  private shadertoyAudioTexture: WebGLTexture | null = null
+  private shadertoyAudioData = new Uint8Array(SHADERTOY_AUDIO_WIDTH * 2)
+  // Band levels in row 0 and peaks in row 1
+  private bandsTexture: WebGLTexture | null = null
+  private bandsData = new Float32Array(0)
+  private bandCount = 0
+  private spectrumLength = 0
+  private waveformLength = 0
+
+  // Shadertoy iMouse: xy while dragging, zw where the drag started (negated once released)
+  private mouse: number[] = [0, 0, 0, 0]
 
-  constructor(glContext: GLContext) {
+  // Canvas size, and the fraction of it presets render at before upscaling
+  private width: number
+  private height: number
+  private renderScale = 1
+
+  // Set while the WebGL context is lost; presets loaded meanwhile are built on restore
+  private contextLost = false
+  private pendingPreset: { preset: Preset, options: LoadPresetOptions } | null = null
+
+  // Bumped by every load, so an async load that finishes after a newer one is dropped
+  private loadId = 0
+
+  constructor(glContext: GLContext, options: PresetRunnerOptions = {}) {
     this.glContext = glContext
     this.gl = glContext.gl
+    this.width = this.gl.canvas.width
+    this.height = this.gl.canvas.height
+    this.clock = options.clock ?? realtimeClock
+    this.random = options.random ?? Math.random
+    this.gmegabuf = options.gmegabuf ?? null
     this.fullscreenQuad = new FullscreenQuad(this.gl)
-
-    // Create ping-pong framebuffer for feedback effects
-    this.pingPongFBO = new PingPongFBO(this.gl, {
-      width: this.gl.canvas.width,
-      height: this.gl.canvas.height,
-      format: this.gl.RGBA,
-      type: this.gl.UNSIGNED_BYTE,
-      filter: this.gl.LINEAR,
+    this.compositor = new Compositor(this.gl, this.fullscreenQuad, this.getDefaultVertexShader(), {
+      toneMapping: options.toneMapping,
+      exposure: options.exposure,
+      ...options.compositor,
     })
 
+    this.effectPool = this.createEffectPool()
     this.initializeAudioTextures()
+    this.setEffects(options.effects ?? [])
   }
 
   private initializeAudioTextures(): void {
@@ -56,7 +188,7 @@ export class PresetRunner {
       gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
     }
     catch (error) {
-      console.error('Failed to create spectrum texture:', error)
+      logger.error('Failed to create spectrum texture:', error)
       this.spectrumTexture = null
     }
 
@@ -71,92 +203,433 @@ export class PresetRunner {
       gl.bindTexture(gl.TEXTURE_2D, null)
     }
     catch (error) {
-      console.error('Failed to create audio texture:', error)
+      logger.error('Failed to create audio texture:', error)
       this.audioTexture = null
     }
+
+    // Create texture for Shadertoy's 512x2 spectrum + waveform layout
+    try {
+      this.shadertoyAudioTexture = gl.createTexture()
+      gl.bindTexture(gl.TEXTURE_2D, this.shadertoyAudioTexture)
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR)
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR)
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+      gl.bindTexture(gl.TEXTURE_2D, null)
+    }
+    catch (error) {
+      logger.error('Failed to create Shadertoy audio texture:', error)
+      this.shadertoyAudioTexture = null
+    }
+
+    // Create texture for frequency bands
+    try {
+      this.bandsTexture = gl.createTexture()
+      gl.bindTexture(gl.TEXTURE_2D, this.bandsTexture)
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, gl.LINEAR)
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, gl.LINEAR)
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, gl.CLAMP_TO_EDGE)
+      gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, gl.CLAMP_TO_EDGE)
+      gl.bindTexture(gl.TEXTURE_2D, null)
+    }
+    catch (error) {
+      logger.error('Failed to create bands texture:', error)
+      this.bandsTexture = null
+    }
+  }
+
+  // Textures that are still loading show as black until they arrive; use
+  // loadPresetAsync to wait for them
+  public loadPreset(preset: Preset, options: LoadPresetOptions = {}): PresetLoadResult {
+    this.loadId++
+    return this.activatePreset(preset, options)
+  }
+
+  // Load the preset's textures, then switch to it. Resolves to a failure if a
+  // texture fails to load or another preset was loaded in the meantime.
+  public async loadPresetAsync(preset: Preset, options: LoadPresetOptions = {}): Promise<PresetLoadResult> {
+    const loadId = ++this.loadId
+    if (!preset.textures)
+      return this.activatePreset(preset, options)
+
+    let sources: Record<string, LoadedTextureSource>
+    try {
+      sources = await loadTextureSources(preset.textures)
+    }
+    catch (error) {
+      if (loadId !== this.loadId)
+        return { success: false, error: new Error(`Loading '${preset.metadata.name}' was superseded`), diagnostics: [] }
+      return this.failLoad(preset, options, error)
+    }
+
+    if (loadId !== this.loadId) {
+      Object.values(sources).forEach(releaseTextureSource)
+      return { success: false, error: new Error(`Loading '${preset.metadata.name}' was superseded`), diagnostics: [] }
+    }
+    return this.activatePreset(preset, options, sources)
+  }
+
+  private activatePreset(preset: Preset, options: LoadPresetOptions, sources?: Record<string, LoadedTextureSource>): PresetLoadResult {
+    if (this.contextLost) {
+      // Nothing can be compiled until the context is back; restoreContext reports errors
+      Object.values(sources ?? {}).forEach(releaseTextureSource)
+      this.pendingPreset = { preset, options }
+      return { success: true, diagnostics: [] }
+    }
+
+    let instance: PresetInstance
+    try {
+      instance = this.createInstance(preset, sources)
+    }
+    catch (error) {
+      Object.values(sources ?? {}).forEach(releaseTextureSource)
+      return this.failLoad(preset, options, error)
+    }
+
+    // A switch during a transition cuts the oldest preset and blends from the incoming one
+    this.finishTransition()
+
+    const previous = this.current
+    this.current = instance
+    logger.info(`Loaded preset: ${preset.metadata.name} by ${preset.metadata.author}`)
+
+    if (!previous)
+      return { success: true, diagnostics: [] }
+
+    const duration = options.duration ?? DEFAULT_TRANSITION_DURATION
+    if (options.transition === undefined || duration <= 0) {
+      this.destroyInstance(previous)
+      return { success: true, diagnostics: [] }
+    }
+
+    try {
+      const program = new Program(this.gl, this.getDefaultVertexShader(), getTransitionShader(options.transition))
+      this.transition = { from: previous, program, startTime: this.clock.now(), duration }
+    }
+    catch (error) {
+      logger.error('Failed to create transition, switching immediately:', error)
+      this.destroyInstance(previous)
+    }
+
+    return { success: true, diagnostics: [] }
+  }
+
+  private failLoad(preset: Preset, options: LoadPresetOptions, error: unknown): PresetLoadResult {
+    logger.error('Failed to load preset:', error)
+    this.recoverFromLoadError(preset, options)
+
+    return {
+      success: false,
+      error: error instanceof Error ? error : new Error(String(error)),
+      diagnostics: error instanceof ShaderCompileError ? error.diagnostics : [],
+    }
+  }
+
+  private recoverFromLoadError(preset: Preset, options: LoadPresetOptions): void {
+    const mode = options.onError ?? 'blank'
+
+    if (mode === 'keep' && this.current) {
+      logger.warn(`Keeping '${this.current.preset.metadata.name}' running`)
+      return
+    }
+
+    // The fallback gets no fallback of its own
+    if (mode === 'fallback' && preset !== this.fallbackPreset) {
+      logger.warn(`Switching to fallback preset '${this.fallbackPreset.metadata.name}'`)
+      this.loadPreset(this.fallbackPreset, { ...options, onError: 'blank' })
+      return
+    }
+
+    this.finishTransition()
+    if (this.current) {
+      this.destroyInstance(this.current)
+      this.current = null
+    }
   }
 
-  public loadPreset(preset: Preset): void {
-    // Clean up previous preset
-    if (this.currentPreset?.destroy) {
-      this.currentPreset.destroy()
+  // Preset shown by loadPreset(..., { onError: 'fallback' }) when loading fails
+  public setFallbackPreset(preset: Preset): void {
+    this.fallbackPreset = preset
+  }
+
+  public getFallbackPreset(): Preset {
+    return this.fallbackPreset
+  }
+
+  // Pointer position in canvas pixels from the bottom-left corner
+  public setMouse(x: number, y: number, pressed: boolean): void {
+    // Relative to the image, which is centered in the canvas
+    const [width, height] = this.compositor.getContentSize(this.width, this.height)
+    x = Math.min(Math.max(x - (this.width - width) / 2, 0), width)
+    y = Math.min(Math.max(y - (this.height - height) / 2, 0), height)
+
+    if (pressed) {
+      if (this.mouse[2] <= 0) {
+        this.mouse[2] = x
+        this.mouse[3] = y
+      }
+      this.mouse[0] = x
+      this.mouse[1] = y
     }
+    else {
+      this.mouse[2] = -Math.abs(this.mouse[2])
+      this.mouse[3] = -Math.abs(this.mouse[3])
+    }
+  }
 
-    if (this.currentProgram) {
-      this.currentProgram.destroy()
-      this.currentProgram = null
+  public isTransitioning(): boolean {
+    return this.transition !== null
+  }
+
+  private getGmegabuf(): Float64Array {
+    if (!this.gmegabuf) {
+      this.gmegabuf = new Float64Array(MEGABUF_SIZE)
     }
+    return this.gmegabuf
+  }
+
+  private createInstance(preset: Preset, sources?: Record<string, LoadedTextureSource>): PresetInstance {
+    // Checked before any GPU resources are created
+    const bandAnalyzer = preset.metadata.bands ? new BandAnalyzer(preset.metadata.bands) : null
+    validatePresetUniforms(preset.uniforms ?? {})
 
-    this.currentPreset = preset
+    // Milkdrop presets drive their uniforms from EEL equations
+    const equationRunner = preset.milkdrop
+      ? new MilkdropEquationRunner(preset.milkdrop, preset.uniforms, this.random, this.getGmegabuf())
+      : null
+    const uniforms = equationRunner?.getUniforms() ?? preset.uniforms ?? {}
+
+    const textures = preset.textures ? new PresetTextures(this.gl, preset.textures, sources) : null
+
+    // Each preset gets its own buffers so two can render during a transition
+    const [width, height] = this.getRenderSize()
+    let graph: RenderGraph
+    try {
+      graph = new RenderGraph(this.glContext, this.fullscreenQuad, preset.shaders, this.getDefaultVertexShader(), width, height, textures?.getNames())
+    }
+    catch (error) {
+      textures?.destroy()
+      throw error
+    }
+    let effects: EffectStack | null = null
+    let uniformBindings: Map<Program, UniformBinding[]>
 
     try {
-      // Create shader program
-      const vertexShader = preset.shaders.vertex ?? this.getDefaultVertexShader()
-      const fragmentShader = preset.shaders.fragment
+      uniformBindings = this.bindUniforms(graph, uniforms)
 
-      this.currentProgram = new Program(this.gl, vertexShader, fragmentShader)
+      if (preset.effects)
+        effects = this.createEffectStack(preset.effects)
 
       // Initialize preset if it has an init function
       if (preset.init) {
         preset.init(this.gl)
       }
+    }
+    catch (error) {
+      graph.destroy()
+      effects?.destroy()
+      textures?.destroy()
+      throw error
+    }
+
+    return {
+      preset,
+      graph,
+      equationRunner,
+      uniforms,
+      uniformBindings,
+      bandAnalyzer,
+      effects,
+      textures,
+      startTime: this.clock.now(),
+      lastTime: 0,
+      frameCount: 0,
+    }
+  }
+
+  // Declarations that disagree with the GLSL throw here rather than misbehaving every frame
+  private bindUniforms(graph: RenderGraph, uniforms: PresetUniforms): Map<Program, UniformBinding[]> {
+    const bindings = new Map<Program, UniformBinding[]>()
+
+    for (const { name, program } of graph.getPasses()) {
+      try {
+        bindings.set(program, bindPresetUniforms(program, uniforms))
+      }
+      catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error)
+        throw new Error(`Pass '${name}': ${errorMessage}`)
+      }
+    }
+    return bindings
+  }
+
+  // GPU handles are dead once the context is lost, so nothing renders until restoreContext
+  public handleContextLost(): void {
+    this.contextLost = true
+  }
 
-      // Reset timing
-      this.startTime = performance.now()
-      this.frameCount = 0
+  // Rebuild every GPU resource after the context is restored and run the current
+  // preset's init again. Preset time carries on; feedback buffers start out black,
+  // and a transition in progress is cut.
+  public restoreContext(): PresetLoadResult {
+    this.contextLost = false
 
-      console.log(`Loaded preset: ${preset.metadata.name} by ${preset.metadata.author}`)
+    // Old handles belong to the lost context; they are dropped, not deleted
+    this.transition?.from.preset.destroy?.()
+    this.transition?.from.textures?.release()
+    this.transition = null
+    this.transitionTarget = null
+    this.fullscreenQuad = new FullscreenQuad(this.gl)
+    const lut = this.compositor.getLUT()
+    this.compositor = new Compositor(this.gl, this.fullscreenQuad, this.getDefaultVertexShader(), this.compositor.getOptions())
+    this.compositor.setLUT(lut)
+    this.effectPool = this.createEffectPool()
+    this.initializeAudioTextures()
+    try {
+      this.effects = this.createEffectStack(this.effectEntries)
+    }
+    catch (error) {
+      logger.error('Failed to restore effects:', error)
+      this.effects = null
+    }
+
+    const pending = this.pendingPreset
+    this.pendingPreset = null
+    const restored = this.restoreCurrent()
+
+    // The current preset is back first, so the pending load can transition from
+    // it or keep it running on error as its options ask
+    return pending ? this.loadPreset(pending.preset, pending.options) : restored
+  }
+
+  private restoreCurrent(): PresetLoadResult {
+    const current = this.current
+    this.current = null
+    if (!current)
+      return { success: true, diagnostics: [] }
+
+    const [width, height] = this.getRenderSize()
+    let graph: RenderGraph | null = null
+    let effects: EffectStack | null = null
+    try {
+      // Loaded images and videos are kept and uploaded again
+      current.textures?.restore()
+      graph = new RenderGraph(this.glContext, this.fullscreenQuad, current.preset.shaders, this.getDefaultVertexShader(), width, height, current.textures?.getNames())
+      current.uniformBindings = this.bindUniforms(graph, current.uniforms)
+      if (current.preset.effects)
+        effects = this.createEffectStack(current.preset.effects)
+      current.preset.init?.(this.gl)
     }
     catch (error) {
-      console.error('Failed to load preset:', error)
-      this.currentPreset = null
+      graph?.destroy()
+      effects?.destroy()
+      current.textures?.destroy()
+      logger.error('Failed to restore preset:', error)
+
+      return {
+        success: false,
+        error: error instanceof Error ? error : new Error(String(error)),
+        diagnostics: error instanceof ShaderCompileError ? error.diagnostics : [],
+      }
     }
+
+    current.graph = graph
+    current.effects = effects
+    this.current = current
+    return { success: true, diagnostics: [] }
   }
 
-  public render(audioData: AudioData): void {
-    if (!this.currentProgram || !this.currentPreset) {
+  // The preset on screen, or the one waiting for the context to be restored
+  public getPreset(): Preset | null {
+    return this.pendingPreset?.preset ?? this.current?.preset ?? null
+  }
+
+  private destroyInstance(instance: PresetInstance): void {
+    if (instance.preset.destroy) {
+      instance.preset.destroy()
+    }
+
+    instance.graph.destroy()
+    instance.effects?.destroy()
+    instance.textures?.destroy()
+  }
+
+  private finishTransition(): void {
+    if (!this.transition)
+      return
+
+    this.destroyInstance(this.transition.from)
+    this.transition.program.destroy()
+    this.transition = null
+    this.transitionTarget?.destroy()
+    this.transitionTarget = null
+  }
+
+  // With deltaTime (seconds, e.g. from RenderLoop) preset time advances by it, so
+  // it stands still while rendering is paused; otherwise it follows the clock
+  public render(audioData: AudioData, deltaTime?: number): void {
+    if (this.contextLost)
+      return
+
+    const current = this.current
+    if (!current) {
       this.renderBlank()
       return
     }
 
-    const currentTime = (performance.now() - this.startTime) / 1000
-
     // Update audio textures
     this.updateAudioTextures(audioData)
 
-    // Call preset update function if it exists
-    if (this.currentPreset.update) {
-      this.currentPreset.update(audioData, currentTime, this.frameCount)
+    const transition = this.transition
+    if (transition) {
+      const progress = (this.clock.now() - transition.startTime) / 1000 / transition.duration
+      if (progress >= 1) {
+        this.finishTransition()
+      }
+      else {
+        this.renderInstance(transition.from, audioData, deltaTime)
+        this.renderInstance(current, audioData, deltaTime)
+        const blended = this.compositeTransition(transition, current, progress)
+        this.present(this.applyEffects(current, blended, audioData, deltaTime ?? 0))
+        return
+      }
     }
 
-    // Bind framebuffer for rendering
-    this.pingPongFBO.bind()
-
-    // Use the shader program
-    this.currentProgram.use()
+    this.renderInstance(current, audioData, deltaTime)
 
-    // Set common uniforms
-    this.setCommonUniforms(audioData, currentTime)
-
-    // Set preset-specific uniforms
-    this.setPresetUniforms()
+    this.present(this.applyEffects(current, current.graph.getOutputTexture(), audioData, deltaTime ?? 0))
+  }
 
-    // Bind textures
-    this.bindTextures()
+  private renderInstance(instance: PresetInstance, audioData: AudioData, frameTime?: number): void {
+    const currentTime = frameTime !== undefined && instance.frameCount > 0
+      ? instance.lastTime + frameTime
+      : (this.clock.now() - instance.startTime) / 1000
+    const deltaTime = instance.frameCount === 0 ? 0 : currentTime - instance.lastTime
+    instance.lastTime = currentTime
 
-    // Render fullscreen quad
-    this.fullscreenQuad.render()
+    // Call preset update function if it exists
+    if (instance.preset.update) {
+      instance.preset.update(audioData, currentTime, instance.frameCount)
+    }
 
-    // Unbind framebuffer
-    this.pingPongFBO.unbind()
+    // Run Milkdrop per-frame equations
+    if (instance.equationRunner) {
+      const [width, height] = this.getRenderSize()
+      instance.equationRunner.update(audioData, currentTime, instance.frameCount, width, height)
+    }
 
-    // Copy result to screen
-    this.copyToScreen()
+    const bands = this.updateBands(instance, audioData, deltaTime)
+    instance.textures?.update()
 
-    // Swap ping-pong buffers
-    this.pingPongFBO.swap()
+    // Render every pass of the preset into its buffers
+    instance.graph.render((program, firstFreeUnit) => {
+      this.setCommonUniforms(program, instance, audioData, bands, currentTime, deltaTime)
+      this.setPresetUniforms(program, instance)
+      this.bindTextures(program)
+      instance.textures?.bind(program, firstFreeUnit)
+    }, { ...this.getSharedTextures(), ...instance.textures?.getGraphTextures() })
 
-    this.frameCount++
+    instance.frameCount++
   }
 
   private updateAudioTextures(audioData: AudioData): void {
@@ -165,125 +638,324 @@ export class PresetRunner {
     // Update spectrum texture (1D texture stored as 2D)
     if (this.spectrumTexture !== null && audioData.spectrum.length > 0) {
       gl.bindTexture(gl.TEXTURE_2D, this.spectrumTexture)
-      gl.texImage2D(
-        gl.TEXTURE_2D,
-        0,
-        gl.R8,
-        audioData.spectrum.length,
-        1,
-        0,
-        gl.RED,
-        gl.UNSIGNED_BYTE,
-        audioData.spectrum,
-      )
+      this.uploadAudioRow(audioData.spectrum, audioData.floatSpectrum)
     }
 
     // Update waveform texture
     if (this.audioTexture !== null && audioData.waveform.length > 0) {
       gl.bindTexture(gl.TEXTURE_2D, this.audioTexture)
+      this.uploadAudioRow(audioData.waveform, audioData.floatWaveform)
+    }
+
+    // Update Shadertoy audio texture
+    if (this.shadertoyAudioTexture !== null) {
+      createShadertoyAudioData(audioData.spectrum, audioData.waveform, this.shadertoyAudioData)
+      gl.bindTexture(gl.TEXTURE_2D, this.shadertoyAudioTexture)
       gl.texImage2D(
         gl.TEXTURE_2D,
         0,
         gl.R8,
-        audioData.waveform.length,
-        1,
+        SHADERTOY_AUDIO_WIDTH,
+        2,
         0,
         gl.RED,
         gl.UNSIGNED_BYTE,
-        audioData.waveform,
+        this.shadertoyAudioData,
       )
     }
 
+    this.spectrumLength = audioData.spectrum.length
+    this.waveformLength = audioData.waveform.length
+
     gl.bindTexture(gl.TEXTURE_2D, null)
   }
 
-  private setCommonUniforms(audioData: AudioData, time: number): void {
-    if (!this.currentProgram)
-      return
+  // Float data goes up as R32F where it can be filtered, else R16F, which always can
+  private getFloatTextureFormat(): number {
+    return this.glContext.hasExtension('OES_texture_float_linear') ? this.gl.R32F : this.gl.R16F
+  }
+
+  private uploadAudioRow(bytes: Uint8Array, floats: Float32Array | undefined): void {
+    const gl = this.gl
+
+    if (floats) {
+      gl.texImage2D(gl.TEXTURE_2D, 0, this.getFloatTextureFormat(), floats.length, 1, 0, gl.RED, gl.FLOAT, floats)
+    }
+    else {
+      gl.texImage2D(gl.TEXTURE_2D, 0, gl.R8, bytes.length, 1, 0, gl.RED, gl.UNSIGNED_BYTE, bytes)
+    }
+  }
+
+  // Band levels for this preset, from its own band layout or the analyzer's
+  private updateBands(instance: PresetInstance, audioData: AudioData, deltaTime: number): Float32Array {
+    let values = audioData.bands ?? new Float32Array(0)
+    let peaks = audioData.bandPeaks ?? values
+
+    if (instance.bandAnalyzer) {
+      const spectrum = audioData.floatSpectrum ?? audioData.spectrum
+      instance.bandAnalyzer.update(spectrum, audioData.sampleRate ?? 44100, audioData.floatSpectrum ? 1 : 255, deltaTime)
+      values = instance.bandAnalyzer.getValues()
+      peaks = instance.bandAnalyzer.getPeaks()
+    }
+
+    const count = values.length
+    if (this.bandsTexture !== null && count > 0) {
+      if (this.bandsData.length !== count * 2)
+        this.bandsData = new Float32Array(count * 2)
+      this.bandsData.set(values)
+      this.bandsData.set(peaks.subarray(0, count), count)
+
+      const gl = this.gl
+      gl.bindTexture(gl.TEXTURE_2D, this.bandsTexture)
+      gl.texImage2D(gl.TEXTURE_2D, 0, this.getFloatTextureFormat(), count, 2, 0, gl.RED, gl.FLOAT, this.bandsData)
+      gl.bindTexture(gl.TEXTURE_2D, null)
+    }
 
+    this.bandCount = count
+    return values
+  }
+
+  // Runner-owned textures that Shadertoy channels can name
+  private getSharedTextures(): Record<string, GraphTexture> {
+    return {
+      audio: { texture: this.shadertoyAudioTexture, width: SHADERTOY_AUDIO_WIDTH, height: 2 },
+      spectrum: { texture: this.spectrumTexture, width: this.spectrumLength, height: 1 },
+      waveform: { texture: this.audioTexture, width: this.waveformLength, height: 1 },
+      bands: { texture: this.bandsTexture, width: this.bandCount, height: 2 },
+    }
+  }
+
+  private setCommonUniforms(program: Program, instance: PresetInstance, audioData: AudioData, bands: Float32Array, time: number, deltaTime: number): void {
     // Time and frame uniforms
-    if (this.currentProgram.hasUniform('u_time'))
-      this.currentProgram.setUniform('u_time', { type: 'float', value: time })
+    if (program.hasUniform('u_time'))
+      program.setUniform('u_time', { type: 'float', value: time })
+
+    if (program.hasUniform('u_deltaTime'))
+      program.setUniform('u_deltaTime', { type: 'float', value: deltaTime })
+
+    if (program.hasUniform('u_frame'))
+      program.setUniform('u_frame', { type: 'int', value: instance.frameCount })
+
+    // Every channel plays along with the preset, so each reads the preset's time
+    if (program.hasUniform('u_channelTime'))
+      program.setUniform('u_channelTime', { type: 'float', value: [time, time, time, time] })
 
-    if (this.currentProgram.hasUniform('u_frame'))
-      this.currentProgram.setUniform('u_frame', { type: 'int', value: this.frameCount })
+    // u_resolution is set per pass by the render graph
 
-    // Resolution
-    if (this.currentProgram.hasUniform('u_resolution')) {
-      const canvas = this.gl.canvas
-      this.currentProgram.setUniform('u_resolution', {
-        type: 'vec2',
-        value: [canvas.width, canvas.height],
-      })
+    if (program.hasUniform('u_mouse'))
+      program.setUniform('u_mouse', { type: 'vec4', value: this.mouse.map(value => value * this.renderScale) })
+
+    // Year, month (from 0), day and seconds since midnight, as Shadertoy's iDate
+    if (program.hasUniform('u_date')) {
+      const now = this.clock.date()
+      const seconds = now.getHours() * 3600 + now.getMinutes() * 60 + now.getSeconds() + now.getMilliseconds() / 1000
+      program.setUniform('u_date', { type: 'vec4', value: [now.getFullYear(), now.getMonth(), now.getDate(), seconds] })
     }
 
     // Audio uniforms - only set if they exist in the shader
-    if (this.currentProgram.hasUniform('u_energy'))
-      this.currentProgram.setUniform('u_energy', { type: 'float', value: audioData.energy })
+    // Each range sets u_<name>, u_<name>Rel and u_<name>Att; the built-ins below take precedence
+    for (const [name, level] of Object.entries(audioData.levels ?? {})) {
+      if (program.hasUniform(`u_${name}`))
+        program.setUniform(`u_${name}`, { type: 'float', value: level.value })
+      if (program.hasUniform(`u_${name}Rel`))
+        program.setUniform(`u_${name}Rel`, { type: 'float', value: level.relative })
+      if (program.hasUniform(`u_${name}Att`))
+        program.setUniform(`u_${name}Att`, { type: 'float', value: level.att })
+    }
 
-    if (this.currentProgram.hasUniform('u_bass'))
-      this.currentProgram.setUniform('u_bass', { type: 'float', value: audioData.bass })
+    if (program.hasUniform('u_energy'))
+      program.setUniform('u_energy', { type: 'float', value: audioData.energy })
 
-    if (this.currentProgram.hasUniform('u_treble'))
-      this.currentProgram.setUniform('u_treble', { type: 'float', value: audioData.treble })
+    if (program.hasUniform('u_bass'))
+      program.setUniform('u_bass', { type: 'float', value: audioData.bass })
 
-    if (this.currentProgram.hasUniform('u_beat'))
-      this.currentProgram.setUniform('u_beat', { type: 'int', value: audioData.beat ? 1 : 0 })
-  }
+    if (program.hasUniform('u_treble'))
+      program.setUniform('u_treble', { type: 'float', value: audioData.treble })
 
-  private setPresetUniforms(): void {
-    if (!this.currentProgram || !this.currentPreset?.uniforms)
-      return
+    if (program.hasUniform('u_beat'))
+      program.setUniform('u_beat', { type: 'int', value: audioData.beat ? 1 : 0 })
 
-    for (const [name, uniform] of Object.entries(this.currentPreset.uniforms)) {
-      const uniformName = `u_${name}`
-      if (this.currentProgram.hasUniform(uniformName)) {
-        this.currentProgram.setUniform(uniformName, {
-          type: uniform.type,
-          value: uniform.value,
-        })
-      }
+    if (program.hasUniform('u_kick'))
+      program.setUniform('u_kick', { type: 'int', value: audioData.onsets?.kick === true ? 1 : 0 })
+
+    if (program.hasUniform('u_snare'))
+      program.setUniform('u_snare', { type: 'int', value: audioData.onsets?.snare === true ? 1 : 0 })
+
+    if (program.hasUniform('u_hat'))
+      program.setUniform('u_hat', { type: 'int', value: audioData.onsets?.hat === true ? 1 : 0 })
+
+    if (program.hasUniform('u_onset'))
+      program.setUniform('u_onset', { type: 'float', value: audioData.onsetStrength ?? 0 })
+
+    if (program.hasUniform('u_bpm'))
+      program.setUniform('u_bpm', { type: 'float', value: audioData.tempo?.bpm ?? 0 })
+
+    if (program.hasUniform('u_beatPhase'))
+      program.setUniform('u_beatPhase', { type: 'float', value: audioData.tempo?.beatPhase ?? 0 })
+
+    if (program.hasUniform('u_barPhase'))
+      program.setUniform('u_barPhase', { type: 'float', value: audioData.tempo?.barPhase ?? 0 })
+
+    if (program.hasUniform('u_tempoConfidence'))
+      program.setUniform('u_tempoConfidence', { type: 'float', value: audioData.tempo?.confidence ?? 0 })
+
+    // Bands as a uniform array; shaders declare `uniform float u_band[N]` with any N
+    if (program.hasUniform('u_bandCount'))
+      program.setUniform('u_bandCount', { type: 'int', value: bands.length })
+
+    if (program.hasUniform('u_band') && bands.length > 0)
+      program.setUniform('u_band', { type: 'float', value: bands })
+
+    // 1 when u_spectrum and u_waveform hold float data: signed waveform, unclipped spectrum
+    if (program.hasUniform('u_floatAudio'))
+      program.setUniform('u_floatAudio', { type: 'int', value: audioData.floatWaveform ? 1 : 0 })
+  }
+
+  private setPresetUniforms(program: Program, instance: PresetInstance): void {
+    for (const binding of instance.uniformBindings.get(program) ?? []) {
+      // Values can change between frames; a removed uniform keeps its last value
+      const uniform = instance.uniforms[binding.name] as PresetUniform | undefined
+      if (uniform)
+        binding.set(uniform)
     }
   }
 
-  private bindTextures(): void {
+  // The previous frame and other passes are bound by the render graph
+  private bindTextures(program: Program): void {
     const gl = this.gl
 
-    // Bind previous frame texture
-    if (this.currentProgram?.hasUniform('u_previousFrame')) {
-      gl.activeTexture(gl.TEXTURE0)
-      gl.bindTexture(gl.TEXTURE_2D, this.pingPongFBO.getPreviousTexture())
-      this.currentProgram.setUniform('u_previousFrame', { type: 'sampler2D', value: 0 })
-    }
-
     // Bind spectrum texture
-    if (this.spectrumTexture && this.currentProgram?.hasUniform('u_spectrum')) {
+    if (this.spectrumTexture && program.hasUniform('u_spectrum')) {
       gl.activeTexture(gl.TEXTURE1)
       gl.bindTexture(gl.TEXTURE_2D, this.spectrumTexture)
-      this.currentProgram.setUniform('u_spectrum', { type: 'sampler2D', value: 1 })
+      program.setUniform('u_spectrum', { type: 'sampler2D', value: 1 })
     }
 
     // Bind waveform texture
-    if (this.audioTexture && this.currentProgram?.hasUniform('u_waveform')) {
+    if (this.audioTexture && program.hasUniform('u_waveform')) {
       gl.activeTexture(gl.TEXTURE2)
       gl.bindTexture(gl.TEXTURE_2D, this.audioTexture)
-      this.currentProgram.setUniform('u_waveform', { type: 'sampler2D', value: 2 })
+      program.setUniform('u_waveform', { type: 'sampler2D', value: 2 })
+    }
+
+    // Bind bands texture
+    if (this.bandsTexture && program.hasUniform('u_bands')) {
+      gl.activeTexture(gl.TEXTURE3)
+      gl.bindTexture(gl.TEXTURE_2D, this.bandsTexture)
+      program.setUniform('u_bands', { type: 'sampler2D', value: 3 })
     }
   }
 
-  private copyToScreen(): void {
+  private present(texture: WebGLTexture): void {
+    this.compositor.present(texture)
+  }
+
+  private compositeTransition(transition: ActiveTransition, to: PresetInstance, progress: number): WebGLTexture {
     const gl = this.gl
+    const program = transition.program
+    const [width, height] = this.getRenderSize()
 
-    // Restore main framebuffer
-    gl.bindFramebuffer(gl.FRAMEBUFFER, null)
-    gl.viewport(0, 0, gl.canvas.width, gl.canvas.height)
+    this.transitionTarget ??= this.createTransitionTarget()
+    this.transitionTarget.bind()
 
-    // Simple copy from current FBO texture to screen
     gl.activeTexture(gl.TEXTURE0)
-    gl.bindTexture(gl.TEXTURE_2D, this.pingPongFBO.getCurrentTexture())
+    gl.bindTexture(gl.TEXTURE_2D, transition.from.graph.getOutputTexture())
+    gl.activeTexture(gl.TEXTURE1)
+    gl.bindTexture(gl.TEXTURE_2D, to.graph.getOutputTexture())
+
+    program.use()
+    if (program.hasUniform('u_from'))
+      program.setUniform('u_from', { type: 'sampler2D', value: 0 })
+    if (program.hasUniform('u_to'))
+      program.setUniform('u_to', { type: 'sampler2D', value: 1 })
+    if (program.hasUniform('u_progress'))
+      program.setUniform('u_progress', { type: 'float', value: progress })
+    if (program.hasUniform('u_resolution'))
+      program.setUniform('u_resolution', { type: 'vec2', value: [width, height] })
 
-    // Use current program or a simple copy program
     this.fullscreenQuad.render()
+    this.transitionTarget.unbind()
+
+    return this.transitionTarget.getTexture()
+  }
+
+  private createTransitionTarget(): RenderTarget {
+    const [width, height] = this.getRenderSize()
+    return new RenderTarget(this.gl, { width, height, ...this.getIntermediateFormat() })
+  }
+
+  private createEffectPool(): RenderTargetPool {
+    return new RenderTargetPool(this.gl, this.getIntermediateFormat())
+  }
+
+  // Half float where the GPU can render to it, so HDR presets blend and post-process unclipped
+  private getIntermediateFormat(): { internalFormat: number, format: number, type: number } {
+    const gl = this.gl
+    return this.glContext.hasExtension('EXT_color_buffer_float')
+      ? { internalFormat: gl.RGBA16F, format: gl.RGBA, type: gl.HALF_FLOAT }
+      : { internalFormat: gl.RGBA8, format: gl.RGBA, type: gl.UNSIGNED_BYTE }
+  }
+
+  private createEffectStack(entries: EffectStackEntry[]): EffectStack {
+    return new EffectStack(this.gl, this.fullscreenQuad, this.effectPool, entries, this.getDefaultVertexShader())
+  }
+
+  // Post-processing for every preset without its own; throws if an effect fails to build
+  public setEffects(entries: EffectStackEntry[]): void {
+    const effects = this.createEffectStack(entries)
+    this.effects?.destroy()
+    this.effects = effects
+    this.effectEntries = entries
+  }
+
+  public getEffects(): EffectStackEntry[] {
+    return this.effectEntries
+  }
+
+  // Run the instance's effects, or the runner's, over a finished frame
+  private applyEffects(instance: PresetInstance, texture: WebGLTexture, audioData: AudioData, deltaTime: number): WebGLTexture {
+    const effects = instance.effects ?? this.effects
+    if (!effects || effects.isEmpty())
+      return texture
+
+    const [width, height] = this.getRenderSize()
+    const bands = audioData.bands ?? new Float32Array(0)
+    return effects.render(texture, width, height, audioData, (program) => {
+      this.setCommonUniforms(program, instance, audioData, bands, instance.lastTime, deltaTime)
+      this.bindTextures(program)
+    })
+  }
+
+  public setToneMapping(toneMapping: ToneMapping): void {
+    this.compositor.setOptions({ toneMapping })
+  }
+
+  public getToneMapping(): ToneMapping {
+    return this.compositor.getToneMapping()
+  }
+
+  public setExposure(exposure: number): void {
+    this.compositor.setOptions({ exposure })
+  }
+
+  public getExposure(): number {
+    return this.compositor.getExposure()
+  }
+
+  // Options left out keep their current values
+  public setCompositorOptions(options: CompositorOptions): void {
+    this.compositor.setOptions(options)
+    // The aspect settings change the size presets render at
+    this.resizeGraphs()
+  }
+
+  public getCompositorOptions(): CompositorOptions {
+    return this.compositor.getOptions()
+  }
+
+  // Colour grading LUT applied last; null removes it
+  public setLUT(lut: CubeLUT | null): void {
+    this.compositor.setLUT(lut)
   }
 
   private renderBlank(): void {
@@ -306,21 +978,56 @@ export class PresetRunner {
     `
   }
 
+  // Size of the canvas the output is drawn to
   public resize(width: number, height: number): void {
-    this.pingPongFBO.resize(width, height)
+    this.width = width
+    this.height = height
+    this.resizeGraphs()
   }
 
-  public destroy(): void {
-    if (this.currentPreset?.destroy) {
-      this.currentPreset.destroy()
+  // Render presets at a fraction of the canvas resolution; the output is upscaled
+  public setRenderScale(scale: number): void {
+    if (!(scale > 0 && scale <= 1)) {
+      throw new Error(`Render scale must be between 0 and 1, got ${scale}`)
     }
+    this.renderScale = scale
+    this.resizeGraphs()
+  }
+
+  public getRenderScale(): number {
+    return this.renderScale
+  }
+
+  // Resolution presets render at: the image size in the canvas times the render scale
+  public getRenderSize(): [number, number] {
+    const [width, height] = this.compositor.getContentSize(this.width, this.height)
+    return [
+      Math.max(1, Math.round(width * this.renderScale)),
+      Math.max(1, Math.round(height * this.renderScale)),
+    ]
+  }
+
+  private resizeGraphs(): void {
+    const [width, height] = this.getRenderSize()
+    this.current?.graph.resize(width, height)
+    this.transition?.from.graph.resize(width, height)
+    this.transitionTarget?.resize(width, height)
+    // Pooled images of the old size would never be used again
+    this.effectPool.clear()
+  }
 
-    if (this.currentProgram) {
-      this.currentProgram.destroy()
+  public destroy(): void {
+    this.finishTransition()
+
+    if (this.current) {
+      this.destroyInstance(this.current)
+      this.current = null
     }
 
+    this.effects?.destroy()
+    this.effectPool.destroy()
+    this.compositor.destroy()
     this.fullscreenQuad.destroy()
-    this.pingPongFBO.destroy()
 
     if (this.audioTexture) {
       this.gl.deleteTexture(this.audioTexture)
@@ -329,5 +1036,15 @@ export class PresetRunner {
     if (this.spectrumTexture) {
       this.gl.deleteTexture(this.spectrumTexture)
     }
+
+    if (this.shadertoyAudioTexture) {
+      this.gl.deleteTexture(this.shadertoyAudioTexture)
+    }
+
+    if (this.bandsTexture) {
+      this.gl.deleteTexture(this.bandsTexture)
+    }
+
+    this.gmegabuf = null
   }
 }
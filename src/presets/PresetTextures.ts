@@ -0,0 +1,368 @@
+import type { Program } from '../core/Program'
+import type { PresetTexture } from './Preset'
+import type { GraphTexture } from './RenderGraph'
+import { logger } from '../core/logger'
+
+// An image or video ready to upload; owned elements were created here and are
+// stopped when their textures go away
+export interface LoadedTextureSource {
+  element: HTMLImageElement | HTMLVideoElement
+  owned: boolean
+}
+
+const TEXTURE_NAME_PATTERN = /^[a-z_]\w*$/i
+
+// Built-in uniforms a texture named u_<name> would shadow
+const RESERVED_TEXTURE_NAMES = [
+  'previousFrame',
+  'image',
+  'audio',
+  'spectrum',
+  'waveform',
+  'bands',
+  'band',
+  'resolution',
+  'mouse',
+  'time',
+  'date',
+  'frame',
+  'deltaTime',
+]
+
+const VIDEO_URL_PATTERN = /^data:video\/|\.(?:mp4|webm|ogv|mov|m4v)(?:[?#]|$)/i
+
+const WRAP_MODES = ['clamp', 'repeat', 'mirror']
+const FILTER_MODES = ['linear', 'nearest']
+
+// Data URIs can be megabytes long
+function describeUrl(url: string): string {
+  return url.length > 64 ? `${url.slice(0, 61)}...` : url
+}
+
+async function loadImage(url: string): Promise<HTMLImageElement> {
+  const image = new Image()
+  image.crossOrigin = 'anonymous'
+  image.src = url
+  try {
+    await image.decode()
+  }
+  catch {
+    throw new Error(`Failed to load image ${describeUrl(url)}`)
+  }
+  return image
+}
+
+// Resolves once the video has a frame to upload
+async function waitForVideo(video: HTMLVideoElement, description: string): Promise<HTMLVideoElement> {
+  if (video.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA)
+    return video
+
+  return new Promise((resolve, reject) => {
+    // Whichever event comes first removes both listeners
+    const listeners = new AbortController()
+    video.addEventListener('loadeddata', () => {
+      listeners.abort()
+      resolve(video)
+    }, { signal: listeners.signal })
+    video.addEventListener('error', () => {
+      listeners.abort()
+      reject(new Error(`Failed to load video ${description}`))
+    }, { signal: listeners.signal })
+  })
+}
+
+// Muted and inline so browsers let it play without a user gesture
+function createVideo(): HTMLVideoElement {
+  const video = document.createElement('video')
+  video.crossOrigin = 'anonymous'
+  video.muted = true
+  video.loop = true
+  video.playsInline = true
+  return video
+}
+
+function playVideo(video: HTMLVideoElement, description: string): void {
+  video.play().catch((error: unknown) => {
+    logger.warn(`Could not start video ${description}:`, error)
+  })
+}
+
+export async function loadTextureSource(texture: PresetTexture): Promise<LoadedTextureSource> {
+  const source = texture.source
+
+  if (typeof source === 'string') {
+    const isVideo = texture.type !== undefined ? texture.type === 'video' : VIDEO_URL_PATTERN.test(source)
+    if (!isVideo)
+      return { element: await loadImage(source), owned: true }
+
+    const video = createVideo()
+    video.src = source
+    playVideo(video, describeUrl(source))
+    try {
+      return { element: await waitForVideo(video, describeUrl(source)), owned: true }
+    }
+    catch (error) {
+      releaseTextureSource({ element: video, owned: true })
+      throw error
+    }
+  }
+
+  if (typeof MediaStream !== 'undefined' && source instanceof MediaStream) {
+    const video = createVideo()
+    video.srcObject = source
+    playVideo(video, 'stream')
+    try {
+      return { element: await waitForVideo(video, 'stream'), owned: true }
+    }
+    catch (error) {
+      releaseTextureSource({ element: video, owned: true })
+      throw error
+    }
+  }
+
+  if (source instanceof HTMLVideoElement)
+    return { element: await waitForVideo(source, source.currentSrc || 'element'), owned: false }
+
+  if (source instanceof HTMLImageElement) {
+    if (!source.complete || source.naturalWidth === 0) {
+      await source.decode().catch(() => {
+        throw new Error(`Failed to load image ${describeUrl(source.currentSrc || source.src)}`)
+      })
+    }
+    return { element: source, owned: false }
+  }
+
+  throw new Error('Texture source must be a URL, an image or video element, or a MediaStream')
+}
+
+// Load every texture of a preset; if one fails, the others are released
+export async function loadTextureSources(textures: Record<string, PresetTexture>): Promise<Record<string, LoadedTextureSource>> {
+  const entries = Object.entries(textures)
+  const results = await Promise.allSettled(entries.map(async ([, texture]) => loadTextureSource(texture)))
+
+  const sources: Record<string, LoadedTextureSource> = {}
+  let failure: Error | null = null
+  for (const [i, result] of results.entries()) {
+    const name = entries[i][0]
+    if (result.status === 'fulfilled') {
+      sources[name] = result.value
+    }
+    else if (!failure) {
+      const errorMessage = result.reason instanceof Error ? result.reason.message : String(result.reason)
+      failure = new Error(`Texture '${name}': ${errorMessage}`)
+    }
+  }
+
+  if (failure) {
+    Object.values(sources).forEach(releaseTextureSource)
+    throw failure
+  }
+  return sources
+}
+
+// Stop videos created for a texture; the caller's elements and streams are left alone
+export function releaseTextureSource(source: LoadedTextureSource): void {
+  if (!source.owned || !(source.element instanceof HTMLVideoElement))
+    return
+
+  const video = source.element
+  video.pause()
+  video.srcObject = null
+  video.removeAttribute('src')
+  video.load()
+}
+
+export function validatePresetTextures(textures: Record<string, PresetTexture>): void {
+  for (const [name, texture] of Object.entries(textures)) {
+    if (!TEXTURE_NAME_PATTERN.test(name))
+      throw new Error(`Texture name '${name}' is not a valid GLSL identifier`)
+    if (RESERVED_TEXTURE_NAMES.includes(name))
+      throw new Error(`Texture name '${name}' is reserved for a built-in uniform`)
+    if (texture.wrap !== undefined && !WRAP_MODES.includes(texture.wrap))
+      throw new Error(`Texture '${name}' has unknown wrap mode '${String(texture.wrap)}'`)
+    if (texture.filter !== undefined && !FILTER_MODES.includes(texture.filter))
+      throw new Error(`Texture '${name}' has unknown filter '${String(texture.filter)}'`)
+  }
+}
+
+interface TextureEntry {
+  name: string
+  options: PresetTexture
+  texture: WebGLTexture
+  source: LoadedTextureSource | null
+  // Images go up once; videos every frame
+  uploaded: boolean
+  width: number
+  height: number
+}
+
+// A preset's images and videos as textures. Each samples as black until its
+// source has loaded.
+export class PresetTextures {
+  private gl: WebGL2RenderingContext
+  private entries: TextureEntry[] = []
+  private maxTextureUnits: number
+  private warnedUnits = false
+  private destroyed = false
+
+  // Sources already loaded by loadTextureSources are used as they are; the rest load in the background
+  constructor(gl: WebGL2RenderingContext, textures: Record<string, PresetTexture>, sources: Record<string, LoadedTextureSource> = {}) {
+    validatePresetTextures(textures)
+
+    this.gl = gl
+    this.maxTextureUnits = gl.getParameter(gl.MAX_TEXTURE_IMAGE_UNITS) as number
+
+    for (const [name, options] of Object.entries(textures)) {
+      const entry: TextureEntry = {
+        name,
+        options,
+        texture: this.createTexture(options),
+        source: sources[name] ?? null,
+        uploaded: false,
+        width: 1,
+        height: 1,
+      }
+      this.entries.push(entry)
+
+      if (!entry.source)
+        this.loadInBackground(entry)
+    }
+  }
+
+  private loadInBackground(entry: TextureEntry): void {
+    loadTextureSource(entry.options).then(
+      (source) => {
+        if (this.destroyed)
+          releaseTextureSource(source)
+        else
+          entry.source = source
+      },
+      (error: unknown) => {
+        logger.error(`Failed to load texture '${entry.name}':`, error)
+      },
+    )
+  }
+
+  // A 1x1 black placeholder with the texture's sampling settings
+  private createTexture(options: PresetTexture): WebGLTexture {
+    const gl = this.gl
+    const texture = gl.createTexture()
+
+    const wrap = options.wrap === 'repeat'
+      ? gl.REPEAT
+      : options.wrap === 'mirror' ? gl.MIRRORED_REPEAT : gl.CLAMP_TO_EDGE
+    const nearest = options.filter === 'nearest'
+    const minFilter = options.mipmap === true
+      ? (nearest ? gl.NEAREST_MIPMAP_NEAREST : gl.LINEAR_MIPMAP_LINEAR)
+      : (nearest ? gl.NEAREST : gl.LINEAR)
+
+    gl.bindTexture(gl.TEXTURE_2D, texture)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MIN_FILTER, minFilter)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_MAG_FILTER, nearest ? gl.NEAREST : gl.LINEAR)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_S, wrap)
+    gl.texParameteri(gl.TEXTURE_2D, gl.TEXTURE_WRAP_T, wrap)
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, 1, 1, 0, gl.RGBA, gl.UNSIGNED_BYTE, new Uint8Array([0, 0, 0, 255]))
+    if (options.mipmap === true)
+      gl.generateMipmap(gl.TEXTURE_2D)
+    gl.bindTexture(gl.TEXTURE_2D, null)
+    return texture
+  }
+
+  // Upload loaded images once and the current frame of every video
+  public update(): void {
+    for (const entry of this.entries) {
+      const element = entry.source?.element
+      if (!element)
+        continue
+
+      if (element instanceof HTMLVideoElement) {
+        if (element.readyState >= HTMLMediaElement.HAVE_CURRENT_DATA && element.videoWidth > 0)
+          this.upload(entry, element, element.videoWidth, element.videoHeight)
+      }
+      else if (!entry.uploaded) {
+        this.upload(entry, element, element.naturalWidth, element.naturalHeight)
+      }
+    }
+  }
+
+  private upload(entry: TextureEntry, element: TexImageSource, width: number, height: number): void {
+    const gl = this.gl
+    gl.bindTexture(gl.TEXTURE_2D, entry.texture)
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, entry.options.flipY !== false)
+    gl.texImage2D(gl.TEXTURE_2D, 0, gl.RGBA, gl.RGBA, gl.UNSIGNED_BYTE, element)
+    gl.pixelStorei(gl.UNPACK_FLIP_Y_WEBGL, false)
+    if (entry.options.mipmap === true)
+      gl.generateMipmap(gl.TEXTURE_2D)
+    gl.bindTexture(gl.TEXTURE_2D, null)
+
+    entry.uploaded = true
+    entry.width = width
+    entry.height = height
+  }
+
+  // Bind the textures the program samples to units from firstUnit up, and set their resolutions
+  public bind(program: Program, firstUnit: number): void {
+    const gl = this.gl
+    let unit = firstUnit
+
+    for (const entry of this.entries) {
+      const uniformName = `u_${entry.name}`
+      if (program.hasUniform(uniformName)) {
+        if (unit < this.maxTextureUnits) {
+          gl.activeTexture(gl.TEXTURE0 + unit)
+          gl.bindTexture(gl.TEXTURE_2D, entry.texture)
+          program.setUniform(uniformName, { type: 'sampler2D', value: unit })
+          unit++
+        }
+        else if (!this.warnedUnits) {
+          logger.warn(`Texture '${entry.name}' needs unit ${unit}, but the GPU has ${this.maxTextureUnits}`)
+          this.warnedUnits = true
+        }
+      }
+
+      if (program.hasUniform(`${uniformName}Resolution`))
+        program.setUniform(`${uniformName}Resolution`, { type: 'vec2', value: [entry.width, entry.height] })
+    }
+  }
+
+  // For Shadertoy channels that name a texture
+  public getGraphTextures(): Record<string, GraphTexture> {
+    const textures: Record<string, GraphTexture> = {}
+    for (const entry of this.entries) {
+      textures[entry.name] = { texture: entry.texture, width: entry.width, height: entry.height }
+    }
+    return textures
+  }
+
+  public getNames(): string[] {
+    return this.entries.map(entry => entry.name)
+  }
+
+  // New GL textures after a context restore; the loaded sources are uploaded again
+  public restore(): void {
+    for (const entry of this.entries) {
+      entry.texture = this.createTexture(entry.options)
+      entry.uploaded = false
+      entry.width = 1
+      entry.height = 1
+    }
+  }
+
+  // Stop owned videos without touching GL, for handles from a lost context
+  public release(): void {
+    this.destroyed = true
+    for (const entry of this.entries) {
+      if (entry.source)
+        releaseTextureSource(entry.source)
+      entry.source = null
+    }
+  }
+
+  public destroy(): void {
+    for (const entry of this.entries) {
+      this.gl.deleteTexture(entry.texture)
+    }
+    this.release()
+    this.entries = []
+  }
+}
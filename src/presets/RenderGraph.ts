@@ -0,0 +1,424 @@
+import type { FullscreenQuad } from '../core/FullscreenQuad'
+import type { GLContext } from '../core/GLContext'
+import type { PassFormat, PresetPass, PresetShaders } from './Preset'
+import { logger } from '../core/logger'
+import { PingPongFBO } from '../core/PingPongFBO'
+import { Program } from '../core/Program'
+import { RenderTarget } from '../core/RenderTarget'
+import { ShaderCompileError } from '../core/ShaderCompileError'
+import { preprocessShader } from '../core/ShaderPreprocessor'
+import { remapShaderLog } from '../core/ShaderSourceMap'
+import { DEFAULT_SHADERTOY_CHANNELS, SHADERTOY_CHANNEL_COUNT, wrapShadertoyShader } from './shadertoy'
+
+// Name offscreen passes use to sample the main pass
+export const MAIN_PASS_NAME = 'image'
+
+// Units 0-3 hold the previous frame and the audio textures
+const FIRST_INPUT_TEXTURE_UNIT = 4
+
+const PASS_NAME_PATTERN = /^[a-z_]\w*$/i
+
+// Textures owned by the runner that Shadertoy channels can name
+const SHARED_TEXTURE_NAMES = ['audio', 'spectrum', 'waveform', 'bands']
+
+// Built-in uniforms a pass sampled as u_<name> would collide with
+const BUILTIN_UNIFORM_NAMES = [
+  'previousFrame',
+  'time',
+  'deltaTime',
+  'frame',
+  'resolution',
+  'mouse',
+  'date',
+  'channel0',
+  'channel1',
+  'channel2',
+  'channel3',
+  'channelResolution',
+  'channelTime',
+  'energy',
+  'beat',
+  'bass',
+  'mid',
+  'treb',
+  'treble',
+  'onset',
+  'kick',
+  'snare',
+  'hat',
+  'bpm',
+  'beatPhase',
+  'barPhase',
+  'tempoConfidence',
+  'band',
+  'bandCount',
+  'floatAudio',
+]
+
+export interface GraphTexture {
+  texture: WebGLTexture | null
+  width: number
+  height: number
+}
+
+interface RenderNode {
+  name: string
+  program: Program
+  scale: number
+  target: PingPongFBO | RenderTarget
+  // Other passes this one samples through u_<name>
+  inputs: string[]
+  shadertoy: boolean
+  // Shadertoy iChannel sources
+  channels: string[]
+}
+
+interface TextureFormat {
+  internalFormat: number
+  format: number
+  type: number
+  filter: number
+}
+
+// Run passes once their inputs have rendered this frame; inside a cycle the
+// first pass in list order goes next and reads the others' previous frame
+function sortPasses(names: string[], inputs: Map<string, string[]>): string[] {
+  const order: string[] = []
+  const remaining = [...names]
+
+  while (remaining.length > 0) {
+    const index = remaining.findIndex(name =>
+      (inputs.get(name) ?? []).every(input => input === name || !remaining.includes(input)),
+    )
+    order.push(...remaining.splice(Math.max(index, 0), 1))
+  }
+
+  return order
+}
+
+// Renders a preset's offscreen passes in dependency order, then its main pass
+export class RenderGraph {
+  private glContext: GLContext
+  private gl: WebGL2RenderingContext
+  private fullscreenQuad: FullscreenQuad
+  private nodes: RenderNode[] = []
+  private width: number
+  private height: number
+  // Preset textures that Shadertoy channels can name
+  private textureNames: string[]
+
+  // The main pass renders at width x height (default: the canvas size); pass scales are relative to it
+  constructor(
+    glContext: GLContext,
+    fullscreenQuad: FullscreenQuad,
+    shaders: PresetShaders,
+    defaultVertexShader: string,
+    width = glContext.gl.canvas.width,
+    height = glContext.gl.canvas.height,
+    textureNames: string[] = [],
+  ) {
+    this.glContext = glContext
+    this.gl = glContext.gl
+    this.fullscreenQuad = fullscreenQuad
+    this.width = width
+    this.height = height
+    this.textureNames = textureNames
+
+    const offscreen = shaders.passes ?? []
+    const passes: PresetPass[] = [
+      ...offscreen,
+      {
+        name: MAIN_PASS_NAME,
+        vertex: shaders.vertex,
+        fragment: shaders.fragment,
+        fragmentSourceMap: shaders.fragmentSourceMap,
+        dialect: shaders.dialect,
+        channels: shaders.channels,
+        format: shaders.format,
+      },
+    ]
+
+    const names = new Set<string>()
+    for (const pass of offscreen) {
+      if (!PASS_NAME_PATTERN.test(pass.name))
+        throw new Error(`Pass name '${pass.name}' is not a valid GLSL identifier`)
+      if (pass.name === MAIN_PASS_NAME)
+        throw new Error(`Pass name '${MAIN_PASS_NAME}' is reserved for the main shader`)
+      if (SHARED_TEXTURE_NAMES.includes(pass.name))
+        throw new Error(`Pass name '${pass.name}' is reserved for an audio texture`)
+      if (BUILTIN_UNIFORM_NAMES.includes(pass.name))
+        throw new Error(`Pass name '${pass.name}' is reserved for a built-in uniform`)
+      if (textureNames.includes(pass.name))
+        throw new Error(`Pass name '${pass.name}' is also the name of a texture`)
+      if (names.has(pass.name))
+        throw new Error(`Duplicate pass name '${pass.name}'`)
+      names.add(pass.name)
+    }
+
+    const channels = new Map<string, string[]>()
+    for (const pass of passes) {
+      channels.set(pass.name, this.resolveChannels(pass, passes))
+    }
+
+    const programs = new Map<string, Program>()
+    try {
+      for (const pass of passes) {
+        programs.set(pass.name, this.compile(pass, defaultVertexShader))
+      }
+
+      // A pass depends on every other pass it samples; a u_<name> that is not a
+      // sampler is a preset uniform of the same name, not an input
+      const inputs = new Map<string, string[]>()
+      const dependencies = new Map<string, string[]>()
+      for (const [name, program] of programs) {
+        const sampled = passes.map(pass => pass.name).filter(other => program.getUniformInfo(`u_${other}`)?.type === 'sampler2D')
+        inputs.set(name, sampled)
+        dependencies.set(name, [
+          ...sampled,
+          ...(channels.get(name) ?? []).map(channel => channel === 'previousFrame' ? name : channel),
+        ])
+      }
+
+      const order = [...sortPasses(Array.from(names), dependencies), MAIN_PASS_NAME]
+
+      for (const [index, name] of order.entries()) {
+        const pass = passes.find(candidate => candidate.name === name) as PresetPass
+        const program = programs.get(name) as Program
+
+        // Passes sampled before they render this frame, including by themselves, keep a history
+        const hasHistory = name === MAIN_PASS_NAME
+          || program.hasUniform('u_previousFrame')
+          || order.slice(0, index + 1).some(reader => (dependencies.get(reader) ?? []).includes(name))
+
+        this.nodes.push({
+          name,
+          program,
+          scale: pass.scale ?? 1,
+          target: this.createTarget(pass, hasHistory),
+          inputs: inputs.get(name) ?? [],
+          shadertoy: pass.dialect === 'shadertoy',
+          channels: channels.get(name) ?? [],
+        })
+      }
+    }
+    catch (error) {
+      programs.forEach(program => program.destroy())
+      this.nodes.forEach(node => node.target.destroy())
+      this.nodes = []
+      throw error
+    }
+  }
+
+  private resolveChannels(pass: PresetPass, passes: PresetPass[]): string[] {
+    if (pass.dialect !== 'shadertoy')
+      return []
+
+    const channels = pass.channels ?? DEFAULT_SHADERTOY_CHANNELS
+    if (channels.length > SHADERTOY_CHANNEL_COUNT) {
+      throw new Error(`Pass '${pass.name}' lists ${channels.length} channels; Shadertoy has ${SHADERTOY_CHANNEL_COUNT}`)
+    }
+
+    for (const channel of channels) {
+      const known = channel === 'previousFrame'
+        || SHARED_TEXTURE_NAMES.includes(channel)
+        || this.textureNames.includes(channel)
+        || passes.some(other => other.name === channel)
+      if (!known) {
+        throw new Error(`Pass '${pass.name}' has unknown channel '${channel}'`)
+      }
+    }
+
+    return channels
+  }
+
+  private compile(pass: PresetPass, defaultVertexShader: string): Program {
+    let fragment = pass.fragment
+    let sourceMap = pass.fragmentSourceMap
+
+    if (pass.dialect === 'shadertoy') {
+      const wrapped = wrapShadertoyShader(pass.fragment, pass.name, pass.name === MAIN_PASS_NAME)
+      fragment = wrapped.source
+      sourceMap = wrapped.sourceMap
+    }
+
+    try {
+      // Resolve #include directives against the shader module registry
+      const preprocessed = preprocessShader(fragment, { name: pass.name, sourceMap })
+      sourceMap = preprocessed.sourceMap
+
+      return new Program(this.gl, pass.vertex ?? defaultVertexShader, preprocessed.source)
+    }
+    catch (error) {
+      if (error instanceof ShaderCompileError) {
+        throw error.withSourceMap(sourceMap, pass.name === MAIN_PASS_NAME ? undefined : pass.name)
+      }
+
+      let errorMessage = error instanceof Error ? error.message : String(error)
+      if (sourceMap) {
+        errorMessage = remapShaderLog(errorMessage, sourceMap)
+      }
+      throw new Error(pass.name === MAIN_PASS_NAME ? errorMessage : `Pass '${pass.name}': ${errorMessage}`)
+    }
+  }
+
+  private resolveFormat(format: PassFormat): TextureFormat {
+    const gl = this.gl
+
+    if (format !== 'rgba8' && !this.glContext.hasExtension('EXT_color_buffer_float')) {
+      logger.warn(`Float render targets are not supported, using rgba8 instead of ${format}`)
+      format = 'rgba8'
+    }
+
+    if (format === 'rgba16f') {
+      return { internalFormat: gl.RGBA16F, format: gl.RGBA, type: gl.HALF_FLOAT, filter: gl.LINEAR }
+    }
+
+    if (format === 'rgba32f') {
+      // 32-bit float textures are only filterable with OES_texture_float_linear
+      const filter = this.glContext.hasExtension('OES_texture_float_linear') ? gl.LINEAR : gl.NEAREST
+      return { internalFormat: gl.RGBA32F, format: gl.RGBA, type: gl.FLOAT, filter }
+    }
+
+    return { internalFormat: gl.RGBA8, format: gl.RGBA, type: gl.UNSIGNED_BYTE, filter: gl.LINEAR }
+  }
+
+  private getPassSize(scale: number): [number, number] {
+    return [
+      Math.max(1, Math.round(this.width * scale)),
+      Math.max(1, Math.round(this.height * scale)),
+    ]
+  }
+
+  private createTarget(pass: PresetPass, hasHistory: boolean): PingPongFBO | RenderTarget {
+    const [width, height] = this.getPassSize(pass.scale ?? 1)
+    const options = { width, height, ...this.resolveFormat(pass.format ?? 'rgba8') }
+
+    const target = hasHistory
+      ? new PingPongFBO(this.gl, options)
+      : new RenderTarget(this.gl, options)
+    target.clear()
+
+    return target
+  }
+
+  // Latest complete output; ping-pong targets swap right after rendering
+  private getLatestTexture(node: RenderNode): WebGLTexture {
+    return node.target instanceof PingPongFBO
+      ? node.target.getPreviousTexture()
+      : node.target.getTexture()
+  }
+
+  private bindChannels(node: RenderNode, firstUnit: number, shared: Record<string, GraphTexture>): void {
+    const gl = this.gl
+    const program = node.program
+    const resolutions: number[] = []
+
+    for (let i = 0; i < SHADERTOY_CHANNEL_COUNT; i++) {
+      const channel = node.channels[i] as string | undefined
+      let source: GraphTexture | undefined
+
+      if (channel === 'previousFrame' || channel === node.name) {
+        source = this.getNodeTexture(node)
+      }
+      else if (channel !== undefined) {
+        const input = this.nodes.find(candidate => candidate.name === channel)
+        source = input ? this.getNodeTexture(input) : shared[channel]
+      }
+
+      // Unused channels sample an unbound unit, which reads as black
+      gl.activeTexture(gl.TEXTURE0 + firstUnit + i)
+      gl.bindTexture(gl.TEXTURE_2D, source?.texture ?? null)
+      program.setUniform(`u_channel${i}`, { type: 'sampler2D', value: firstUnit + i })
+      resolutions.push(source?.width ?? 0, source?.height ?? 0, 1)
+    }
+
+    if (program.hasUniform('u_channelResolution')) {
+      program.setUniform('u_channelResolution', { type: 'vec3', value: resolutions })
+    }
+  }
+
+  private getNodeTexture(node: RenderNode): GraphTexture {
+    const [width, height] = this.getPassSize(node.scale)
+    return { texture: this.getLatestTexture(node), width, height }
+  }
+
+  // prepare sets each program's common, preset and audio uniforms and can bind
+  // textures of its own from firstFreeUnit up
+  public render(prepare: (program: Program, firstFreeUnit: number) => void, shared: Record<string, GraphTexture> = {}): void {
+    const gl = this.gl
+
+    // Passes replace their target's contents rather than blending into stale ping-pong images
+    gl.disable(gl.BLEND)
+
+    for (const node of this.nodes) {
+      const program = node.program
+
+      node.target.bind()
+      program.use()
+
+      if (program.hasUniform('u_resolution')) {
+        program.setUniform('u_resolution', { type: 'vec2', value: this.getPassSize(node.scale) })
+      }
+
+      if (node.target instanceof PingPongFBO && program.hasUniform('u_previousFrame')) {
+        gl.activeTexture(gl.TEXTURE0)
+        gl.bindTexture(gl.TEXTURE_2D, this.getLatestTexture(node))
+        program.setUniform('u_previousFrame', { type: 'sampler2D', value: 0 })
+      }
+
+      node.inputs.forEach((name, i) => {
+        const input = this.nodes.find(candidate => candidate.name === name) as RenderNode
+        gl.activeTexture(gl.TEXTURE0 + FIRST_INPUT_TEXTURE_UNIT + i)
+        gl.bindTexture(gl.TEXTURE_2D, this.getLatestTexture(input))
+        program.setUniform(`u_${name}`, { type: 'sampler2D', value: FIRST_INPUT_TEXTURE_UNIT + i })
+      })
+
+      let firstFreeUnit = FIRST_INPUT_TEXTURE_UNIT + node.inputs.length
+      if (node.shadertoy) {
+        this.bindChannels(node, firstFreeUnit, shared)
+        firstFreeUnit += SHADERTOY_CHANNEL_COUNT
+      }
+
+      prepare(program, firstFreeUnit)
+
+      this.fullscreenQuad.render()
+      node.target.unbind()
+
+      if (node.target instanceof PingPongFBO) {
+        node.target.swap()
+      }
+    }
+
+    gl.enable(gl.BLEND)
+  }
+
+  public getOutputTexture(): WebGLTexture {
+    return this.getLatestTexture(this.nodes[this.nodes.length - 1])
+  }
+
+  public getPassNames(): string[] {
+    return this.nodes.map(node => node.name)
+  }
+
+  public getPasses(): Array<{ name: string, program: Program }> {
+    return this.nodes.map(node => ({ name: node.name, program: node.program }))
+  }
+
+  public resize(width: number, height: number): void {
+    this.width = width
+    this.height = height
+
+    for (const node of this.nodes) {
+      const [passWidth, passHeight] = this.getPassSize(node.scale)
+      node.target.resize(passWidth, passHeight)
+    }
+  }
+
+  public destroy(): void {
+    for (const node of this.nodes) {
+      node.program.destroy()
+      node.target.destroy()
+    }
+    this.nodes = []
+  }
+}
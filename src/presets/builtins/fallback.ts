@@ -0,0 +1,30 @@
+import { PresetBuilder } from '../Preset'
+
+// Deliberately minimal so it compiles anywhere WebGL2 does; shown when a preset fails to load
+export const fallback = PresetBuilder.create()
+  .setMetadata({
+    name: 'Fallback',
+    author: 'HyperCream',
+    description: 'A plain spectrum shown when a preset fails to load',
+    version: '1.0.0',
+    tags: ['builtin', 'fallback'],
+  })
+  .setShaders({
+    fragment: `#version 300 es
+      precision mediump float;
+
+      in vec2 v_texCoord;
+      out vec4 fragColor;
+
+      uniform float u_time;
+      uniform sampler2D u_spectrum;
+
+      void main() {
+        float level = texture(u_spectrum, vec2(v_texCoord.x, 0.5)).r;
+        float bar = step(v_texCoord.y, level * 0.8);
+        vec3 background = vec3(0.04, 0.04, 0.08) * (1.0 + 0.5 * sin(u_time * 0.5 + v_texCoord.x * 3.0));
+        fragColor = vec4(mix(background, vec3(0.3, 0.5, 0.9), bar * 0.6), 1.0);
+      }
+    `,
+  })
+  .build()
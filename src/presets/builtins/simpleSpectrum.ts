@@ -7,8 +7,12 @@ export const simpleSpectrum = PresetBuilder.create()
     description: 'A basic circular spectrum visualizer',
     version: '1.0.0',
     tags: ['builtin', 'spectrum', 'circular'],
+    // Log bands give the bass as much of the ring as the treble
+    bands: { scale: 'log', count: 64, minFrequency: 30, maxFrequency: 16000 },
   })
   .setShaders({
+    // Half float so the 0.92 trail decay fades all the way to black
+    format: 'rgba16f',
     fragment: `#version 300 es
       precision highp float;
       
@@ -19,9 +23,11 @@ export const simpleSpectrum = PresetBuilder.create()
       uniform vec2 u_resolution;
       uniform float u_energy;
       uniform int u_beat;
-      uniform sampler2D u_spectrum;
+      uniform sampler2D u_bands;
       uniform sampler2D u_previousFrame;
       
+      #include "hypercream/color"
+      
       void main() {
         vec2 uv = gl_FragCoord.xy / u_resolution.xy;
         vec2 center = uv - 0.5;
@@ -30,11 +36,9 @@ export const simpleSpectrum = PresetBuilder.create()
         float radius = length(center);
         float angle = atan(center.y, center.x);
         
-        // Map angle to spectrum frequency
+        // Map angle to frequency band
         float spectrumIndex = (angle + 3.14159) / (2.0 * 3.14159);
-        float spectrumValue = texture(u_spectrum, vec2(spectrumIndex, 0.5)).r;
-        
-        // Spectrum value is already normalized 0-1 from Uint8Array
+        float spectrumValue = texture(u_bands, vec2(spectrumIndex, 0.25)).r;
         
         // Create bars
         float innerRadius = 0.1;
@@ -50,10 +54,7 @@ export const simpleSpectrum = PresetBuilder.create()
           float saturation = 0.9;
           float brightness = 0.6 + u_energy * 0.4;
           
-          // HSV to RGB
-          vec4 K = vec4(1.0, 2.0 / 3.0, 1.0 / 3.0, 3.0);
-          vec3 p = abs(fract(vec3(hue) + K.xyz) * 6.0 - K.www);
-          color = brightness * mix(K.xxx, clamp(p - K.xxx, 0.0, 1.0), saturation);
+          color = hsv2rgb(vec3(hue, saturation, brightness));
         }
         
         // Beat flash
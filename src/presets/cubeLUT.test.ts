@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest'
+import { parseCubeLUT } from './cubeLUT'
+
+// The identity table at size 2, red changing fastest
+const IDENTITY_ENTRIES = [
+  '0 0 0',
+  '1 0 0',
+  '0 1 0',
+  '1 1 0',
+  '0 0 1',
+  '1 0 1',
+  '0 1 1',
+  '1 1 1',
+]
+
+describe('parseCubeLUT', () => {
+  it('reads the header and table', () => {
+    const lut = parseCubeLUT([
+      '# Exported by a grading tool',
+      'TITLE "Identity"',
+      'LUT_3D_SIZE 2',
+      'DOMAIN_MIN 0 0 0',
+      'DOMAIN_MAX 1 2 1',
+      '',
+      ...IDENTITY_ENTRIES,
+    ].join('\r\n'))
+
+    expect(lut.title).toBe('Identity')
+    expect(lut.size).toBe(2)
+    expect(lut.domainMin).toEqual([0, 0, 0])
+    expect(lut.domainMax).toEqual([1, 2, 1])
+    expect(Array.from(lut.data.slice(0, 6))).toEqual([0, 0, 0, 1, 0, 0])
+    expect(Array.from(lut.data.slice(-3))).toEqual([1, 1, 1])
+  })
+
+  it('defaults the domain and skips unknown keywords', () => {
+    const lut = parseCubeLUT(['LUT_3D_SIZE 2', 'LUT_3D_INPUT_RANGE 0 1', ...IDENTITY_ENTRIES].join('\n'))
+    expect(lut.title).toBeUndefined()
+    expect(lut.domainMin).toEqual([0, 0, 0])
+    expect(lut.domainMax).toEqual([1, 1, 1])
+  })
+
+  it('reads entries written in scientific notation', () => {
+    const lut = parseCubeLUT(['LUT_3D_SIZE 2', '1e-3 .5 -0', ...IDENTITY_ENTRIES.slice(1)].join('\n'))
+    expect(lut.data[0]).toBeCloseTo(0.001)
+    expect(lut.data[1]).toBe(0.5)
+  })
+
+  it('reports malformed files with their line', () => {
+    expect(() => parseCubeLUT('LUT_3D_SIZE 1')).toThrow('Line 1: LUT_3D_SIZE must be an integer from 2 to 256')
+    expect(() => parseCubeLUT('LUT_1D_SIZE 16')).toThrow('Line 1: 1D LUTs are not supported')
+    expect(() => parseCubeLUT('0 0 0')).toThrow('Line 1: table data before LUT_3D_SIZE')
+    expect(() => parseCubeLUT('LUT_3D_SIZE 2\n0 0')).toThrow('Line 2: A table entry needs three numbers')
+    expect(() => parseCubeLUT('DOMAIN_MIN 0 0')).toThrow('Line 1: DOMAIN_MIN needs three numbers')
+    expect(() => parseCubeLUT(['LUT_3D_SIZE 2', ...IDENTITY_ENTRIES, '0 0 0'].join('\n'))).toThrow('Line 10: more than 8 table entries')
+  })
+
+  it('checks the table size and domain once read', () => {
+    expect(() => parseCubeLUT('TITLE "Empty"')).toThrow('Missing LUT_3D_SIZE')
+    expect(() => parseCubeLUT(['LUT_3D_SIZE 2', ...IDENTITY_ENTRIES.slice(1)].join('\n'))).toThrow('Expected 8 table entries, found 7')
+    expect(() => parseCubeLUT(['LUT_3D_SIZE 2', 'DOMAIN_MIN 1 0 0', ...IDENTITY_ENTRIES].join('\n'))).toThrow('DOMAIN_MIN must be below DOMAIN_MAX')
+  })
+})
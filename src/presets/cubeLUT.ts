@@ -0,0 +1,85 @@
+// A 3D colour lookup table from an Adobe/Resolve .cube file
+export interface CubeLUT {
+  title?: string
+  // Entries along each axis
+  size: number
+  domainMin: [number, number, number]
+  domainMax: [number, number, number]
+  // size^3 RGB triples, red changing fastest, then green, then blue
+  data: Float32Array
+}
+
+const MAX_LUT_SIZE = 256
+
+function parseTriple(values: string[], line: number, keyword: string): [number, number, number] {
+  const numbers = values.map(Number)
+  if (numbers.length !== 3 || numbers.some(value => !Number.isFinite(value))) {
+    throw new Error(`Line ${line}: ${keyword} needs three numbers`)
+  }
+  return numbers as [number, number, number]
+}
+
+export function parseCubeLUT(source: string): CubeLUT {
+  let title: string | undefined
+  let size = 0
+  let domainMin: [number, number, number] = [0, 0, 0]
+  let domainMax: [number, number, number] = [1, 1, 1]
+  let data: Float32Array | null = null
+  let count = 0
+
+  const lines = source.split(/\r?\n/)
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+    const lineNumber = i + 1
+    if (line === '' || line.startsWith('#'))
+      continue
+
+    const [keyword, ...values] = line.split(/\s+/)
+
+    switch (keyword) {
+      case 'TITLE':
+        title = line.slice('TITLE'.length).trim().replace(/^"(.*)"$/, '$1')
+        continue
+      case 'LUT_3D_SIZE':
+        size = Number(values[0])
+        if (!Number.isInteger(size) || size < 2 || size > MAX_LUT_SIZE) {
+          throw new Error(`Line ${lineNumber}: LUT_3D_SIZE must be an integer from 2 to ${MAX_LUT_SIZE}`)
+        }
+        data = new Float32Array(size * size * size * 3)
+        continue
+      case 'LUT_1D_SIZE':
+        throw new Error(`Line ${lineNumber}: 1D LUTs are not supported`)
+      case 'DOMAIN_MIN':
+        domainMin = parseTriple(values, lineNumber, keyword)
+        continue
+      case 'DOMAIN_MAX':
+        domainMax = parseTriple(values, lineNumber, keyword)
+        continue
+    }
+
+    // Other keywords (LUT_3D_INPUT_RANGE and vendor extensions) don't affect the table
+    if (/^[A-Z_]/i.test(keyword) && Number.isNaN(Number(keyword)))
+      continue
+
+    if (!data) {
+      throw new Error(`Line ${lineNumber}: table data before LUT_3D_SIZE`)
+    }
+    if (count >= size * size * size) {
+      throw new Error(`Line ${lineNumber}: more than ${size ** 3} table entries`)
+    }
+    data.set(parseTriple([keyword, ...values], lineNumber, 'A table entry'), count * 3)
+    count++
+  }
+
+  if (!data) {
+    throw new Error('Missing LUT_3D_SIZE')
+  }
+  if (count !== size * size * size) {
+    throw new Error(`Expected ${size ** 3} table entries, found ${count}`)
+  }
+  if (domainMin.some((min, channel) => min >= domainMax[channel])) {
+    throw new Error('DOMAIN_MIN must be below DOMAIN_MAX')
+  }
+
+  return { title, size, domainMin, domainMax, data }
+}
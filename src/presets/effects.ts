@@ -0,0 +1,238 @@
+import type { AudioData } from './PresetRunner'
+
+export type EffectName = 'bloom' | 'chromaticAberration' | 'filmGrain' | 'vignette' | 'rgbSplit'
+
+// Follows an audio value each frame: offset + value * scale. `source` names a
+// float audio uniform without its u_ prefix: 'energy', 'bass', 'treble', 'beat',
+// 'kick', 'snare', 'hat', 'onset', 'bpm', 'beatPhase', 'barPhase', or a
+// frequency range such as 'mid', 'midRel' or 'midAtt'.
+export interface AudioBinding {
+  source: string
+  scale?: number
+  offset?: number
+}
+
+// Numbers and arrays of 2-4 numbers become float and vec uniforms named u_<param>
+export type EffectParam = number | number[] | AudioBinding
+
+// A fragment shader of your own. It samples the image so far from u_texture and
+// can read u_resolution, u_time, the audio uniforms and its params.
+export interface CustomEffect {
+  name: string
+  fragment: string
+}
+
+export interface EffectConfig {
+  effect: EffectName | CustomEffect
+  params?: Record<string, EffectParam>
+}
+
+export type EffectStackEntry = EffectName | EffectConfig
+
+export const EFFECT_NAMES: EffectName[] = ['bloom', 'chromaticAberration', 'filmGrain', 'vignette', 'rgbSplit']
+
+export const DEFAULT_EFFECT_PARAMS: Record<EffectName, Record<string, EffectParam>> = {
+  // Brightness above threshold glows; levels is the number of blur halvings
+  bloom: { threshold: 0.8, intensity: 0.6, radius: 1, levels: 5 },
+  // Fraction of the distance from the center that red and blue shift apart
+  chromaticAberration: { amount: 0.004 },
+  filmGrain: { intensity: 0.05 },
+  vignette: { intensity: 0.6, radius: 0.8, softness: 0.5 },
+  // Offset in UV units along angle (radians), kicked by the onset envelope
+  rgbSplit: { amount: { source: 'onset', scale: 0.01 }, angle: 0 },
+}
+
+const EFFECT_HEADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 fragColor;
+
+uniform sampler2D u_texture;
+uniform vec2 u_resolution;
+`
+
+export const EFFECT_SHADERS: Record<Exclude<EffectName, 'bloom'>, string> = {
+  chromaticAberration: `${EFFECT_HEADER}
+uniform float u_amount;
+
+void main() {
+  vec2 offset = (v_texCoord - 0.5) * u_amount;
+  vec4 center = texture(u_texture, v_texCoord);
+  float r = texture(u_texture, v_texCoord + offset).r;
+  float b = texture(u_texture, v_texCoord - offset).b;
+  fragColor = vec4(r, center.g, b, center.a);
+}
+`,
+
+  filmGrain: `${EFFECT_HEADER}
+uniform float u_intensity;
+uniform float u_time;
+
+float hash(vec2 p) {
+  vec3 p3 = fract(vec3(p.xyx) * 0.1031);
+  p3 += dot(p3, p3.yzx + 33.33);
+  return fract((p3.x + p3.y) * p3.z);
+}
+
+void main() {
+  vec4 color = texture(u_texture, v_texCoord);
+  float noise = hash(gl_FragCoord.xy + fract(u_time * 24.0) * 1000.0) - 0.5;
+  fragColor = vec4(color.rgb + noise * u_intensity, color.a);
+}
+`,
+
+  vignette: `${EFFECT_HEADER}
+uniform float u_intensity;
+uniform float u_radius;
+uniform float u_softness;
+
+void main() {
+  vec4 color = texture(u_texture, v_texCoord);
+  // 1 at the corners
+  float distance = length(v_texCoord - 0.5) * 1.41421;
+  float shade = smoothstep(u_radius, u_radius - u_softness, distance);
+  fragColor = vec4(color.rgb * mix(1.0, shade, u_intensity), color.a);
+}
+`,
+
+  rgbSplit: `${EFFECT_HEADER}
+uniform float u_amount;
+uniform float u_angle;
+
+void main() {
+  vec2 offset = vec2(cos(u_angle), sin(u_angle)) * clamp(u_amount, 0.0, 0.1);
+  vec4 center = texture(u_texture, v_texCoord);
+  float r = texture(u_texture, v_texCoord + offset).r;
+  float b = texture(u_texture, v_texCoord - offset).b;
+  fragColor = vec4(r, center.g, b, center.a);
+}
+`,
+}
+
+// Bloom runs a bright pass, halves it `levels` times and adds the levels back up
+// (dual-filter blur), then adds the result to the image
+export const BLOOM_SHADERS = {
+  prefilter: `${EFFECT_HEADER}
+uniform vec2 u_texelSize;
+uniform float u_threshold;
+
+void main() {
+  vec2 o = u_texelSize * 0.5;
+  vec3 color = (texture(u_texture, v_texCoord + vec2(-o.x, -o.y)).rgb
+    + texture(u_texture, v_texCoord + vec2(o.x, -o.y)).rgb
+    + texture(u_texture, v_texCoord + vec2(-o.x, o.y)).rgb
+    + texture(u_texture, v_texCoord + vec2(o.x, o.y)).rgb) * 0.25;
+  float brightness = max(color.r, max(color.g, color.b));
+  float contribution = max(brightness - u_threshold, 0.0) / max(brightness, 0.0001);
+  fragColor = vec4(color * contribution, 1.0);
+}
+`,
+
+  downsample: `${EFFECT_HEADER}
+uniform vec2 u_texelSize;
+
+void main() {
+  vec2 o = u_texelSize;
+  vec3 sum = texture(u_texture, v_texCoord).rgb * 4.0
+    + texture(u_texture, v_texCoord - o).rgb
+    + texture(u_texture, v_texCoord + o).rgb
+    + texture(u_texture, v_texCoord + vec2(o.x, -o.y)).rgb
+    + texture(u_texture, v_texCoord + vec2(-o.x, o.y)).rgb;
+  fragColor = vec4(sum / 8.0, 1.0);
+}
+`,
+
+  // u_texture is the smaller level, u_base this level before upsampling
+  upsample: `${EFFECT_HEADER}
+uniform sampler2D u_base;
+uniform vec2 u_texelSize;
+uniform float u_radius;
+
+void main() {
+  vec2 o = u_texelSize * u_radius;
+  vec3 sum = texture(u_texture, v_texCoord + vec2(-o.x * 2.0, 0.0)).rgb
+    + texture(u_texture, v_texCoord + vec2(o.x * 2.0, 0.0)).rgb
+    + texture(u_texture, v_texCoord + vec2(0.0, -o.y * 2.0)).rgb
+    + texture(u_texture, v_texCoord + vec2(0.0, o.y * 2.0)).rgb
+    + (texture(u_texture, v_texCoord + vec2(-o.x, -o.y)).rgb
+      + texture(u_texture, v_texCoord + vec2(o.x, -o.y)).rgb
+      + texture(u_texture, v_texCoord + vec2(-o.x, o.y)).rgb
+      + texture(u_texture, v_texCoord + vec2(o.x, o.y)).rgb) * 2.0;
+  fragColor = vec4(texture(u_base, v_texCoord).rgb + sum / 12.0, 1.0);
+}
+`,
+
+  composite: `${EFFECT_HEADER}
+uniform sampler2D u_bloom;
+uniform float u_intensity;
+
+void main() {
+  vec4 color = texture(u_texture, v_texCoord);
+  fragColor = vec4(color.rgb + texture(u_bloom, v_texCoord).rgb * u_intensity, color.a);
+}
+`,
+}
+
+export function isAudioBinding(param: EffectParam): param is AudioBinding {
+  return typeof param === 'object' && !Array.isArray(param)
+}
+
+// The float an audio uniform would get this frame; unknown sources read as 0
+export function getAudioValue(audioData: AudioData, source: string): number {
+  switch (source) {
+    case 'energy':
+      return audioData.energy
+    case 'bass':
+      return audioData.bass
+    case 'treble':
+      return audioData.treble
+    case 'beat':
+      return audioData.beat ? 1 : 0
+    case 'kick':
+    case 'snare':
+    case 'hat':
+      return audioData.onsets?.[source] === true ? 1 : 0
+    case 'onset':
+      return audioData.onsetStrength ?? 0
+    case 'bpm':
+      return audioData.tempo?.bpm ?? 0
+    case 'beatPhase':
+      return audioData.tempo?.beatPhase ?? 0
+    case 'barPhase':
+      return audioData.tempo?.barPhase ?? 0
+    case 'tempoConfidence':
+      return audioData.tempo?.confidence ?? 0
+  }
+
+  // Frequency ranges, with the same Rel and Att suffixes as their uniforms
+  const match = /^(.*?)(Rel|Att)?$/.exec(source) as RegExpExecArray
+  const level = audioData.levels?.[match[1]]
+  if (level === undefined)
+    return 0
+  if (match[2] === 'Rel')
+    return level.relative
+  if (match[2] === 'Att')
+    return level.att
+  return level.value
+}
+
+export function validateEffectParams(effect: string, params: Record<string, EffectParam>): void {
+  for (const [name, param] of Object.entries(params)) {
+    if (Array.isArray(param) && (param.length < 2 || param.length > 4))
+      throw new Error(`Effect '${effect}' parameter '${name}' must have 2 to 4 components, got ${param.length}`)
+    if (isAudioBinding(param) && typeof param.source !== 'string')
+      throw new Error(`Effect '${effect}' parameter '${name}' needs an audio source`)
+  }
+}
+
+export function resolveEffectParam(param: EffectParam, audioData: AudioData): number | number[] {
+  if (!isAudioBinding(param))
+    return param
+  return (param.offset ?? 0) + getAudioValue(audioData, param.source) * (param.scale ?? 1)
+}
+
+export function getEffectName(entry: EffectStackEntry): string {
+  const effect = typeof entry === 'string' ? entry : entry.effect
+  return typeof effect === 'string' ? effect : effect.name
+}
@@ -1,4 +1,10 @@
-import type { Preset } from './Preset'
+import type { ButterchurnPreset } from './milkdrop/butterchurn'
+import type { MilkdropImportResult } from './milkdrop/MilkdropPreset'
+import type { Preset, PresetMetadata } from './Preset'
+import { logger } from '../core/logger'
+import { isButterchurnPreset, parseButterchurn } from './milkdrop/butterchurn'
+import { createMilkdropPreset } from './milkdrop/MilkdropPreset'
+import { parseMilk } from './milkdrop/milkParser'
 import { PresetBuilder } from './Preset'
 
 export class PresetLoader {
@@ -22,6 +28,30 @@ export class PresetLoader {
     }
   }
 
+  public async loadFromMilk(source: string, metadata: Partial<PresetMetadata> = {}): Promise<MilkdropImportResult> {
+    try {
+      const parsed = parseMilk(source)
+      const result = createMilkdropPreset(parsed.data, this.createMilkdropMetadata(metadata))
+      return { preset: result.preset, warnings: [...parsed.warnings, ...result.warnings] }
+    }
+    catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      throw new Error(`Failed to load preset from .milk file: ${errorMessage}`)
+    }
+  }
+
+  public async loadFromButterchurn(data: ButterchurnPreset, metadata: Partial<PresetMetadata> = {}): Promise<MilkdropImportResult> {
+    try {
+      const parsed = parseButterchurn(data)
+      const result = createMilkdropPreset(parsed.data, this.createMilkdropMetadata(metadata))
+      return { preset: result.preset, warnings: [...parsed.warnings, ...result.warnings] }
+    }
+    catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      throw new Error(`Failed to load preset from Butterchurn JSON: ${errorMessage}`)
+    }
+  }
+
   public async loadFromURL(url: string): Promise<Preset> {
     try {
       const response = await fetch(url)
@@ -29,8 +59,24 @@ export class PresetLoader {
         throw new Error(`HTTP ${response.status}: ${response.statusText}`)
       }
 
-      const data = await response.json() as Preset
-      return await this.loadFromJSON(data)
+      // Milkdrop and Butterchurn presets are named after their file
+      const fileName = decodeURIComponent(url.split(/[?#]/)[0].split('/').pop() ?? '')
+      const name = fileName.replace(/\.(?:milk|json)$/i, '') || url
+
+      if (/\.milk$/i.test(fileName)) {
+        const result = await this.loadFromMilk(await response.text(), { name })
+        this.reportImportWarnings(name, result.warnings)
+        return result.preset
+      }
+
+      const data = await response.json() as unknown
+      if (isButterchurnPreset(data)) {
+        const result = await this.loadFromButterchurn(data, { name })
+        this.reportImportWarnings(name, result.warnings)
+        return result.preset
+      }
+
+      return await this.loadFromJSON(data as Preset)
     }
     catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error)
@@ -53,6 +99,20 @@ export class PresetLoader {
       .build()
   }
 
+  private createMilkdropMetadata(metadata: Partial<PresetMetadata>): PresetMetadata {
+    return {
+      name: 'Untitled Milkdrop preset',
+      author: 'Unknown',
+      ...metadata,
+    }
+  }
+
+  private reportImportWarnings(name: string, warnings: string[]): void {
+    for (const warning of warnings) {
+      logger.warn(`Preset '${name}': ${warning}`)
+    }
+  }
+
   public registerPreset(id: string, preset: Preset): void {
     this.loadedPresets.set(id, preset)
   }
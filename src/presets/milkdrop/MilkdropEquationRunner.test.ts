@@ -0,0 +1,54 @@
+import type { AudioData } from '../PresetRunner'
+import type { MilkdropPresetData } from './MilkdropPreset'
+import { describe, expect, it } from 'vitest'
+import { createSeededRandom } from '../../core/Clock'
+import { MEGABUF_SIZE } from './eel/compiler'
+import { MilkdropEquationRunner } from './MilkdropEquationRunner'
+import { createMilkdropUniforms } from './MilkdropPreset'
+
+// Counts frames in gmegabuf, so anything left over from another run shows up in zoom
+const PRESET: MilkdropPresetData = {
+  version: 201,
+  baseValues: {},
+  equations: {
+    init: '',
+    perFrame: 'gmegabuf(0) += 1; zoom = gmegabuf(0) + rand(10) / 100;',
+    perPixel: '',
+  },
+  waves: [],
+  shapes: [],
+  shaderLanguage: 'glsl',
+}
+
+const AUDIO: AudioData = {
+  spectrum: new Uint8Array(0),
+  waveform: new Uint8Array(0),
+  energy: 0.5,
+  beat: false,
+  bass: 0.5,
+  treble: 0.5,
+}
+
+// One run as an offline render makes it: a seeded random and the given gmegabuf
+function render(gmegabuf: Float64Array, frames = 5): number[] {
+  const runner = new MilkdropEquationRunner(PRESET, createMilkdropUniforms(PRESET.baseValues), createSeededRandom(1), gmegabuf)
+  return Array.from({ length: frames }, (_, frame) => {
+    runner.update(AUDIO, frame / 30, frame, 640, 480)
+    return runner.getVariable('zoom')
+  })
+}
+
+describe('milkdropEquationRunner', () => {
+  it('renders the same preset twice identically with a fresh gmegabuf each time', () => {
+    const first = render(new Float64Array(MEGABUF_SIZE))
+    const second = render(new Float64Array(MEGABUF_SIZE))
+    expect(second).toEqual(first)
+    expect(Math.floor(first[4])).toBe(5)
+  })
+
+  it('carries gmegabuf over between presets that share it', () => {
+    const gmegabuf = new Float64Array(MEGABUF_SIZE)
+    render(gmegabuf)
+    expect(Math.floor(render(gmegabuf)[0])).toBe(6)
+  })
+})
@@ -0,0 +1,147 @@
+import type { PresetUniforms } from '../Preset'
+import type { AudioData } from '../PresetRunner'
+import type { EELFunction } from './eel/compiler'
+import type { MilkdropPresetData } from './MilkdropPreset'
+import { logger } from '../../core/logger'
+import { compileEEL, EELContext } from './eel/compiler'
+import { collectVariables, parseEEL } from './eel/parser'
+import { getPerPixelUniformKey, MILKDROP_DEFAULT_BASE_VALUES, MILKDROP_UNIFORM_BINDINGS } from './MilkdropPreset'
+
+const Q_VARIABLES = Array.from({ length: 32 }, (_, i) => `q${i + 1}`)
+
+export class MilkdropEquationRunner {
+  private context: EELContext
+  private baseValues: Record<string, number>
+  private initEquations: EELFunction | null
+  private perFrameEquations: EELFunction | null
+  private uniforms: PresetUniforms
+  private perPixelVariables: Map<string, string> = new Map()
+  private initialQValues: Record<string, number> = {}
+  private initialized = false
+  private lastTime: number | null = null
+
+  // gmegabuf is shared with every other preset the owner runs
+  constructor(data: MilkdropPresetData, uniforms: PresetUniforms = {}, random: () => number = Math.random, gmegabuf?: Float64Array) {
+    this.context = new EELContext({ random, gmegabuf })
+    this.baseValues = { ...MILKDROP_DEFAULT_BASE_VALUES, ...data.baseValues }
+    this.initEquations = this.tryCompile(data.equations.init, 'init')
+    this.perFrameEquations = this.tryCompile(data.equations.perFrame, 'per-frame')
+
+    // Own copy, so the preset keeps its declared values
+    this.uniforms = {}
+    for (const [name, uniform] of Object.entries(uniforms)) {
+      this.uniforms[name] = {
+        ...uniform,
+        value: structuredClone(uniform.value),
+      }
+    }
+
+    // rand_preset stays fixed for the lifetime of the preset
+    if ('randPreset' in this.uniforms) {
+      this.uniforms.randPreset.value = this.nextRandomVector()
+    }
+
+    // Per-frame variables that the per-pixel shader reads through uniforms
+    try {
+      for (const name of collectVariables(parseEEL(data.equations.perPixel))) {
+        const key = getPerPixelUniformKey(name)
+        if (key in this.uniforms) {
+          this.perPixelVariables.set(key, name)
+        }
+      }
+    }
+    catch {
+      // Untranslatable per-pixel code was already dropped from the shader
+    }
+  }
+
+  private tryCompile(code: string, label: string): EELFunction | null {
+    if (!code.trim())
+      return null
+
+    try {
+      return compileEEL(code, this.context)
+    }
+    catch (error) {
+      logger.warn(`Skipping ${label} equations:`, error)
+      return null
+    }
+  }
+
+  private nextRandomVector(): number[] {
+    return Array.from({ length: 4 }, () => this.context.nextRandom())
+  }
+
+  public update(audioData: AudioData, time: number, frame: number, width: number, height: number): void {
+    const context = this.context
+
+    // Per-frame outputs start from the preset's base values every frame
+    context.restore(this.baseValues)
+
+    const deltaTime = this.lastTime === null ? 0 : time - this.lastTime
+    this.lastTime = time
+
+    context.set('time', time)
+    context.set('frame', frame)
+    context.set('fps', deltaTime > 0 ? 1 / deltaTime : 60)
+    context.set('progress', 0)
+
+    // Milkdrop's levels are relative to their long-term average, so about 1 is typical;
+    // without tracked levels the raw values stand in
+    const bass = audioData.levels?.bass ?? { relative: audioData.bass, att: audioData.bass }
+    const mid = audioData.levels?.mid ?? { relative: audioData.energy, att: audioData.energy }
+    const treb = audioData.levels?.treb ?? { relative: audioData.treble, att: audioData.treble }
+    context.set('bass', bass.relative)
+    context.set('mid', mid.relative)
+    context.set('treb', treb.relative)
+    context.set('bass_att', bass.att)
+    context.set('mid_att', mid.att)
+    context.set('treb_att', treb.att)
+    context.set('vol', (bass.relative + mid.relative + treb.relative) / 3)
+    context.set('vol_att', (bass.att + mid.att + treb.att) / 3)
+
+    context.set('pixelsx', width)
+    context.set('pixelsy', height)
+    context.set('aspectx', height > width ? width / height : 1)
+    context.set('aspecty', width > height ? height / width : 1)
+
+    if (!this.initialized) {
+      this.initEquations?.()
+      this.initialQValues = context.snapshot(Q_VARIABLES)
+      this.initialized = true
+    }
+    else {
+      // q1-q32 go back to their post-init values before each frame
+      context.restore(this.initialQValues)
+    }
+
+    this.perFrameEquations?.()
+
+    for (const [key, binding] of Object.entries(MILKDROP_UNIFORM_BINDINGS)) {
+      if (!(binding.uniform in this.uniforms))
+        continue
+
+      const uniform = this.uniforms[binding.uniform]
+      if (binding.component === undefined)
+        uniform.value = context.get(key)
+      else if (Array.isArray(uniform.value))
+        uniform.value[binding.component] = context.get(key)
+    }
+
+    for (const [key, name] of this.perPixelVariables) {
+      this.uniforms[key].value = context.get(name)
+    }
+
+    if ('randFrame' in this.uniforms) {
+      this.uniforms.randFrame.value = this.nextRandomVector()
+    }
+  }
+
+  public getUniforms(): PresetUniforms {
+    return this.uniforms
+  }
+
+  public getVariable(name: string): number {
+    return this.context.get(name.toLowerCase())
+  }
+}
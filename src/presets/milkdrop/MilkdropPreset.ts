@@ -0,0 +1,581 @@
+import type { ShaderSourceMap } from '../../core/ShaderSourceMap'
+import type { Preset, PresetMetadata, PresetPass, PresetUniforms } from '../Preset'
+import { PresetBuilder } from '../Preset'
+import { compileEEL, EELContext } from './eel/compiler'
+import { EEL_GLSL_PRELUDE, toGLSLIdentifier, translateEELToGLSL } from './eel/glsl'
+import { collectVariables, parseEEL } from './eel/parser'
+import { translateMilkdropShader } from './hlsl'
+
+export interface MilkdropEquations {
+  init: string
+  perFrame: string
+  perPixel: string
+}
+
+export interface MilkdropWave {
+  index: number
+  baseValues: Record<string, number>
+  init: string
+  perFrame: string
+  perPoint: string
+}
+
+export interface MilkdropShape {
+  index: number
+  baseValues: Record<string, number>
+  init: string
+  perFrame: string
+}
+
+export interface MilkdropPresetData {
+  version: number
+  baseValues: Record<string, number>
+  equations: MilkdropEquations
+  waves: MilkdropWave[]
+  shapes: MilkdropShape[]
+  warpShader?: string
+  compShader?: string
+  shaderLanguage: 'hlsl' | 'glsl'
+}
+
+export interface MilkdropImportResult {
+  preset: Preset
+  warnings: string[]
+}
+
+// Milkdrop defaults, keyed by the lowercase names Butterchurn uses
+export const MILKDROP_DEFAULT_BASE_VALUES: Record<string, number> = {
+  rating: 3,
+  gammaadj: 2,
+  decay: 0.98,
+  echo_zoom: 2,
+  echo_alpha: 0,
+  echo_orient: 0,
+  wave_mode: 0,
+  additivewave: 0,
+  wave_dots: 0,
+  wave_thick: 0,
+  modwavealphabyvolume: 0,
+  wave_brighten: 1,
+  wrap: 1,
+  darken_center: 0,
+  red_blue: 0,
+  brighten: 0,
+  darken: 0,
+  solarize: 0,
+  invert: 0,
+  wave_a: 1,
+  wave_scale: 1,
+  wave_smoothing: 0.75,
+  wave_mystery: 0,
+  modwavealphastart: 0.75,
+  modwavealphaend: 0.95,
+  warpanimspeed: 1,
+  warpscale: 1,
+  zoomexp: 1,
+  fshader: 0,
+  zoom: 1,
+  rot: 0,
+  cx: 0.5,
+  cy: 0.5,
+  dx: 0,
+  dy: 0,
+  warp: 1,
+  sx: 1,
+  sy: 1,
+  wave_r: 1,
+  wave_g: 1,
+  wave_b: 1,
+  wave_x: 0.5,
+  wave_y: 0.5,
+  ob_size: 0.01,
+  ob_r: 0,
+  ob_g: 0,
+  ob_b: 0,
+  ob_a: 0,
+  ib_size: 0.01,
+  ib_r: 0.25,
+  ib_g: 0.25,
+  ib_b: 0.25,
+  ib_a: 0,
+  mv_x: 12,
+  mv_y: 9,
+  mv_dx: 0,
+  mv_dy: 0,
+  mv_l: 0.9,
+  mv_r: 1,
+  mv_g: 1,
+  mv_b: 1,
+  mv_a: 0,
+  b1n: 0,
+  b2n: 0,
+  b3n: 0,
+  b1x: 1,
+  b2x: 1,
+  b3x: 1,
+  b1ed: 0.25,
+}
+
+// q1-q32 are packed four at a time into _qa-_qh, as Milkdrop shaders expect
+const Q_BINDINGS = Object.fromEntries(Array.from({ length: 32 }, (_, i) => [
+  `q${i + 1}`,
+  { uniform: `q${'abcdefgh'[Math.floor(i / 4)]}`, component: i % 4 },
+]))
+
+// Variables the generated shaders read, and the uniform each one feeds
+export const MILKDROP_UNIFORM_BINDINGS: Record<string, { uniform: string, component?: number }> = {
+  decay: { uniform: 'decay' },
+  zoom: { uniform: 'zoom' },
+  zoomexp: { uniform: 'zoomExp' },
+  rot: { uniform: 'rot' },
+  cx: { uniform: 'center', component: 0 },
+  cy: { uniform: 'center', component: 1 },
+  dx: { uniform: 'translate', component: 0 },
+  dy: { uniform: 'translate', component: 1 },
+  sx: { uniform: 'stretch', component: 0 },
+  sy: { uniform: 'stretch', component: 1 },
+  warp: { uniform: 'warp' },
+  warpanimspeed: { uniform: 'warpAnimSpeed' },
+  warpscale: { uniform: 'warpScale' },
+  wrap: { uniform: 'texWrap' },
+  wave_mode: { uniform: 'waveMode' },
+  wave_r: { uniform: 'waveColor', component: 0 },
+  wave_g: { uniform: 'waveColor', component: 1 },
+  wave_b: { uniform: 'waveColor', component: 2 },
+  wave_a: { uniform: 'waveColor', component: 3 },
+  wave_x: { uniform: 'wavePosition', component: 0 },
+  wave_y: { uniform: 'wavePosition', component: 1 },
+  wave_scale: { uniform: 'waveScale' },
+  gammaadj: { uniform: 'gammaAdj' },
+  echo_zoom: { uniform: 'echoZoom' },
+  echo_alpha: { uniform: 'echoAlpha' },
+  echo_orient: { uniform: 'echoOrient' },
+  time: { uniform: 'frameInfo', component: 0 },
+  fps: { uniform: 'frameInfo', component: 1 },
+  frame: { uniform: 'frameInfo', component: 2 },
+  progress: { uniform: 'frameInfo', component: 3 },
+  bass: { uniform: 'levels', component: 0 },
+  mid: { uniform: 'levels', component: 1 },
+  treb: { uniform: 'levels', component: 2 },
+  vol: { uniform: 'levels', component: 3 },
+  bass_att: { uniform: 'levelsAtt', component: 0 },
+  mid_att: { uniform: 'levelsAtt', component: 1 },
+  treb_att: { uniform: 'levelsAtt', component: 2 },
+  vol_att: { uniform: 'levelsAtt', component: 3 },
+  ...Q_BINDINGS,
+}
+
+// Read-only inputs of per-pixel equations
+const PER_PIXEL_INPUTS = ['x', 'y', 'rad', 'ang']
+
+// Per-pixel outputs, as the warpUV() locals they write back to
+const PER_PIXEL_OUTPUTS: Record<string, string> = {
+  zoom: 'zoom',
+  zoomexp: 'zoomExp',
+  rot: 'rot',
+  warp: 'warp',
+  cx: 'center.x',
+  cy: 'center.y',
+  dx: 'translate.x',
+  dy: 'translate.y',
+  sx: 'stretch.x',
+  sy: 'stretch.y',
+}
+
+// Base values with no renderer support; only reported when they would be visible
+const UNSUPPORTED_BASE_VALUES: Record<string, (values: Record<string, number>) => boolean> = {
+  ob_size: values => values.ob_size > 0 && values.ob_a > 0,
+  ib_size: values => values.ib_size > 0 && values.ib_a > 0,
+  mv_a: values => values.mv_a > 0 && values.mv_x > 0 && values.mv_y > 0,
+  darken_center: values => values.darken_center !== 0,
+  red_blue: values => values.red_blue !== 0,
+  brighten: values => values.brighten !== 0,
+  darken: values => values.darken !== 0,
+  solarize: values => values.solarize !== 0,
+  invert: values => values.invert !== 0,
+  wave_dots: values => values.wave_dots !== 0,
+  wave_thick: values => values.wave_thick !== 0,
+  additivewave: values => values.additivewave !== 0,
+  modwavealphabyvolume: values => values.modwavealphabyvolume !== 0,
+}
+
+const COORDINATE_FUNCTIONS = `
+// Distance from the center, 0 in the middle and 1 in the corners
+float md_rad(vec2 uv) {
+  float aspect = u_resolution.x / u_resolution.y;
+  vec2 p = (uv - 0.5) * 2.0;
+  return length(vec2(p.x * aspect, p.y)) / sqrt(aspect * aspect + 1.0);
+}
+
+float md_ang(vec2 uv) {
+  vec2 p = (uv - 0.5) * 2.0;
+  return atan(p.y, p.x * u_resolution.x / u_resolution.y);
+}
+`
+
+// Uniforms, per-pixel motion and wave drawing shared by the built-in and translated warp shaders
+export const MILKDROP_WARP_HEADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 fragColor;
+
+uniform float u_time;
+uniform vec2 u_resolution;
+uniform sampler2D u_previousFrame;
+uniform sampler2D u_waveform;
+
+uniform float u_decay;
+uniform float u_zoom;
+uniform float u_zoomExp;
+uniform float u_rot;
+uniform vec2 u_center;
+uniform vec2 u_translate;
+uniform vec2 u_stretch;
+uniform float u_warp;
+uniform float u_warpAnimSpeed;
+uniform float u_warpScale;
+uniform float u_texWrap;
+uniform float u_waveMode;
+uniform vec4 u_waveColor;
+uniform vec2 u_wavePosition;
+uniform float u_waveScale;
+
+const float PI = 3.14159265;
+
+// #milkdrop-per-pixel
+${COORDINATE_FUNCTIONS}
+vec2 warpUV(vec2 uv) {
+  vec2 p = (uv - 0.5) * 2.0;
+  float rad = md_rad(uv);
+  float ang = md_ang(uv);
+
+  // Per-frame values, which per-pixel equations may override
+  float zoom = u_zoom;
+  float zoomExp = u_zoomExp;
+  float rot = u_rot;
+  float warp = u_warp;
+  vec2 center = u_center;
+  vec2 translate = u_translate;
+  vec2 stretch = u_stretch;
+  perPixel(uv.x, uv.y, rad, ang, zoom, zoomExp, rot, warp, center, translate, stretch);
+
+  // Zoom, with the exponent bending it towards the edges
+  float zoom2 = pow(zoom, pow(zoomExp, rad * 2.0 - 1.0));
+  vec2 warped = p * 0.5 / zoom2 + 0.5;
+
+  // Stretch around the center
+  warped = (warped - center) / stretch + center;
+
+  // Animated warp
+  float t = u_time * u_warpAnimSpeed;
+  float scaleInv = 1.0 / u_warpScale;
+  vec4 f = vec4(
+    11.68 + 4.0 * cos(t * 1.413 + 10.0),
+    8.77 + 3.0 * cos(t * 1.113 + 7.0),
+    10.54 + 3.0 * cos(t * 1.233 + 3.0),
+    11.49 + 4.0 * cos(t * 0.933 + 5.0)
+  );
+  warped.x += warp * 0.0035 * sin(t * 0.333 + scaleInv * (p.x * f.x - p.y * f.w));
+  warped.y += warp * 0.0035 * cos(t * 0.375 - scaleInv * (p.x * f.z + p.y * f.y));
+  warped.x += warp * 0.0035 * cos(t * 0.753 - scaleInv * (p.x * f.y - p.y * f.z));
+  warped.y += warp * 0.0035 * sin(t * 0.825 + scaleInv * (p.x * f.x + p.y * f.w));
+
+  // Rotation around the center
+  vec2 d = warped - center;
+  float c = cos(rot);
+  float s = sin(rot);
+  warped = vec2(d.x * c - d.y * s, d.x * s + d.y * c) + center;
+
+  return warped - translate;
+}
+
+float sampleWave(float t) {
+  return (texture(u_waveform, vec2(t, 0.5)).r - 0.5) * 2.0 * u_waveScale;
+}
+
+vec3 drawWave(vec2 uv) {
+  float aspect = u_resolution.x / u_resolution.y;
+  float dist;
+
+  if (u_waveMode < 1.5) {
+    // Modes 0 and 1: circular wave around the wave position
+    vec2 p = uv - u_wavePosition;
+    p.x *= aspect;
+    float t = atan(p.y, p.x) / (2.0 * PI) + 0.5;
+    dist = abs(length(p) - (0.25 + sampleWave(t) * 0.1));
+  }
+  else {
+    // Other modes: horizontal line through the wave position
+    dist = abs(uv.y - (u_wavePosition.y + sampleWave(uv.x) * 0.25));
+  }
+
+  float line = 1.0 - smoothstep(0.0, 2.0 / u_resolution.y, dist);
+  return u_waveColor.rgb * u_waveColor.a * line;
+}
+
+// Warped source coordinate, wrapped or clamped like Milkdrop's bTexWrap
+vec2 md_sourceUV(vec2 uv) {
+  vec2 source = warpUV(uv);
+  return u_texWrap > 0.5 ? fract(source) : clamp(source, 0.0, 1.0);
+}
+`
+
+const MILKDROP_WARP_MAIN = `
+void main() {
+  vec2 uv = gl_FragCoord.xy / u_resolution.xy;
+
+  vec3 color = texture(u_previousFrame, md_sourceUV(uv)).rgb * u_decay;
+  color = max(color, drawWave(uv));
+
+  fragColor = vec4(color, 1.0);
+}
+`
+
+export const MILKDROP_WARP_FRAGMENT_SHADER = `${MILKDROP_WARP_HEADER}${MILKDROP_WARP_MAIN}`
+
+const WARP_PASS_NAME = 'md_warp'
+
+// The composite pass reads the warp pass as u_md_warp and draws to the screen without feeding back
+export const MILKDROP_COMP_HEADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 fragColor;
+
+uniform float u_time;
+uniform vec2 u_resolution;
+uniform sampler2D u_md_warp;
+
+uniform float u_gammaAdj;
+uniform float u_echoZoom;
+uniform float u_echoAlpha;
+uniform float u_echoOrient;
+${COORDINATE_FUNCTIONS}`
+
+// Milkdrop's fixed-function composite: video echo, then gamma
+const MILKDROP_COMP_MAIN = `
+void main() {
+  vec2 uv = gl_FragCoord.xy / u_resolution.xy;
+  vec3 color = texture(u_md_warp, uv).rgb;
+
+  vec2 echoUV = (uv - 0.5) / u_echoZoom + 0.5;
+  int orient = int(u_echoOrient) % 4;
+  if (orient == 1 || orient == 3)
+    echoUV.x = 1.0 - echoUV.x;
+  if (orient >= 2)
+    echoUV.y = 1.0 - echoUV.y;
+  color = mix(color, texture(u_md_warp, echoUV).rgb, u_echoAlpha);
+
+  fragColor = vec4(color * u_gammaAdj, 1.0);
+}
+`
+
+export const MILKDROP_COMP_FRAGMENT_SHADER = `${MILKDROP_COMP_HEADER}${MILKDROP_COMP_MAIN}`
+
+// Inputs Milkdrop gives warp shaders, and how the result is written out
+const WARP_SHADER_PROLOGUE = 'vec2 uv_orig = gl_FragCoord.xy / u_resolution.xy; vec2 uv = md_sourceUV(uv_orig); float rad = md_rad(uv_orig); float ang = md_ang(uv_orig); vec3 ret = vec3(0.0);'
+const WARP_SHADER_EPILOGUE = 'fragColor = vec4(max(ret, drawWave(uv_orig)), 1.0);'
+
+const COMP_SHADER_PROLOGUE = 'vec2 uv = gl_FragCoord.xy / u_resolution.xy; vec2 uv_orig = uv; float rad = md_rad(uv); float ang = md_ang(uv); vec3 hue_shader = vec3(1.0); vec3 ret = vec3(0.0);'
+const COMP_SHADER_EPILOGUE = 'fragColor = vec4(ret, 1.0);'
+
+// Build the preset uniforms from the bound base values
+export function createMilkdropUniforms(baseValues: Record<string, number>): PresetUniforms {
+  const uniforms: PresetUniforms = {}
+
+  for (const [key, binding] of Object.entries(MILKDROP_UNIFORM_BINDINGS)) {
+    const value = baseValues[key] ?? MILKDROP_DEFAULT_BASE_VALUES[key] ?? 0
+
+    if (binding.component === undefined) {
+      uniforms[binding.uniform] = { type: 'float', value }
+      continue
+    }
+
+    const existing = uniforms[binding.uniform]
+    const components = Array.isArray(existing?.value) ? existing.value : []
+    components[binding.component] = value
+
+    const types = ['float', 'vec2', 'vec3', 'vec4'] as const
+    uniforms[binding.uniform] = {
+      type: types[Math.max(components.length, 2) - 1],
+      value: components,
+    }
+  }
+
+  // Refreshed by MilkdropEquationRunner
+  uniforms.randFrame = { type: 'vec4', value: [0, 0, 0, 0] }
+  uniforms.randPreset = { type: 'vec4', value: [0, 0, 0, 0] }
+
+  return uniforms
+}
+
+const PER_PIXEL_SIGNATURE = 'void perPixel(float x, float y, float rad, float ang, inout float zoom, inout float zoomExp, inout float rot, inout float warp, inout vec2 center, inout vec2 translate, inout vec2 stretch)'
+
+// Uniform key carrying a per-frame variable into per-pixel code
+export function getPerPixelUniformKey(name: string): string {
+  return `eel_${toGLSLIdentifier(name)}`
+}
+
+interface PerPixelTranslation {
+  source: string
+  uniforms: PresetUniforms
+}
+
+// Per-pixel equations run on the GPU; every variable they read that is not a
+// per-pixel input or output comes from the per-frame context through a uniform
+function translatePerPixel(code: string): PerPixelTranslation {
+  if (!code.trim())
+    return { source: `${PER_PIXEL_SIGNATURE} {}`, uniforms: {} }
+
+  const ast = parseEEL(code)
+  const names = collectVariables(ast)
+  const uniforms: PresetUniforms = {}
+  const locals: string[] = []
+
+  for (const name of names) {
+    const local = `e_${toGLSLIdentifier(name)}`
+    const output = PER_PIXEL_OUTPUTS[name]
+
+    if (PER_PIXEL_INPUTS.includes(name)) {
+      locals.push(`  float ${local} = ${name};`)
+    }
+    else if (output !== undefined) {
+      locals.push(`  float ${local} = ${output};`)
+    }
+    else {
+      const key = getPerPixelUniformKey(name)
+      uniforms[key] = { type: 'float', value: 0 }
+      locals.push(`  float ${local} = u_${key};`)
+    }
+  }
+
+  const declarations = Object.keys(uniforms).map(key => `uniform float u_${key};`)
+  const writeBack = Object.entries(PER_PIXEL_OUTPUTS)
+    .filter(([name]) => names.has(name))
+    .map(([name, output]) => `  ${output} = e_${name};`)
+
+  return {
+    source: [
+      ...declarations,
+      EEL_GLSL_PRELUDE,
+      `${PER_PIXEL_SIGNATURE} {`,
+      ...locals,
+      `  ${translateEELToGLSL(ast, name => `e_${toGLSLIdentifier(name)}`)}`,
+      ...writeBack,
+      '}',
+    ].join('\n'),
+    uniforms,
+  }
+}
+
+export function createMilkdropPreset(data: MilkdropPresetData, metadata: PresetMetadata): MilkdropImportResult {
+  const warnings: string[] = []
+  const baseValues = { ...MILKDROP_DEFAULT_BASE_VALUES, ...data.baseValues }
+
+  for (const [key, isVisible] of Object.entries(UNSUPPORTED_BASE_VALUES)) {
+    if (isVisible(baseValues)) {
+      warnings.push(`Base value '${key}' is not supported and will be ignored`)
+    }
+  }
+
+  // Init and per-frame equations run on the CPU; check they compile now
+  for (const [label, code] of [['Init', data.equations.init], ['Per-frame', data.equations.perFrame]]) {
+    try {
+      compileEEL(code, new EELContext())
+    }
+    catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      warnings.push(`${label} equations failed to compile and will be skipped: ${errorMessage}`)
+    }
+  }
+
+  let perPixel: PerPixelTranslation
+  try {
+    perPixel = translatePerPixel(data.equations.perPixel)
+  }
+  catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error)
+    warnings.push(`Per-pixel equations could not be translated and will be skipped: ${errorMessage}`)
+    perPixel = translatePerPixel('')
+  }
+
+  for (const wave of data.waves) {
+    if (wave.baseValues.enabled) {
+      warnings.push(`Custom wave ${wave.index} is not supported and will not be drawn`)
+    }
+  }
+
+  for (const shape of data.shapes) {
+    if (shape.baseValues.enabled) {
+      warnings.push(`Custom shape ${shape.index} is not supported and will not be drawn`)
+    }
+  }
+
+  const header = MILKDROP_WARP_HEADER.replace('// #milkdrop-per-pixel', perPixel.source)
+  // Not 'warp': RenderGraph would treat the warp amount uniform u_warp as a read of the pass
+  const warpPass: PresetPass = { name: WARP_PASS_NAME, fragment: `${header}${MILKDROP_WARP_MAIN}` }
+
+  if (data.warpShader !== undefined && data.shaderLanguage === 'hlsl') {
+    try {
+      const warp = translateMilkdropShader(data.warpShader, {
+        name: 'warp',
+        header,
+        mainSampler: 'u_previousFrame',
+        prologue: WARP_SHADER_PROLOGUE,
+        epilogue: WARP_SHADER_EPILOGUE,
+      })
+      warpPass.fragment = warp.source
+      warpPass.fragmentSourceMap = warp.sourceMap
+      warnings.push(...warp.warnings)
+    }
+    catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      warnings.push(`${errorMessage}\nThe built-in warp is used instead`)
+    }
+  }
+  else if (data.warpShader !== undefined) {
+    warnings.push('Warp shader is stored on the preset but not compiled; the built-in warp is used instead')
+  }
+
+  let fragment = MILKDROP_COMP_FRAGMENT_SHADER
+  let fragmentSourceMap: ShaderSourceMap | undefined
+
+  if (data.compShader !== undefined && data.shaderLanguage === 'hlsl') {
+    try {
+      const comp = translateMilkdropShader(data.compShader, {
+        name: 'comp',
+        header: MILKDROP_COMP_HEADER,
+        mainSampler: 'u_md_warp',
+        prologue: COMP_SHADER_PROLOGUE,
+        epilogue: COMP_SHADER_EPILOGUE,
+      })
+      fragment = comp.source
+      fragmentSourceMap = comp.sourceMap
+      warnings.push(...comp.warnings)
+    }
+    catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      warnings.push(`${errorMessage}\nThe built-in composite is used instead`)
+    }
+  }
+  else if (data.compShader !== undefined) {
+    warnings.push('Composite shader is stored on the preset but not compiled; the built-in composite is used instead')
+  }
+
+  const preset = PresetBuilder.create()
+    .setMetadata({
+      ...metadata,
+      tags: metadata.tags ?? ['milkdrop'],
+    })
+    .setShaders({
+      fragment,
+      fragmentSourceMap,
+      passes: [warpPass],
+    })
+    .setUniforms({ ...createMilkdropUniforms(baseValues), ...perPixel.uniforms })
+    .setMilkdrop({ ...data, baseValues })
+    .build()
+
+  return { preset, warnings }
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import { isButterchurnPreset, parseButterchurn } from './butterchurn'
+
+describe('isButterchurnPreset', () => {
+  it('recognizes converted preset JSON by its base values', () => {
+    expect(isButterchurnPreset({ baseVals: {} })).toBe(true)
+    expect(isButterchurnPreset({ name: 'Not a preset' })).toBe(false)
+    expect(isButterchurnPreset(null)).toBe(false)
+  })
+})
+
+describe('parseButterchurn', () => {
+  it('converts base values, equations, waves and shapes', () => {
+    const { data, warnings } = parseButterchurn({
+      version: 2,
+      baseVals: { zoom: 1.02, decay: 0.97 },
+      init_eqs_eel: 'a = 1;',
+      frame_eqs_eel: 'zoom = zoom + 0.1*bass;',
+      pixel_eqs_eel: 'rot = rad;',
+      waves: [{ baseVals: { enabled: 1 }, point_eqs_eel: 'x = sample;' }],
+      shapes: [{ baseVals: { sides: 4 }, frame_eqs_eel: 'ang = time;' }],
+      warp_hlsl: 'shader_body { ret = 0; }',
+      comp_hlsl: '',
+    })
+
+    expect(warnings).toEqual([])
+    expect(data.version).toBe(2)
+    expect(data.baseValues).toEqual({ zoom: 1.02, decay: 0.97 })
+    expect(data.equations).toEqual({ init: 'a = 1;', perFrame: 'zoom = zoom + 0.1*bass;', perPixel: 'rot = rad;' })
+    expect(data.waves).toEqual([{ index: 0, baseValues: { enabled: 1 }, init: '', perFrame: '', perPoint: 'x = sample;' }])
+    expect(data.shapes).toEqual([{ index: 0, baseValues: { sides: 4 }, init: '', perFrame: 'ang = time;' }])
+    expect(data.warpShader).toBe('shader_body { ret = 0; }')
+    expect(data.compShader).toBeUndefined()
+    expect(data.shaderLanguage).toBe('hlsl')
+  })
+
+  it('warns instead of running pre-compiled JavaScript', () => {
+    const { data, warnings } = parseButterchurn({
+      baseVals: {},
+      frame_eqs_str: 'a.zoom = a.zoom + 0.1;',
+      waves: [{ point_eqs_str: 'a.x = a.sample;' }],
+    })
+
+    expect(data.equations.perFrame).toBe('')
+    expect(warnings).toEqual([
+      'Custom wave 0 per-point equations only contains pre-compiled JavaScript, which is not executed; re-export the preset with its EEL source',
+      'Per-frame equations only contains pre-compiled JavaScript, which is not executed; re-export the preset with its EEL source',
+    ])
+  })
+
+  it('keeps converted GLSL shaders for reference only', () => {
+    const { data, warnings } = parseButterchurn({ baseVals: {}, warp: 'ret = texture(sampler_main, uv).rgb;' })
+
+    expect(data.version).toBe(201)
+    expect(data.shaderLanguage).toBe('glsl')
+    expect(data.warpShader).toBe('ret = texture(sampler_main, uv).rgb;')
+    expect(warnings).toEqual(['Shaders were converted to Butterchurn GLSL and are kept for reference only'])
+  })
+})
@@ -0,0 +1,108 @@
+import type { MilkdropPresetData, MilkdropShape, MilkdropWave } from './MilkdropPreset'
+
+export interface ButterchurnWave {
+  baseVals?: Record<string, number>
+  init_eqs_eel?: string
+  frame_eqs_eel?: string
+  point_eqs_eel?: string
+  init_eqs_str?: string
+  frame_eqs_str?: string
+  point_eqs_str?: string
+}
+
+export interface ButterchurnShape {
+  baseVals?: Record<string, number>
+  init_eqs_eel?: string
+  frame_eqs_eel?: string
+  init_eqs_str?: string
+  frame_eqs_str?: string
+}
+
+// Shape of the JSON produced by milkdrop-preset-converter / butterchurn-presets
+export interface ButterchurnPreset {
+  version?: number
+  baseVals?: Record<string, number>
+  waves?: ButterchurnWave[]
+  shapes?: ButterchurnShape[]
+  init_eqs_eel?: string
+  frame_eqs_eel?: string
+  pixel_eqs_eel?: string
+  init_eqs_str?: string
+  frame_eqs_str?: string
+  pixel_eqs_str?: string
+  warp_hlsl?: string
+  comp_hlsl?: string
+  warp?: string
+  comp?: string
+}
+
+export interface ButterchurnParseResult {
+  data: MilkdropPresetData
+  warnings: string[]
+}
+
+export function isButterchurnPreset(data: unknown): data is ButterchurnPreset {
+  return typeof data === 'object' && data !== null && 'baseVals' in data
+}
+
+// Prefer the original EEL source; the converted JS strings are never evaluated
+function pickEquations(eel: string | undefined, compiled: string | undefined, label: string, warnings: string[]): string {
+  if (eel !== undefined && eel.trim() !== '')
+    return eel
+
+  if (compiled !== undefined && compiled.trim() !== '') {
+    warnings.push(`${label} only contains pre-compiled JavaScript, which is not executed; re-export the preset with its EEL source`)
+  }
+
+  return ''
+}
+
+function nonEmpty(value: string | undefined): string | undefined {
+  return value !== undefined && value.trim() !== '' ? value : undefined
+}
+
+export function parseButterchurn(preset: ButterchurnPreset): ButterchurnParseResult {
+  const warnings: string[] = []
+
+  const waves: MilkdropWave[] = (preset.waves ?? []).map((wave, index) => ({
+    index,
+    baseValues: { ...wave.baseVals },
+    init: pickEquations(wave.init_eqs_eel, wave.init_eqs_str, `Custom wave ${index} init equations`, warnings),
+    perFrame: pickEquations(wave.frame_eqs_eel, wave.frame_eqs_str, `Custom wave ${index} per-frame equations`, warnings),
+    perPoint: pickEquations(wave.point_eqs_eel, wave.point_eqs_str, `Custom wave ${index} per-point equations`, warnings),
+  }))
+
+  const shapes: MilkdropShape[] = (preset.shapes ?? []).map((shape, index) => ({
+    index,
+    baseValues: { ...shape.baseVals },
+    init: pickEquations(shape.init_eqs_eel, shape.init_eqs_str, `Custom shape ${index} init equations`, warnings),
+    perFrame: pickEquations(shape.frame_eqs_eel, shape.frame_eqs_str, `Custom shape ${index} per-frame equations`, warnings),
+  }))
+
+  // Converted presets carry GLSL bodies written for Butterchurn's own shader header
+  const hasHLSL = preset.warp_hlsl !== undefined || preset.comp_hlsl !== undefined
+  const warpShader = nonEmpty(hasHLSL ? preset.warp_hlsl : preset.warp)
+  const compShader = nonEmpty(hasHLSL ? preset.comp_hlsl : preset.comp)
+
+  if (!hasHLSL && (warpShader !== undefined || compShader !== undefined)) {
+    warnings.push('Shaders were converted to Butterchurn GLSL and are kept for reference only')
+  }
+
+  return {
+    data: {
+      version: preset.version ?? 201,
+      baseValues: { ...preset.baseVals },
+      equations: {
+        init: pickEquations(preset.init_eqs_eel, preset.init_eqs_str, 'Init equations', warnings),
+        perFrame: pickEquations(preset.frame_eqs_eel, preset.frame_eqs_str, 'Per-frame equations', warnings),
+        perPixel: pickEquations(preset.pixel_eqs_eel, preset.pixel_eqs_str, 'Per-pixel equations', warnings),
+      },
+      waves,
+      shapes,
+      warpShader,
+      compShader,
+      shaderLanguage: hasHLSL ? 'hlsl' : 'glsl',
+    },
+    warnings,
+  }
+}
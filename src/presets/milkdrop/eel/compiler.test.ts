@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest'
+import { compileEEL, EELContext, MEGABUF_SIZE } from './compiler'
+
+function run(source: string, context = new EELContext()): number {
+  return compileEEL(source, context)()
+}
+
+describe('compileEEL', () => {
+  it('evaluates arithmetic and returns the last statement', () => {
+    expect(run('1 + 2 * 3')).toBe(7)
+    expect(run('x = 2; x ^= 3; x + 1')).toBe(9)
+  })
+
+  it('reads and writes context variables', () => {
+    const context = new EELContext()
+    context.set('bass', 0.5)
+    run('zoom = bass * 2; rot += 1', context)
+    expect(context.snapshot(['zoom', 'rot', 'missing'])).toEqual({ zoom: 1, rot: 1, missing: 0 })
+  })
+
+  it('follows EEL2 division, modulo and comparison rules', () => {
+    expect(run('5 / 0')).toBe(0)
+    expect(run('7.9 % 3.2')).toBe(1)
+    expect(run('5 % 0')).toBe(0)
+    expect(run('0.1 + 0.2 == 0.3')).toBe(1)
+    expect(run('1 != 1.000001')).toBe(0)
+    expect(run('6.7 | 1.2')).toBe(7)
+  })
+
+  it('treats values within epsilon of zero as false', () => {
+    expect(run('0.000001 ? 1 : 2')).toBe(2)
+    expect(run('!0.000001')).toBe(1)
+    expect(run('band(1, 0.5) + bor(0, 0) + bnot(0)')).toBe(2)
+  })
+
+  it('short-circuits logical operators and if()', () => {
+    const context = new EELContext()
+    run('0 && (a = 1); 1 || (b = 1); if(0, c = 1, d = 1)', context)
+    expect(context.snapshot(['a', 'b', 'c', 'd'])).toEqual({ a: 0, b: 0, c: 0, d: 1 })
+  })
+
+  it('runs loop() and while()', () => {
+    expect(run('n = 0; loop(4, n += 2); n')).toBe(8)
+    expect(run('n = 0; while(n += 1; n < 5); n')).toBe(5)
+    expect(run('loop(-1, 1)')).toBe(0)
+  })
+
+  it('stores values in megabuf and ignores out-of-range indices', () => {
+    const context = new EELContext()
+    expect(run('megabuf(10) = 3; megabuf(10) += 1; megabuf(10)', context)).toBe(4)
+    expect(run('megabuf(-1) = 5; megabuf(-1)', context)).toBe(0)
+    expect(run('memset(0, 2, 3); memcpy(20, 0, 2); megabuf(20) + megabuf(21) + megabuf(22)', context)).toBe(4)
+  })
+
+  it('keeps megabuf per context and shares a given gmegabuf', () => {
+    const gmegabuf = new Float64Array(MEGABUF_SIZE)
+    const first = new EELContext({ gmegabuf })
+    const second = new EELContext({ gmegabuf })
+    run('megabuf(0) = 1; gmegabuf(0) = 2', first)
+    expect(run('megabuf(0)', second)).toBe(0)
+    expect(run('gmegabuf(0)', second)).toBe(2)
+    expect(second.getGmegabuf()).toBe(gmegabuf)
+
+    // Without one each context has its own
+    expect(run('gmegabuf(0)', new EELContext())).toBe(0)
+  })
+
+  it('uses the context random source', () => {
+    const context = new EELContext({ random: () => 0.5 })
+    expect(run('rand(10)', context)).toBe(5)
+    expect(run('rand(0)', context)).toBe(0.5)
+  })
+
+  it('rejects unknown functions and wrong arities', () => {
+    expect(() => run('nope(1)')).toThrow('Unknown EEL function \'nope\'')
+    expect(() => run('sin(1, 2)')).toThrow('EEL function \'sin\' expects 1 argument(s) but got 2')
+  })
+})
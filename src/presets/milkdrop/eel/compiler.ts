@@ -0,0 +1,423 @@
+import type { EELNode } from './parser'
+import { parseEEL } from './parser'
+
+export type EELFunction = () => number
+
+type Evaluator = () => number
+
+// EEL2 compares against a small epsilon instead of exact zero
+const EPSILON = 0.00001
+
+// Hard limit so a runaway loop() or while() cannot freeze the page
+const MAX_LOOP_ITERATIONS = 1048576
+
+export const MEGABUF_SIZE = 1048576
+
+export class EELContext {
+  private slots: Map<string, number> = new Map()
+  private values: Float64Array = new Float64Array(64)
+  private megabuf: Float64Array | null = null
+  private gmegabuf: Float64Array | null
+  private random: () => number
+
+  // Contexts given the same gmegabuf share it, as Milkdrop's presets do; without
+  // one the context allocates its own on first use
+  constructor(options: { random?: () => number, gmegabuf?: Float64Array } = {}) {
+    this.random = options.random ?? Math.random
+    this.gmegabuf = options.gmegabuf ?? null
+  }
+
+  public slot(name: string): number {
+    let slot = this.slots.get(name)
+    if (slot === undefined) {
+      slot = this.slots.size
+      this.slots.set(name, slot)
+
+      if (slot >= this.values.length) {
+        const grown = new Float64Array(this.values.length * 2)
+        grown.set(this.values)
+        this.values = grown
+      }
+    }
+    return slot
+  }
+
+  public get(name: string): number {
+    const slot = this.slots.get(name)
+    return slot === undefined ? 0 : this.values[slot]
+  }
+
+  public set(name: string, value: number): void {
+    this.values[this.slot(name)] = value
+  }
+
+  public has(name: string): boolean {
+    return this.slots.has(name)
+  }
+
+  public getValues(): Float64Array {
+    return this.values
+  }
+
+  public getVariableNames(): string[] {
+    return Array.from(this.slots.keys())
+  }
+
+  public getMegabuf(): Float64Array {
+    if (!this.megabuf) {
+      this.megabuf = new Float64Array(MEGABUF_SIZE)
+    }
+    return this.megabuf
+  }
+
+  public getGmegabuf(): Float64Array {
+    if (!this.gmegabuf) {
+      this.gmegabuf = new Float64Array(MEGABUF_SIZE)
+    }
+    return this.gmegabuf
+  }
+
+  public nextRandom(): number {
+    return this.random()
+  }
+
+  public setRandom(random: () => number): void {
+    this.random = random
+  }
+
+  public snapshot(names: string[]): Record<string, number> {
+    const result: Record<string, number> = {}
+    for (const name of names) {
+      result[name] = this.get(name)
+    }
+    return result
+  }
+
+  public restore(values: Record<string, number>): void {
+    for (const [name, value] of Object.entries(values)) {
+      this.set(name, value)
+    }
+  }
+}
+
+function isTrue(value: number): boolean {
+  return Math.abs(value) > EPSILON
+}
+
+function bufferIndex(index: number): number {
+  const i = Math.floor(index + EPSILON)
+  return i >= 0 && i < MEGABUF_SIZE ? i : -1
+}
+
+function divide(a: number, b: number): number {
+  return b === 0 ? 0 : a / b
+}
+
+function modulo(a: number, b: number): number {
+  const divisor = Math.floor(b)
+  return divisor === 0 ? 0 : Math.floor(a) % divisor
+}
+
+function applyBinary(operator: string, a: number, b: number): number {
+  switch (operator) {
+    case '+': return a + b
+    case '-': return a - b
+    case '*': return a * b
+    case '/': return divide(a, b)
+    case '%': return modulo(a, b)
+    case '^': return a ** b
+    case '|': return Math.floor(a) | Math.floor(b)
+    case '&': return Math.floor(a) & Math.floor(b)
+    case '==': return Math.abs(a - b) < EPSILON ? 1 : 0
+    case '!=': return Math.abs(a - b) < EPSILON ? 0 : 1
+    case '<': return a < b ? 1 : 0
+    case '>': return a > b ? 1 : 0
+    case '<=': return a <= b ? 1 : 0
+    case '>=': return a >= b ? 1 : 0
+  }
+  throw new Error(`Unsupported EEL operator '${operator}'`)
+}
+
+// Pure math functions, keyed by EEL name
+const MATH_FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sin: Math.sin,
+  cos: Math.cos,
+  tan: Math.tan,
+  asin: Math.asin,
+  acos: Math.acos,
+  atan: Math.atan,
+  atan2: Math.atan2,
+  sqrt: x => Math.sqrt(Math.abs(x)),
+  pow: (x, y) => x ** y,
+  exp: Math.exp,
+  log: Math.log,
+  log10: Math.log10,
+  abs: Math.abs,
+  min: Math.min,
+  max: Math.max,
+  sign: Math.sign,
+  floor: Math.floor,
+  ceil: Math.ceil,
+  int: Math.floor,
+  sqr: x => x * x,
+  invsqrt: x => 1 / Math.sqrt(Math.abs(x)),
+  sigmoid: (x, constraint) => {
+    const t = 1 + Math.exp(-x * constraint)
+    return Math.abs(t) > EPSILON ? 1 / t : 0
+  },
+  above: (x, y) => x > y ? 1 : 0,
+  below: (x, y) => x < y ? 1 : 0,
+  equal: (x, y) => Math.abs(x - y) < EPSILON ? 1 : 0,
+  band: (x, y) => isTrue(x) && isTrue(y) ? 1 : 0,
+  bor: (x, y) => isTrue(x) || isTrue(y) ? 1 : 0,
+  bnot: x => isTrue(x) ? 0 : 1,
+}
+
+export const EEL_FUNCTION_ARITY: Record<string, number> = {
+  ...Object.fromEntries(Object.entries(MATH_FUNCTIONS).map(([name, fn]) => [name, fn.length])),
+  min: 2,
+  max: 2,
+  atan2: 2,
+  rand: 1,
+  if: 3,
+  loop: 2,
+  while: 1,
+  megabuf: 1,
+  gmegabuf: 1,
+  exec2: 2,
+  exec3: 3,
+  memset: 3,
+  memcpy: 3,
+}
+
+class EELCompiler {
+  private context: EELContext
+
+  constructor(context: EELContext) {
+    this.context = context
+  }
+
+  public compile(node: EELNode): Evaluator {
+    const values = () => this.context.getValues()
+
+    switch (node.type) {
+      case 'number': {
+        const value = node.value
+        return () => value
+      }
+
+      case 'variable': {
+        const slot = this.context.slot(node.name)
+        return () => values()[slot]
+      }
+
+      case 'assign':
+        return this.compileAssignment(node.operator, node.target, node.value)
+
+      case 'unary': {
+        const argument = this.compile(node.argument)
+        if (node.operator === '-')
+          return () => -argument()
+        if (node.operator === '!')
+          return () => isTrue(argument()) ? 0 : 1
+        return argument
+      }
+
+      case 'binary': {
+        const left = this.compile(node.left)
+        const right = this.compile(node.right)
+
+        // Logical operators short-circuit
+        if (node.operator === '&&')
+          return () => isTrue(left()) && isTrue(right()) ? 1 : 0
+        if (node.operator === '||')
+          return () => isTrue(left()) || isTrue(right()) ? 1 : 0
+
+        // Inline the common arithmetic operators
+        if (node.operator === '+')
+          return () => left() + right()
+        if (node.operator === '-')
+          return () => left() - right()
+        if (node.operator === '*')
+          return () => left() * right()
+
+        const operator = node.operator
+        return () => applyBinary(operator, left(), right())
+      }
+
+      case 'conditional': {
+        const test = this.compile(node.test)
+        const consequent = this.compile(node.consequent)
+        const alternate = node.alternate ? this.compile(node.alternate) : () => 0
+        return () => isTrue(test()) ? consequent() : alternate()
+      }
+
+      case 'sequence': {
+        const body = node.body.map(child => this.compile(child))
+        if (body.length === 0)
+          return () => 0
+        return () => {
+          let result = 0
+          for (let i = 0; i < body.length; i++) result = body[i]()
+          return result
+        }
+      }
+
+      case 'call':
+        return this.compileCall(node.name, node.args)
+    }
+  }
+
+  private compileAssignment(operator: string, target: EELNode, valueNode: EELNode): Evaluator {
+    const value = this.compile(valueNode)
+    const combine = operator === '='
+      ? null
+      : (current: number, next: number) => applyBinary(operator.slice(0, -1), current, next)
+
+    if (target.type === 'variable') {
+      const slot = this.context.slot(target.name)
+      const values = () => this.context.getValues()
+
+      if (!combine) {
+        return () => {
+          const result = value()
+          values()[slot] = result
+          return result
+        }
+      }
+
+      return () => {
+        const result = combine(values()[slot], value())
+        values()[slot] = result
+        return result
+      }
+    }
+
+    if (target.type === 'call') {
+      const buffer = this.getBuffer(target.name)
+      const index = this.compile(target.args[0])
+
+      return () => {
+        const i = bufferIndex(index())
+        const next = value()
+        if (i < 0)
+          return next
+        const memory = buffer()
+        memory[i] = combine ? combine(memory[i], next) : next
+        return memory[i]
+      }
+    }
+
+    throw new Error('Invalid EEL assignment target')
+  }
+
+  private getBuffer(name: string): () => Float64Array {
+    return name === 'gmegabuf'
+      ? () => this.context.getGmegabuf()
+      : () => this.context.getMegabuf()
+  }
+
+  private compileCall(name: string, argNodes: EELNode[]): Evaluator {
+    const expected = EEL_FUNCTION_ARITY[name]
+    if (expected === undefined) {
+      throw new Error(`Unknown EEL function '${name}'`)
+    }
+    if (argNodes.length !== expected) {
+      throw new Error(`EEL function '${name}' expects ${expected} argument(s) but got ${argNodes.length}`)
+    }
+
+    const args = argNodes.map(arg => this.compile(arg))
+
+    switch (name) {
+      case 'if': {
+        const [test, consequent, alternate] = args
+        return () => isTrue(test()) ? consequent() : alternate()
+      }
+
+      case 'loop': {
+        const [count, body] = args
+        return () => {
+          const iterations = Math.min(Math.floor(count()), MAX_LOOP_ITERATIONS)
+          let result = 0
+          for (let i = 0; i < iterations; i++) result = body()
+          return result
+        }
+      }
+
+      case 'while': {
+        const [body] = args
+        return () => {
+          let iterations = 0
+          while (isTrue(body()) && ++iterations < MAX_LOOP_ITERATIONS) {
+            // Body is the condition
+          }
+          return 0
+        }
+      }
+
+      case 'exec2':
+      case 'exec3':
+        return () => {
+          let result = 0
+          for (let i = 0; i < args.length; i++) result = args[i]()
+          return result
+        }
+
+      case 'rand': {
+        const [max] = args
+        return () => {
+          const limit = Math.floor(max())
+          return limit < 1 ? this.context.nextRandom() : this.context.nextRandom() * limit
+        }
+      }
+
+      case 'megabuf':
+      case 'gmegabuf': {
+        const buffer = this.getBuffer(name)
+        const [index] = args
+        return () => {
+          const i = bufferIndex(index())
+          return i < 0 ? 0 : buffer()[i]
+        }
+      }
+
+      case 'memset': {
+        const [dest, value, length] = args
+        return () => {
+          const start = bufferIndex(dest())
+          const fill = value()
+          const count = Math.floor(length())
+          if (start >= 0 && count > 0)
+            this.context.getMegabuf().fill(fill, start, Math.min(start + count, MEGABUF_SIZE))
+          return start
+        }
+      }
+
+      case 'memcpy': {
+        const [dest, source, length] = args
+        return () => {
+          const to = bufferIndex(dest())
+          const from = bufferIndex(source())
+          const count = Math.min(Math.floor(length()), MEGABUF_SIZE - Math.max(to, from))
+          if (to >= 0 && from >= 0 && count > 0)
+            this.context.getMegabuf().copyWithin(to, from, from + count)
+          return to
+        }
+      }
+    }
+
+    const fn = MATH_FUNCTIONS[name]
+    if (args.length === 1) {
+      const [a] = args
+      return () => fn(a())
+    }
+
+    const [a, b] = args
+    return () => fn(a(), b())
+  }
+}
+
+export function compileEEL(source: string | EELNode, context: EELContext): EELFunction {
+  const ast = typeof source === 'string' ? parseEEL(source) : source
+  return new EELCompiler(context).compile(ast)
+}
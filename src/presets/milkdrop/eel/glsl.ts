@@ -0,0 +1,174 @@
+import type { EELNode } from './parser'
+import { EEL_FUNCTION_ARITY } from './compiler'
+
+// Helpers the translated expressions call; mirrors the semantics in compiler.ts
+export const EEL_GLSL_PRELUDE = `
+bool eel_true(float x) { return abs(x) > 0.00001; }
+float eel_div(float a, float b) { return b == 0.0 ? 0.0 : a / b; }
+float eel_mod(float a, float b) { float d = floor(b); return d == 0.0 ? 0.0 : float(int(floor(a)) % int(d)); }
+float eel_pow(float a, float b) {
+  if (a < 0.0 && b == floor(b)) return (mod(b, 2.0) == 0.0 ? 1.0 : -1.0) * pow(-a, b);
+  return pow(a, b);
+}
+float eel_equal(float a, float b) { return abs(a - b) < 0.00001 ? 1.0 : 0.0; }
+float eel_sqr(float x) { return x * x; }
+float eel_sigmoid(float x, float c) { float t = 1.0 + exp(-x * c); return abs(t) > 0.00001 ? 1.0 / t : 0.0; }
+float eel_bitor(float a, float b) { return float(int(floor(a)) | int(floor(b))); }
+float eel_bitand(float a, float b) { return float(int(floor(a)) & int(floor(b))); }
+`
+
+// Functions that need state or unbounded iteration cannot run per pixel
+const UNSUPPORTED_FUNCTIONS = new Set(['loop', 'while', 'megabuf', 'gmegabuf', 'memset', 'memcpy', 'rand'])
+
+const DIRECT_FUNCTIONS: Record<string, string> = {
+  sin: 'sin',
+  cos: 'cos',
+  tan: 'tan',
+  asin: 'asin',
+  acos: 'acos',
+  atan: 'atan',
+  atan2: 'atan',
+  exp: 'exp',
+  log: 'log',
+  abs: 'abs',
+  min: 'min',
+  max: 'max',
+  sign: 'sign',
+  floor: 'floor',
+  ceil: 'ceil',
+  int: 'floor',
+  pow: 'eel_pow',
+  sqr: 'eel_sqr',
+  sigmoid: 'eel_sigmoid',
+}
+
+// Assignment operators GLSL has natively; the rest go through helpers
+const NATIVE_ASSIGNMENTS = new Set(['=', '+=', '-=', '*='])
+
+const BINARY_HELPERS: Record<string, string> = {
+  '/': 'eel_div',
+  '%': 'eel_mod',
+  '^': 'eel_pow',
+  '|': 'eel_bitor',
+  '&': 'eel_bitand',
+  '==': 'eel_equal',
+}
+
+// Make an EEL name safe to use inside a GLSL identifier
+export function toGLSLIdentifier(name: string): string {
+  return name.replace(/\./g, '_')
+}
+
+function formatNumber(value: number): string {
+  if (!Number.isFinite(value))
+    return '0.0'
+  const text = String(value)
+  return /[.e]/.test(text) ? text : `${text}.0`
+}
+
+function translate(node: EELNode, resolve: (name: string) => string): string {
+  const expr = (child: EELNode): string => translate(child, resolve)
+
+  switch (node.type) {
+    case 'number':
+      return formatNumber(node.value)
+
+    case 'variable':
+      return resolve(node.name)
+
+    case 'assign': {
+      if (node.target.type !== 'variable') {
+        throw new Error('megabuf assignments are not supported in per-pixel code')
+      }
+      const target = resolve(node.target.name)
+      const value = expr(node.value)
+
+      if (NATIVE_ASSIGNMENTS.has(node.operator))
+        return `(${target} ${node.operator} ${value})`
+
+      const helper = BINARY_HELPERS[node.operator.slice(0, -1)]
+      return `(${target} = ${helper}(${target}, ${value}))`
+    }
+
+    case 'unary':
+      if (node.operator === '-')
+        return `(-${expr(node.argument)})`
+      if (node.operator === '!')
+        return `(eel_true(${expr(node.argument)}) ? 0.0 : 1.0)`
+      return expr(node.argument)
+
+    case 'binary': {
+      const left = expr(node.left)
+      const right = expr(node.right)
+
+      if (node.operator === '+' || node.operator === '-' || node.operator === '*')
+        return `(${left} ${node.operator} ${right})`
+      if (node.operator === '<' || node.operator === '>' || node.operator === '<=' || node.operator === '>=')
+        return `(${left} ${node.operator} ${right} ? 1.0 : 0.0)`
+      if (node.operator === '!=')
+        return `(1.0 - eel_equal(${left}, ${right}))`
+      if (node.operator === '&&')
+        return `(eel_true(${left}) && eel_true(${right}) ? 1.0 : 0.0)`
+      if (node.operator === '||')
+        return `(eel_true(${left}) || eel_true(${right}) ? 1.0 : 0.0)`
+
+      return `${BINARY_HELPERS[node.operator]}(${left}, ${right})`
+    }
+
+    case 'conditional':
+      return `(eel_true(${expr(node.test)}) ? ${expr(node.consequent)} : ${node.alternate ? expr(node.alternate) : '0.0'})`
+
+    case 'sequence':
+      return node.body.length === 0 ? '0.0' : `(${node.body.map(expr).join(', ')})`
+
+    case 'call':
+      return translateCall(node.name, node.args.map(expr))
+  }
+}
+
+function translateCall(name: string, args: string[]): string {
+  if (UNSUPPORTED_FUNCTIONS.has(name)) {
+    throw new Error(`EEL function '${name}' is not supported in per-pixel code`)
+  }
+
+  const expected = EEL_FUNCTION_ARITY[name]
+  if (expected === undefined) {
+    throw new Error(`Unknown EEL function '${name}'`)
+  }
+  if (args.length !== expected) {
+    throw new Error(`EEL function '${name}' expects ${expected} argument(s) but got ${args.length}`)
+  }
+
+  switch (name) {
+    case 'if':
+      return `(eel_true(${args[0]}) ? ${args[1]} : ${args[2]})`
+    case 'exec2':
+    case 'exec3':
+      return `(${args.join(', ')})`
+    case 'sqrt':
+      return `sqrt(abs(${args[0]}))`
+    case 'invsqrt':
+      return `inversesqrt(abs(${args[0]}))`
+    case 'log10':
+      return `(log(${args[0]}) * 0.4342944819)`
+    case 'above':
+      return `(${args[0]} > ${args[1]} ? 1.0 : 0.0)`
+    case 'below':
+      return `(${args[0]} < ${args[1]} ? 1.0 : 0.0)`
+    case 'equal':
+      return `eel_equal(${args[0]}, ${args[1]})`
+    case 'band':
+      return `(eel_true(${args[0]}) && eel_true(${args[1]}) ? 1.0 : 0.0)`
+    case 'bor':
+      return `(eel_true(${args[0]}) || eel_true(${args[1]}) ? 1.0 : 0.0)`
+    case 'bnot':
+      return `(eel_true(${args[0]}) ? 0.0 : 1.0)`
+  }
+
+  return `${DIRECT_FUNCTIONS[name]}(${args.join(', ')})`
+}
+
+// Translate an EEL program into a single GLSL expression statement
+export function translateEELToGLSL(node: EELNode, resolve: (name: string) => string): string {
+  return `${translate(node, resolve)};`
+}
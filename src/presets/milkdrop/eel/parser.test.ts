@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import { collectVariables, parseEEL } from './parser'
+
+describe('parseEEL', () => {
+  it('binds multiplication tighter than addition', () => {
+    expect(parseEEL('1 + 2 * 3')).toEqual({
+      type: 'binary',
+      operator: '+',
+      left: { type: 'number', value: 1 },
+      right: {
+        type: 'binary',
+        operator: '*',
+        left: { type: 'number', value: 2 },
+        right: { type: 'number', value: 3 },
+      },
+    })
+  })
+
+  it('makes powers and assignments right-associative', () => {
+    const power = parseEEL('2 ^ 3 ^ 2')
+    expect(power).toMatchObject({ operator: '^', left: { value: 2 }, right: { operator: '^' } })
+
+    const assign = parseEEL('a = b = 1')
+    expect(assign).toMatchObject({ type: 'assign', target: { name: 'a' }, value: { type: 'assign', target: { name: 'b' } } })
+  })
+
+  it('binds powers tighter than unary minus', () => {
+    expect(parseEEL('-2 ^ 2')).toMatchObject({ type: 'unary', operator: '-', argument: { type: 'binary', operator: '^' } })
+  })
+
+  it('parses statements, calls and ternaries', () => {
+    const program = parseEEL('x = 1;; y = if(x, 2, 3); z = x ? y : 0;')
+    expect(program.type).toBe('sequence')
+    if (program.type !== 'sequence')
+      return
+    expect(program.body).toHaveLength(3)
+    expect(program.body[1]).toMatchObject({ value: { type: 'call', name: 'if', args: [{ name: 'x' }, { value: 2 }, { value: 3 }] } })
+    expect(program.body[2]).toMatchObject({ value: { type: 'conditional', test: { name: 'x' }, alternate: { value: 0 } } })
+  })
+
+  it('allows sequences as call arguments', () => {
+    expect(parseEEL('loop(3, a += 1; b = a)')).toMatchObject({
+      type: 'call',
+      args: [{ value: 3 }, { type: 'sequence', body: [{ operator: '+=' }, { operator: '=' }] }],
+    })
+  })
+
+  it('accepts megabuf calls as assignment targets only', () => {
+    expect(parseEEL('megabuf(1) = 2')).toMatchObject({ type: 'assign', target: { type: 'call', name: 'megabuf' } })
+    expect(() => parseEEL('sin(1) = 2')).toThrow('EEL syntax error at 1:8: invalid assignment target')
+    expect(() => parseEEL('1 = 2')).toThrow('invalid assignment target')
+  })
+
+  it('reports unbalanced input', () => {
+    expect(() => parseEEL('(1 + 2')).toThrow('expected \')\' but found \'end of input\'')
+    expect(() => parseEEL('1 + 2)')).toThrow('EEL syntax error at 1:6: unexpected \')\'')
+    expect(() => parseEEL('x = ')).toThrow('unexpected end of input')
+  })
+})
+
+describe('collectVariables', () => {
+  it('collects every variable read or written', () => {
+    const names = collectVariables(parseEEL('a = b + sin(c); megabuf(d) = e ? f : g'))
+    expect([...names].sort()).toEqual(['a', 'b', 'c', 'd', 'e', 'f', 'g'])
+  })
+})
@@ -0,0 +1,241 @@
+import type { EELToken } from './tokenizer'
+import { tokenize } from './tokenizer'
+
+export type EELAssignmentOperator = '=' | '+=' | '-=' | '*=' | '/=' | '%=' | '^=' | '|=' | '&='
+
+export type EELBinaryOperator = '+' | '-' | '*' | '/' | '%' | '^' | '|' | '&' | '||' | '&&' | '==' | '!=' | '<' | '>' | '<=' | '>='
+
+export type EELNode
+  = | { type: 'number', value: number }
+    | { type: 'variable', name: string }
+    | { type: 'assign', operator: EELAssignmentOperator, target: EELNode, value: EELNode }
+    | { type: 'binary', operator: EELBinaryOperator, left: EELNode, right: EELNode }
+    | { type: 'unary', operator: '-' | '+' | '!', argument: EELNode }
+    | { type: 'conditional', test: EELNode, consequent: EELNode, alternate: EELNode | null }
+    | { type: 'call', name: string, args: EELNode[] }
+    | { type: 'sequence', body: EELNode[] }
+
+const ASSIGNMENT_OPERATORS = new Set(['=', '+=', '-=', '*=', '/=', '%=', '^=', '|=', '&='])
+
+// Binding power of each binary operator; '^' is right-associative
+const BINARY_PRECEDENCE: Record<string, number> = {
+  '||': 3,
+  '&&': 4,
+  '|': 5,
+  '&': 6,
+  '==': 7,
+  '!=': 7,
+  '<': 7,
+  '>': 7,
+  '<=': 7,
+  '>=': 7,
+  '+': 8,
+  '-': 8,
+  '*': 9,
+  '/': 9,
+  '%': 9,
+  '^': 11,
+}
+
+const UNARY_PRECEDENCE = 10
+
+// Functions that can appear on the left of an assignment
+const ASSIGNABLE_CALLS = new Set(['megabuf', 'gmegabuf'])
+
+class EELParser {
+  private tokens: EELToken[]
+  private position = 0
+
+  constructor(source: string) {
+    this.tokens = tokenize(source)
+  }
+
+  public parseProgram(): EELNode {
+    const program = this.parseSequence()
+    const token = this.peek()
+    if (token.type !== 'eof') {
+      throw this.error(token, `unexpected '${token.value}'`)
+    }
+    return program
+  }
+
+  private peek(): EELToken {
+    return this.tokens[this.position]
+  }
+
+  private next(): EELToken {
+    const token = this.tokens[this.position]
+    if (token.type !== 'eof')
+      this.position++
+    return token
+  }
+
+  private isOperator(value: string): boolean {
+    const token = this.peek()
+    return token.type === 'operator' && token.value === value
+  }
+
+  private expect(value: string): void {
+    const token = this.next()
+    if (token.type !== 'operator' || token.value !== value) {
+      throw this.error(token, `expected '${value}' but found '${token.value || 'end of input'}'`)
+    }
+  }
+
+  private error(token: EELToken, message: string): Error {
+    return new Error(`EEL syntax error at ${token.line}:${token.column}: ${message}`)
+  }
+
+  // statement (';' statement)* - empty statements are allowed
+  private parseSequence(): EELNode {
+    const body: EELNode[] = []
+
+    while (true) {
+      while (this.isOperator(';')) this.next()
+
+      const token = this.peek()
+      if (token.type === 'eof' || this.isOperator(')') || this.isOperator(','))
+        break
+
+      body.push(this.parseExpression(0))
+
+      if (!this.isOperator(';'))
+        break
+    }
+
+    if (body.length === 1)
+      return body[0]
+
+    return { type: 'sequence', body }
+  }
+
+  private parseExpression(minPrecedence: number): EELNode {
+    let left = this.parseUnary()
+
+    while (true) {
+      const token = this.peek()
+      if (token.type !== 'operator')
+        break
+
+      // Assignment binds loosest and associates to the right
+      if (ASSIGNMENT_OPERATORS.has(token.value) && minPrecedence <= 1) {
+        if (left.type !== 'variable' && !(left.type === 'call' && ASSIGNABLE_CALLS.has(left.name))) {
+          throw this.error(token, 'invalid assignment target')
+        }
+        this.next()
+        const value = this.parseExpression(1)
+        left = { type: 'assign', operator: token.value as EELAssignmentOperator, target: left, value }
+        continue
+      }
+
+      // Ternary: test ? consequent [: alternate]
+      if (token.value === '?' && minPrecedence <= 2) {
+        this.next()
+        const consequent = this.parseExpression(1)
+        let alternate: EELNode | null = null
+        if (this.isOperator(':')) {
+          this.next()
+          alternate = this.parseExpression(1)
+        }
+        left = { type: 'conditional', test: left, consequent, alternate }
+        continue
+      }
+
+      const precedence = BINARY_PRECEDENCE[token.value]
+      if (precedence === undefined || precedence < minPrecedence)
+        break
+
+      this.next()
+      const right = this.parseExpression(token.value === '^' ? precedence : precedence + 1)
+      left = { type: 'binary', operator: token.value as EELBinaryOperator, left, right }
+    }
+
+    return left
+  }
+
+  private parseUnary(): EELNode {
+    const token = this.peek()
+
+    if (token.type === 'operator' && (token.value === '-' || token.value === '+' || token.value === '!')) {
+      this.next()
+      const argument = this.parseExpression(UNARY_PRECEDENCE)
+      return { type: 'unary', operator: token.value, argument }
+    }
+
+    return this.parsePrimary()
+  }
+
+  private parsePrimary(): EELNode {
+    const token = this.next()
+
+    if (token.type === 'number') {
+      return { type: 'number', value: Number(token.value) }
+    }
+
+    if (token.type === 'identifier') {
+      if (!this.isOperator('('))
+        return { type: 'variable', name: token.value }
+
+      this.next()
+      const args: EELNode[] = []
+      if (!this.isOperator(')')) {
+        args.push(this.parseSequence())
+        while (this.isOperator(',')) {
+          this.next()
+          args.push(this.parseSequence())
+        }
+      }
+      this.expect(')')
+
+      return { type: 'call', name: token.value, args }
+    }
+
+    if (token.type === 'operator' && token.value === '(') {
+      const body = this.parseSequence()
+      this.expect(')')
+      return body
+    }
+
+    throw this.error(token, token.type === 'eof' ? 'unexpected end of input' : `unexpected '${token.value}'`)
+  }
+}
+
+export function parseEEL(source: string): EELNode {
+  return new EELParser(source).parseProgram()
+}
+
+// Collect every variable name read or written by a program
+export function collectVariables(node: EELNode, names: Set<string> = new Set()): Set<string> {
+  switch (node.type) {
+    case 'number':
+      break
+    case 'variable':
+      names.add(node.name)
+      break
+    case 'assign':
+      collectVariables(node.target, names)
+      collectVariables(node.value, names)
+      break
+    case 'binary':
+      collectVariables(node.left, names)
+      collectVariables(node.right, names)
+      break
+    case 'unary':
+      collectVariables(node.argument, names)
+      break
+    case 'conditional':
+      collectVariables(node.test, names)
+      collectVariables(node.consequent, names)
+      if (node.alternate)
+        collectVariables(node.alternate, names)
+      break
+    case 'call':
+      node.args.forEach(arg => collectVariables(arg, names))
+      break
+    case 'sequence':
+      node.body.forEach(child => collectVariables(child, names))
+      break
+  }
+
+  return names
+}
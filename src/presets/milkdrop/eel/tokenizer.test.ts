@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest'
+import { tokenize } from './tokenizer'
+
+function values(source: string): string[] {
+  return tokenize(source).map(token => token.value)
+}
+
+describe('tokenize', () => {
+  it('prefers the longest operator', () => {
+    expect(values('a+=b==c')).toEqual(['a', '+=', 'b', '==', 'c', ''])
+  })
+
+  it('reads decimal, hex and named constants', () => {
+    const tokens = tokenize('1.5 .5 1e-3 0x1F $x10 $\'A\' $PI')
+    expect(tokens.slice(0, -1).map(token => token.type)).toEqual(Array.from({ length: 7 }, () => 'number'))
+    expect(tokens.slice(0, -1).map(token => Number(token.value))).toEqual([1.5, 0.5, 0.001, 31, 16, 65, Math.PI])
+  })
+
+  it('lowercases identifiers and keeps dots in them', () => {
+    expect(values('Q1 my.Var')).toEqual(['q1', 'my.var', ''])
+  })
+
+  it('skips comments and tracks lines and columns', () => {
+    const tokens = tokenize('// first\n/* block\n */ x = 1;\n  y')
+    expect(tokens.map(({ value, line, column }) => [value, line, column])).toEqual([
+      ['x', 3, 5],
+      ['=', 3, 7],
+      ['1', 3, 9],
+      [';', 3, 10],
+      ['y', 4, 3],
+      ['', 4, 4],
+    ])
+  })
+
+  it('reports the position of unexpected characters', () => {
+    expect(() => tokenize('x = 1;\ny = #')).toThrow('EEL syntax error at 2:5: unexpected \'#\'')
+    expect(() => tokenize('$nope')).toThrow('unknown constant \'$nope\'')
+  })
+})
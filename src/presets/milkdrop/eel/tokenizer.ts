@@ -0,0 +1,156 @@
+export type EELTokenType = 'number' | 'identifier' | 'operator' | 'eof'
+
+export interface EELToken {
+  type: EELTokenType
+  value: string
+  line: number
+  column: number
+}
+
+// Longest operators first so '+=' wins over '+'
+const OPERATORS = [
+  '==',
+  '!=',
+  '<=',
+  '>=',
+  '&&',
+  '||',
+  '+=',
+  '-=',
+  '*=',
+  '/=',
+  '%=',
+  '^=',
+  '|=',
+  '&=',
+  '+',
+  '-',
+  '*',
+  '/',
+  '%',
+  '^',
+  '|',
+  '&',
+  '<',
+  '>',
+  '!',
+  '=',
+  '?',
+  ':',
+  ';',
+  ',',
+  '(',
+  ')',
+]
+
+// Named constants EEL2 exposes with a '$' prefix
+const CONSTANTS: Record<string, number> = {
+  $pi: Math.PI,
+  $e: Math.E,
+  $phi: 1.618033988749894,
+}
+
+export function tokenize(source: string): EELToken[] {
+  const tokens: EELToken[] = []
+  let index = 0
+  let line = 1
+  let lineStart = 0
+
+  const error = (message: string): Error => {
+    return new Error(`EEL syntax error at ${line}:${index - lineStart + 1}: ${message}`)
+  }
+
+  while (index < source.length) {
+    const char = source[index]
+
+    if (char === '\n') {
+      index++
+      line++
+      lineStart = index
+      continue
+    }
+
+    if (/\s/.test(char)) {
+      index++
+      continue
+    }
+
+    // Line comments
+    if (source.startsWith('//', index)) {
+      while (index < source.length && source[index] !== '\n') index++
+      continue
+    }
+
+    // Block comments
+    if (source.startsWith('/*', index)) {
+      const end = source.indexOf('*/', index + 2)
+      const stop = end === -1 ? source.length : end + 2
+      for (; index < stop; index++) {
+        if (source[index] === '\n') {
+          line++
+          lineStart = index + 1
+        }
+      }
+      continue
+    }
+
+    const column = index - lineStart + 1
+
+    // Hex literals and named constants
+    if (char === '$' || source.startsWith('0x', index)) {
+      const match = /^(?:0x[\da-f]+|\$x[\da-f]+|\$'.'|\$[a-z]+)/i.exec(source.slice(index))
+      if (!match) {
+        throw error(`unexpected '${char}'`)
+      }
+
+      const text = match[0]
+      const lower = text.toLowerCase()
+      let value: number | undefined
+
+      if (lower.startsWith('0x'))
+        value = Number.parseInt(lower.slice(2), 16)
+      else if (lower.startsWith('$x'))
+        value = Number.parseInt(lower.slice(2), 16)
+      else if (text.startsWith('$\''))
+        value = text.charCodeAt(2)
+      else
+        value = CONSTANTS[lower]
+
+      if (value === undefined) {
+        throw error(`unknown constant '${text}'`)
+      }
+
+      tokens.push({ type: 'number', value: String(value), line, column })
+      index += text.length
+      continue
+    }
+
+    // Decimal literals: 1, 1.5, .5, 1e-3
+    const number = /^(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i.exec(source.slice(index))
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], line, column })
+      index += number[0].length
+      continue
+    }
+
+    // Identifiers are case-insensitive in EEL2
+    const identifier = /^[a-z_][\w.]*/i.exec(source.slice(index))
+    if (identifier) {
+      tokens.push({ type: 'identifier', value: identifier[0].toLowerCase(), line, column })
+      index += identifier[0].length
+      continue
+    }
+
+    const operator = OPERATORS.find(op => source.startsWith(op, index))
+    if (operator !== undefined) {
+      tokens.push({ type: 'operator', value: operator, line, column })
+      index += operator.length
+      continue
+    }
+
+    throw error(`unexpected '${char}'`)
+  }
+
+  tokens.push({ type: 'eof', value: '', line, column: index - lineStart + 1 })
+  return tokens
+}
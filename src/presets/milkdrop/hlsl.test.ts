@@ -0,0 +1,107 @@
+import type { MilkdropShaderTranslation } from './hlsl'
+import { describe, expect, it } from 'vitest'
+import { remapShaderLog } from '../../core/ShaderSourceMap'
+import { translateMilkdropShader } from './hlsl'
+
+const OPTIONS = {
+  name: 'comp',
+  header: '#version 300 es\nprecision highp float;',
+  mainSampler: 'u_main',
+  prologue: 'vec3 ret = vec3(0.0);',
+  epilogue: 'md_output(ret);',
+}
+
+function translate(hlsl: string): MilkdropShaderTranslation {
+  return translateMilkdropShader(hlsl, OPTIONS)
+}
+
+// The translated text of an original shader line, found through the source map
+function translatedLine(translation: MilkdropShaderTranslation, line: number): string {
+  const index = translation.sourceMap.findIndex(location => location?.line === line)
+  return translation.source.split('\n')[index]
+}
+
+describe('translateMilkdropShader', () => {
+  it('renames HLSL types and intrinsics', () => {
+    const translation = translate([
+      'shader_body {',
+      '  float3 a = lerp(float3(0,0,0), frac(uv.xyx), 0.5f);',
+      '  half2 b = saturate(uv) * rsqrt(atan2(uv.y, uv.x));',
+      '  float2x2 m = float2x2(1, 0, 0, 1);',
+      '  static int n = int(2.7);',
+      '}',
+    ].join('\n'))
+
+    expect(translatedLine(translation, 2)).toBe('  vec3 a = mix(vec3(0.0,0.0,0.0), fract(uv.xyx), 0.5);')
+    expect(translatedLine(translation, 3)).toBe('  vec2 b = saturate(uv) * inversesqrt(atan(uv.y, uv.x));')
+    expect(translatedLine(translation, 4)).toBe('  mat2x2 m = mat2x2(1.0, 0.0, 0.0, 1.0);')
+    expect(translatedLine(translation, 5)).toBe('  float n = trunc(2.7);')
+    expect(translation.source).toContain('vec2 saturate(vec2 x) { return clamp(x, 0.0, 1.0); }')
+  })
+
+  it('turns int loops into float loops', () => {
+    const translation = translate('shader_body {\n  int n = 3; for (int i = 0; i < n; i++) ret += 0.1;\n}')
+    expect(translatedLine(translation, 2)).toBe('  float n = 3.0; for (float i = 0.0; i < n; i++) ret += 0.1;')
+  })
+
+  it('swaps the operands of mul() and keeps integer array indices', () => {
+    const translation = translate('shader_body {\n  float2 p = mul(uv, float2x2(c[0], s, -s, c[1]));\n}')
+    expect(translatedLine(translation, 2)).toBe('  vec2 p = ((mat2x2(c[0], s, -s, c[1])) * (uv));')
+  })
+
+  it('maps tex2D and tex3D onto per-sampler helpers', () => {
+    const translation = translate([
+      'sampler sampler_pw_noise_lq;',
+      'sampler3D sampler_noisevol_hq;',
+      'float4 texsize_noise_lq;',
+      'shader_body {',
+      '  ret = tex2D(sampler_main, uv).xyz + tex2D(sampler_blur1, uv).xyz;',
+      '  ret += tex2D(sampler_pw_noise_lq, uv).xyz + tex3D(sampler_noisevol_hq, float3(uv, time)).xyz;',
+      '}',
+    ].join('\n'))
+
+    // Sampler and texsize declarations come from the prelude instead
+    expect(translatedLine(translation, 1)).toBe('')
+    expect(translatedLine(translation, 3)).toBe('')
+    expect(translatedLine(translation, 5)).toBe('  ret = md_sample_main( uv).xyz + md_sample_blur1( uv).xyz;')
+    expect(translatedLine(translation, 6)).toBe('  ret += md_sample_pw_noise_lq( uv).xyz + md_sample_noisevol_hq( vec3(uv, time)).xyz;')
+    expect(translation.source).toContain('vec4 md_sample_main(vec2 uv) { return texture(u_main, uv); }')
+    expect(translation.source).toContain('vec4 md_sample_blur1(vec2 uv) { return vec4(md_blur(uv, 1.0), 1.0); }')
+    expect(translation.source).toContain('vec4 md_sample_pw_noise_lq(vec2 uv) { return md_noise2D(uv, 256.0, false); }')
+    expect(translation.source).toContain('vec4 md_sample_noisevol_hq(vec3 uvw) { return md_noise3D(uvw, 16.0, true); }')
+    expect(translation.warnings).toEqual([])
+  })
+
+  it('samples the main image for textures it does not have', () => {
+    const translation = translate('shader_body {\n  ret = tex2D(sampler_clouds, uv * texsize_clouds.zw).xyz;\n}')
+
+    expect(translation.warnings).toEqual(['Texture \'clouds\' is not available and will sample the main image'])
+    expect(translation.source).toContain('#define texsize_clouds texsize')
+    expect(translation.source).toContain('vec4 md_sample_clouds(vec2 uv) { return texture(u_main, uv); }')
+  })
+
+  it('splices the prologue and epilogue into shader_body', () => {
+    const translation = translate('shader_body\n{\n  ret = float3(1, 0, 0);\n}')
+
+    expect(translatedLine(translation, 1)).toBe('void main()')
+    expect(translatedLine(translation, 2)).toBe('{ vec3 ret = vec3(0.0); ')
+    expect(translatedLine(translation, 4)).toBe(' md_output(ret); }')
+  })
+
+  it('maps compiler errors back to the original lines', () => {
+    const translation = translate('// comp\nshader_body {\n  ret = undefinedThing;\n}')
+    const generatedLine = translation.sourceMap.findIndex(location => location?.line === 3) + 1
+
+    expect(remapShaderLog(`ERROR: 0:${generatedLine}: 'undefinedThing' : undeclared identifier`, translation.sourceMap))
+      .toBe('ERROR: comp:3: \'undefinedThing\' : undeclared identifier\n  > ret = undefinedThing;')
+  })
+
+  it('reports unsupported code against the original line', () => {
+    expect(() => translate('shader_body {\n  ret = tex2Dlod(sampler_main, float4(uv, 0, 0)).xyz;\n}'))
+      .toThrow('Milkdrop comp shader, line 2: tex2Dproj/tex2Dlod/tex2Dbias/tex2Dgrad are not supported\n  > ret = tex2Dlod(sampler_main, float4(uv, 0, 0)).xyz;')
+    expect(() => translate('shader_body {\n  ret = (float3)uv.x;\n}')).toThrow('line 2: C-style casts are not supported')
+    expect(() => translate('ret = 1;')).toThrow('Milkdrop comp shader: missing shader_body')
+    expect(() => translate('shader_body {\n  ret = 1;\n')).toThrow('Milkdrop comp shader, line 1: shader_body has unbalanced braces')
+    expect(() => translate('shader_body {}\nshader_body {}')).toThrow('line 2: shader_body appears more than once')
+  })
+})
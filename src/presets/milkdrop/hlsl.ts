@@ -0,0 +1,385 @@
+import type { ShaderSourceMap } from '../../core/ShaderSourceMap'
+
+export interface MilkdropShaderOptions {
+  // Label used in source maps and errors, e.g. 'warp' or 'comp'
+  name: string
+  // GLSL emitted before the translated shader: version, uniforms, helpers
+  header: string
+  // Texture that sampler_main and its filtering variants read from
+  mainSampler: string
+  // Single-line statements run at the start and end of main()
+  prologue: string
+  epilogue: string
+}
+
+export interface MilkdropShaderTranslation {
+  source: string
+  sourceMap: ShaderSourceMap
+  warnings: string[]
+}
+
+// Milkdrop's built-in noise textures and their sizes
+const NOISE_TEXTURES: Record<string, { size: number, smooth: boolean, volume: boolean }> = {
+  noise_lq: { size: 256, smooth: false, volume: false },
+  noise_lq_lite: { size: 32, smooth: false, volume: false },
+  noise_mq: { size: 64, smooth: true, volume: false },
+  noise_hq: { size: 32, smooth: true, volume: false },
+  noisevol_lq: { size: 32, smooth: false, volume: true },
+  noisevol_hq: { size: 16, smooth: true, volume: true },
+}
+
+const BLUR_RADIUS: Record<string, number> = {
+  blur1: 1,
+  blur2: 2,
+  blur3: 4,
+}
+
+// Constructs with no GLSL ES 3.00 equivalent in this translator
+const UNSUPPORTED_PATTERNS: [RegExp, string][] = [
+  [/\btex2D(?:proj|lod|bias|grad)\s*\(/, 'tex2Dproj/tex2Dlod/tex2Dbias/tex2Dgrad are not supported'],
+  [/\btexCUBE\s*\(/, 'cube map textures are not supported'],
+  [/^\s*#\s*include\b/, '#include is not supported in Milkdrop shaders'],
+  [/\bsincos\s*\(/, 'sincos() is not supported; use sin() and cos()'],
+  [/\(\s*(?:float[234]?|half[234]?|int)\s*\)\s*[\w(]/, 'C-style casts are not supported; use a constructor like float3(x)'],
+]
+
+// Simple renames from HLSL intrinsics and types to GLSL
+const RENAMES: [RegExp, string][] = [
+  [/\b(?:float|half|double)([234])x([234])\b/g, 'mat$1x$2'],
+  [/\b(?:float|half|double)([234])\b/g, 'vec$1'],
+  [/\b(?:half|double)\b/g, 'float'],
+  // Milkdrop's shader models run ints as floats, so they become floats here too:
+  // literals get a .0 and loop counters compare against them. Casts still truncate.
+  [/\bint\s*\(/g, 'trunc('],
+  [/\bint([234])\b/g, 'vec$1'],
+  [/\bint\b/g, 'float'],
+  [/\bbool([234])\b/g, 'bvec$1'],
+  [/\blerp\s*\(/g, 'mix('],
+  [/\bfrac\s*\(/g, 'fract('],
+  [/\batan2\s*\(/g, 'atan('],
+  [/\brsqrt\s*\(/g, 'inversesqrt('],
+  [/\bddx\s*\(/g, 'dFdx('],
+  [/\bddy\s*\(/g, 'dFdy('],
+  [/\bstatic\s+/g, ''],
+]
+
+// Shared helpers, typed for every vector width
+const GENERIC_HELPERS = ['float', 'vec2', 'vec3', 'vec4'].map(type => [
+  `${type} saturate(${type} x) { return clamp(x, 0.0, 1.0); }`,
+  `${type} fmod(${type} x, ${type} y) { return x - y * trunc(x / y); }`,
+  `${type} log10(${type} x) { return log(x) * 0.4342944819; }`,
+].join('\n')).join('\n')
+
+function createPrelude(mainSampler: string, samplers: Map<string, string>): string {
+  const qDefines: string[] = []
+  const banks = ['qa', 'qb', 'qc', 'qd', 'qe', 'qf', 'qg', 'qh']
+  banks.forEach((bank, i) => {
+    qDefines.push(`uniform vec4 u_${bank};`)
+    qDefines.push(`#define _${bank} u_${bank}`)
+    ;['x', 'y', 'z', 'w'].forEach((component, j) => {
+      qDefines.push(`#define q${i * 4 + j + 1} u_${bank}.${component}`)
+    })
+  })
+
+  const samplerFunctions = Array.from(samplers.values())
+
+  return `
+// Milkdrop shader environment
+uniform vec4 u_frameInfo;
+uniform vec4 u_levels;
+uniform vec4 u_levelsAtt;
+uniform vec4 u_randFrame;
+uniform vec4 u_randPreset;
+${qDefines.join('\n')}
+
+#define M_PI 3.14159265359
+#define M_PI_2 6.28318530718
+#define M_INV_PI_2 0.159154943091895
+#define time u_frameInfo.x
+#define fps u_frameInfo.y
+#define frame u_frameInfo.z
+#define progress u_frameInfo.w
+#define bass u_levels.x
+#define mid u_levels.y
+#define treb u_levels.z
+#define vol u_levels.w
+#define bass_att u_levelsAtt.x
+#define mid_att u_levelsAtt.y
+#define treb_att u_levelsAtt.z
+#define vol_att u_levelsAtt.w
+#define rand_frame u_randFrame
+#define rand_preset u_randPreset
+#define texsize vec4(u_resolution, 1.0 / u_resolution)
+#define md_aspect vec2(u_resolution.x > u_resolution.y ? u_resolution.y / u_resolution.x : 1.0, u_resolution.y > u_resolution.x ? u_resolution.x / u_resolution.y : 1.0)
+#define aspect vec4(md_aspect, 1.0 / md_aspect)
+// Approximations of Milkdrop's slowly roaming oscillators
+#define roam_cos (0.5 + 0.5 * cos(u_frameInfo.x * vec4(1.0, 1.3, 1.6, 2.1)))
+#define roam_sin (0.5 + 0.5 * sin(u_frameInfo.x * vec4(1.0, 1.3, 1.6, 2.1)))
+#define slow_roam_cos (0.5 + 0.5 * cos(u_frameInfo.x * vec4(0.005, 0.008, 0.013, 0.022)))
+#define slow_roam_sin (0.5 + 0.5 * sin(u_frameInfo.x * vec4(0.005, 0.008, 0.013, 0.022)))
+#define blur1_min 0.0
+#define blur1_max 1.0
+#define blur2_min 0.0
+#define blur2_max 1.0
+#define blur3_min 0.0
+#define blur3_max 1.0
+const vec4 texsize_noise_lq = vec4(256.0, 256.0, 1.0 / 256.0, 1.0 / 256.0);
+const vec4 texsize_noise_lq_lite = vec4(32.0, 32.0, 1.0 / 32.0, 1.0 / 32.0);
+const vec4 texsize_noise_mq = vec4(256.0, 256.0, 1.0 / 256.0, 1.0 / 256.0);
+const vec4 texsize_noise_hq = vec4(256.0, 256.0, 1.0 / 256.0, 1.0 / 256.0);
+const vec4 texsize_noisevol_lq = vec4(32.0, 32.0, 1.0 / 32.0, 1.0 / 32.0);
+const vec4 texsize_noisevol_hq = vec4(32.0, 32.0, 1.0 / 32.0, 1.0 / 32.0);
+
+${GENERIC_HELPERS}
+
+float lum(vec3 x) { return dot(x, vec3(0.32, 0.49, 0.29)); }
+
+// Procedural stand-ins for Milkdrop's noise textures
+float md_hash(vec3 p) {
+  p = fract(p * 0.3183099 + 0.1);
+  p *= 17.0;
+  return fract(p.x * p.y * p.z * (p.x + p.y + p.z));
+}
+
+vec4 md_hash4(vec3 p) {
+  return vec4(md_hash(p), md_hash(p + 17.1), md_hash(p + 31.7), md_hash(p + 47.3));
+}
+
+vec4 md_noise2D(vec2 uv, float size, bool smoothed) {
+  vec2 p = uv * size - 0.5;
+  vec2 i = floor(p);
+  vec2 f = fract(p);
+  if (smoothed) f = f * f * (3.0 - 2.0 * f);
+  vec4 a = md_hash4(vec3(mod(i, size), 0.0));
+  vec4 b = md_hash4(vec3(mod(i + vec2(1.0, 0.0), size), 0.0));
+  vec4 c = md_hash4(vec3(mod(i + vec2(0.0, 1.0), size), 0.0));
+  vec4 d = md_hash4(vec3(mod(i + vec2(1.0, 1.0), size), 0.0));
+  return mix(mix(a, b, f.x), mix(c, d, f.x), f.y);
+}
+
+vec4 md_noise3D(vec3 uvw, float size, bool smoothed) {
+  vec3 p = uvw * size - 0.5;
+  vec3 i = floor(p);
+  vec3 f = fract(p);
+  if (smoothed) f = f * f * (3.0 - 2.0 * f);
+  vec4 front = mix(
+    mix(md_hash4(mod(i, size)), md_hash4(mod(i + vec3(1.0, 0.0, 0.0), size)), f.x),
+    mix(md_hash4(mod(i + vec3(0.0, 1.0, 0.0), size)), md_hash4(mod(i + vec3(1.0, 1.0, 0.0), size)), f.x),
+    f.y);
+  vec4 back = mix(
+    mix(md_hash4(mod(i + vec3(0.0, 0.0, 1.0), size)), md_hash4(mod(i + vec3(1.0, 0.0, 1.0), size)), f.x),
+    mix(md_hash4(mod(i + vec3(0.0, 1.0, 1.0), size)), md_hash4(mod(i + vec3(1.0, 1.0, 1.0), size)), f.x),
+    f.y);
+  return mix(front, back, f.z);
+}
+
+// Box blur of the main texture in place of Milkdrop's blur passes
+vec3 md_blur(vec2 uv, float radius) {
+  vec2 texel = radius / u_resolution;
+  vec3 sum = vec3(0.0);
+  for (int x = -1; x <= 1; x++) {
+    for (int y = -1; y <= 1; y++) {
+      sum += texture(${mainSampler}, uv + vec2(float(x), float(y)) * texel).rgb;
+    }
+  }
+  return sum / 9.0;
+}
+
+vec3 GetMain(vec2 uv) { return texture(${mainSampler}, uv).rgb; }
+vec3 GetPixel(vec2 uv) { return texture(${mainSampler}, uv).rgb; }
+vec3 GetBlur1(vec2 uv) { return md_blur(uv, ${BLUR_RADIUS.blur1.toFixed(1)}); }
+vec3 GetBlur2(vec2 uv) { return md_blur(uv, ${BLUR_RADIUS.blur2.toFixed(1)}); }
+vec3 GetBlur3(vec2 uv) { return md_blur(uv, ${BLUR_RADIUS.blur3.toFixed(1)}); }
+
+${samplerFunctions.join('\n')}
+`
+}
+
+// Canonical name of a Milkdrop sampler, without the filtering/wrap prefix
+function getSamplerBaseName(sampler: string): string {
+  return sampler.replace(/^sampler_/, '').replace(/^(?:fw|fc|pw|pc)_/, '')
+}
+
+function createSamplerFunction(sampler: string, volume: boolean, mainSampler: string, warnings: string[]): string {
+  const base = getSamplerBaseName(sampler)
+  const name = `md_sample_${sampler.replace(/^sampler_/, '')}`
+
+  if (base === 'main')
+    return `vec4 ${name}(vec2 uv) { return texture(${mainSampler}, uv); }`
+
+  if (base in BLUR_RADIUS)
+    return `vec4 ${name}(vec2 uv) { return vec4(md_blur(uv, ${BLUR_RADIUS[base].toFixed(1)}), 1.0); }`
+
+  const noise = NOISE_TEXTURES[base]
+  if (noise !== undefined) {
+    return noise.volume
+      ? `vec4 ${name}(vec3 uvw) { return md_noise3D(uvw, ${noise.size.toFixed(1)}, ${noise.smooth}); }`
+      : `vec4 ${name}(vec2 uv) { return md_noise2D(uv, ${noise.size.toFixed(1)}, ${noise.smooth}); }`
+  }
+
+  // Stands in with the main image, at its size; fw_/pc_ variants share the texsize define
+  warnings.push(`Texture '${base}' is not available and will sample the main image`)
+  const texsize = `#ifndef texsize_${base}\n#define texsize_${base} texsize\n#endif`
+  return volume
+    ? `${texsize}\nvec4 ${name}(vec3 uvw) { return texture(${mainSampler}, uvw.xy); }`
+    : `${texsize}\nvec4 ${name}(vec2 uv) { return texture(${mainSampler}, uv); }`
+}
+
+// Swap the operands of mul(a, b): HLSL row-vector maths becomes GLSL column-vector maths
+function translateMul(line: string): string {
+  let result = line
+  let start = result.search(/\bmul\s*\(/)
+
+  while (start !== -1) {
+    const open = result.indexOf('(', start)
+    let depth = 0
+    let comma = -1
+    let close = -1
+
+    for (let i = open; i < result.length; i++) {
+      const char = result[i]
+      if (char === '(') {
+        depth++
+      }
+      else if (char === ')') {
+        depth--
+        if (depth === 0) {
+          close = i
+          break
+        }
+      }
+      else if (char === ',' && depth === 1 && comma === -1) {
+        comma = i
+      }
+    }
+
+    if (close === -1 || comma === -1)
+      break
+
+    const a = result.slice(open + 1, comma).trim()
+    const b = result.slice(comma + 1, close).trim()
+    result = `${result.slice(0, start)}((${b}) * (${a}))${result.slice(close + 1)}`
+    start = result.search(/\bmul\s*\(/)
+  }
+
+  return result
+}
+
+// HLSL promotes integer literals to float; GLSL ES does not
+function translateNumbers(line: string): string {
+  let bracketDepth = 0
+  return line
+    .replace(/(?:\d+(?:\.\d*)?|\.\d+)(?:e[+-]?\d+)?f\b/gi, match => match.slice(0, -1))
+    .replace(/[[\]]|(?<![.\w])\d+(?![.\w])/g, (match) => {
+      if (match === '[') {
+        bracketDepth++
+        return match
+      }
+      if (match === ']') {
+        bracketDepth--
+        return match
+      }
+      return bracketDepth > 0 ? match : `${match}.0`
+    })
+}
+
+function lineError(name: string, line: number, text: string, message: string): Error {
+  return new Error(`Milkdrop ${name} shader, line ${line}: ${message}\n  > ${text.trim()}`)
+}
+
+export function translateMilkdropShader(hlsl: string, options: MilkdropShaderOptions): MilkdropShaderTranslation {
+  const { name, mainSampler } = options
+  const warnings: string[] = []
+  const lines = hlsl.split(/\r?\n/)
+  const samplers: Map<string, string> = new Map()
+
+  let bodyLine = -1
+  const translated = lines.map((original, index) => {
+    for (const [pattern, message] of UNSUPPORTED_PATTERNS) {
+      if (pattern.test(original)) {
+        throw lineError(name, index + 1, original, message)
+      }
+    }
+
+    // Samplers and their sizes are declared by the prelude
+    if (/^\s*sampler(?:2D|3D)?\s+\w+\s*;/.test(original) || /^\s*(?:float4|vec4)\s+texsize_\w+\s*;/.test(original))
+      return ''
+
+    let line = original
+
+    if (/\bshader_body\b/.test(line)) {
+      if (bodyLine !== -1) {
+        throw lineError(name, index + 1, original, 'shader_body appears more than once')
+      }
+      bodyLine = index
+      line = line.replace(/\bshader_body\b/, 'void main()')
+    }
+
+    // tex2D(sampler_x, uv) and tex3D(sampler_x, uvw) call per-sampler helpers
+    line = line.replace(/\btex([23])[dD]\s*\(\s*(sampler_\w+)\s*,/g, (_match: string, dimension: string, sampler: string) => {
+      if (!samplers.has(sampler)) {
+        samplers.set(sampler, createSamplerFunction(sampler, dimension === '3', mainSampler, warnings))
+      }
+      return `md_sample_${sampler.replace(/^sampler_/, '')}(`
+    })
+    line = line.replace(/\btex[23][dD]\s*\(/g, 'texture(')
+
+    for (const [pattern, replacement] of RENAMES) {
+      line = line.replace(pattern, replacement)
+    }
+
+    return translateNumbers(translateMul(line))
+  })
+
+  if (bodyLine === -1) {
+    throw new Error(`Milkdrop ${name} shader: missing shader_body`)
+  }
+
+  // Find main()'s braces and splice the prologue and epilogue onto their lines
+  let depth = 0
+  let open: { line: number, column: number } | null = null
+  let close: { line: number, column: number } | null = null
+
+  for (let i = bodyLine; i < translated.length && !close; i++) {
+    const line = translated[i]
+    const startColumn = i === bodyLine ? line.indexOf('void main()') + 'void main()'.length : 0
+    for (let column = startColumn; column < line.length; column++) {
+      if (line.startsWith('//', column))
+        break
+      if (line[column] === '{') {
+        if (depth === 0)
+          open = { line: i, column }
+        depth++
+      }
+      else if (line[column] === '}') {
+        depth--
+        if (depth === 0 && open) {
+          close = { line: i, column }
+          break
+        }
+      }
+    }
+  }
+
+  if (!open || !close) {
+    throw lineError(name, bodyLine + 1, lines[bodyLine], 'shader_body has unbalanced braces')
+  }
+
+  const closeLine = translated[close.line]
+  translated[close.line] = `${closeLine.slice(0, close.column)} ${options.epilogue} ${closeLine.slice(close.column)}`
+  const openLine = translated[open.line]
+  translated[open.line] = `${openLine.slice(0, open.column + 1)} ${options.prologue} ${openLine.slice(open.column + 1)}`
+
+  const preamble = `${options.header}\n${createPrelude(mainSampler, samplers)}`
+  const preambleLines = preamble.split('\n')
+  const sourceMap: ShaderSourceMap = [
+    ...preambleLines.map(() => null),
+    ...lines.map((text, index) => ({ source: name, line: index + 1, text })),
+  ]
+
+  return {
+    source: `${preamble}\n${translated.join('\n')}`,
+    sourceMap,
+    warnings,
+  }
+}
@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { parseMilk } from './milkParser'
+
+const PRESET = `[preset00]
+MILKDROP_PRESET_VERSION=201
+PSVERSION=2
+fRating=4.000000
+fDecay=0.980000
+zoom=1.010000
+nWaveMode=6
+per_frame_init_1=base = 0.5;
+per_frame_2=zoom = zoom + 0.01*bass;
+per_frame_1=rot = 0.1*sin(time);
+per_pixel_1=zoom = zoom + rad*0.1;
+wavecode_0_enabled=1
+wavecode_0_samples=512
+wave_0_per_point1=x = sample;
+wave_0_per_point2=y = value1;
+wave_0_per_frame1=r = bass;
+shapecode_1_sides=6
+shape_1_init1=t_rot = 0;
+shape_1_per_frame1=ang = time;
+warp_1=\`shader_body {
+warp_2=\`  ret = tex2D(sampler_main, uv).xyz;
+warp_3=\`}
+comp_1=\`shader_body { ret = tex2D(sampler_main, uv).xyz; }
+`
+
+describe('parseMilk', () => {
+  it('reads the version and maps header keys to base values', () => {
+    const { data, warnings } = parseMilk(PRESET)
+
+    expect(warnings).toEqual([])
+    expect(data.version).toBe(201)
+    expect(data.shaderLanguage).toBe('hlsl')
+    expect(data.baseValues).toEqual({ rating: 4, decay: 0.98, zoom: 1.01, wave_mode: 6 })
+  })
+
+  it('joins numbered equation lines in order', () => {
+    const { equations } = parseMilk(PRESET).data
+
+    expect(equations.init).toBe('base = 0.5;')
+    expect(equations.perFrame).toBe('rot = 0.1*sin(time);\nzoom = zoom + 0.01*bass;')
+    expect(equations.perPixel).toBe('zoom = zoom + rad*0.1;')
+  })
+
+  it('collects custom waves and shapes by index', () => {
+    const { waves, shapes } = parseMilk(PRESET).data
+
+    expect(waves).toEqual([{
+      index: 0,
+      baseValues: { enabled: 1, samples: 512 },
+      init: '',
+      perFrame: 'r = bass;',
+      perPoint: 'x = sample;\ny = value1;',
+    }])
+    expect(shapes).toEqual([{
+      index: 1,
+      baseValues: { sides: 6 },
+      init: 't_rot = 0;',
+      perFrame: 'ang = time;',
+    }])
+  })
+
+  it('strips the backticks from shader lines', () => {
+    const { warpShader, compShader } = parseMilk(PRESET).data
+
+    expect(warpShader).toBe('shader_body {\n  ret = tex2D(sampler_main, uv).xyz;\n}')
+    expect(compShader).toBe('shader_body { ret = tex2D(sampler_main, uv).xyz; }')
+  })
+
+  it('accepts CRLF line endings and leaves missing sections empty', () => {
+    const { data } = parseMilk('[preset00]\r\nzoom=1.5\r\nper_frame_1=a = 1;\r\n')
+
+    expect(data.version).toBe(100)
+    expect(data.baseValues).toEqual({ zoom: 1.5 })
+    expect(data.equations).toEqual({ init: '', perFrame: 'a = 1;', perPixel: '' })
+    expect(data.warpShader).toBeUndefined()
+    expect(data.compShader).toBeUndefined()
+  })
+
+  it('warns about entries it cannot use', () => {
+    const { data, warnings } = parseMilk('no separator\nfShader=fast\nshapecode_0_sides=many\n// a comment')
+
+    expect(data.baseValues).toEqual({})
+    expect(warnings).toEqual([
+      'Line 1: ignoring malformed entry \'no separator\'',
+      'Line 2: ignoring unknown entry \'fShader\'',
+      'Line 3: shape 0 value \'sides\' is not a number',
+    ])
+  })
+})
@@ -0,0 +1,205 @@
+import type { MilkdropPresetData, MilkdropShape, MilkdropWave } from './MilkdropPreset'
+
+export interface MilkParseResult {
+  data: MilkdropPresetData
+  warnings: string[]
+}
+
+// .milk keys that differ from the Butterchurn base value names
+const MILK_KEY_ALIASES: Record<string, string> = {
+  fRating: 'rating',
+  fGammaAdj: 'gammaadj',
+  fDecay: 'decay',
+  fVideoEchoZoom: 'echo_zoom',
+  fVideoEchoAlpha: 'echo_alpha',
+  nVideoEchoOrientation: 'echo_orient',
+  nWaveMode: 'wave_mode',
+  bAdditiveWaves: 'additivewave',
+  bWaveDots: 'wave_dots',
+  bWaveThick: 'wave_thick',
+  bModWaveAlphaByVolume: 'modwavealphabyvolume',
+  bMaximizeWaveColor: 'wave_brighten',
+  bTexWrap: 'wrap',
+  bDarkenCenter: 'darken_center',
+  bRedBlueStereo: 'red_blue',
+  bBrighten: 'brighten',
+  bDarken: 'darken',
+  bSolarize: 'solarize',
+  bInvert: 'invert',
+  fWaveAlpha: 'wave_a',
+  fWaveScale: 'wave_scale',
+  fWaveSmoothing: 'wave_smoothing',
+  fWaveParam: 'wave_mystery',
+  fModWaveAlphaStart: 'modwavealphastart',
+  fModWaveAlphaEnd: 'modwavealphaend',
+  fWarpAnimSpeed: 'warpanimspeed',
+  fWarpScale: 'warpscale',
+  fZoomExponent: 'zoomexp',
+  fShader: 'fshader',
+  nMotionVectorsX: 'mv_x',
+  nMotionVectorsY: 'mv_y',
+}
+
+// Header keys that describe the file rather than the preset
+const IGNORED_KEYS = new Set(['PSVERSION', 'PSVERSION_WARP', 'PSVERSION_COMP'])
+
+type CodeLines = Map<number, string>
+
+interface IndexedBlock {
+  baseValues: Record<string, number>
+  blocks: Map<string, CodeLines>
+}
+
+function joinCodeLines(lines: CodeLines | undefined): string {
+  if (lines === undefined)
+    return ''
+
+  return Array.from(lines.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([, line]) => line)
+    .join('\n')
+}
+
+function getCodeLines(blocks: Map<string, CodeLines>, name: string): CodeLines {
+  let lines = blocks.get(name)
+  if (!lines) {
+    lines = new Map()
+    blocks.set(name, lines)
+  }
+  return lines
+}
+
+function createIndexedBlock(): IndexedBlock {
+  return { baseValues: {}, blocks: new Map<string, CodeLines>() }
+}
+
+function getIndexed<T>(items: Map<number, T>, index: number, create: () => T): T {
+  let item = items.get(index)
+  if (item === undefined) {
+    item = create()
+    items.set(index, item)
+  }
+  return item
+}
+
+export function parseMilk(source: string): MilkParseResult {
+  const warnings: string[] = []
+  const baseValues: Record<string, number> = {}
+  const codeBlocks: Map<string, CodeLines> = new Map()
+  const waves: Map<number, IndexedBlock> = new Map()
+  const shapes: Map<number, IndexedBlock> = new Map()
+  let version = 100
+
+  const lines = source.split(/\r?\n/)
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim()
+
+    // Skip blank lines, comments and section headers like [preset00]
+    if (!line || line.startsWith('//') || line.startsWith(';') || line.startsWith('['))
+      continue
+
+    const separator = line.indexOf('=')
+    if (separator <= 0) {
+      warnings.push(`Line ${i + 1}: ignoring malformed entry '${line}'`)
+      continue
+    }
+
+    const key = line.slice(0, separator).trim()
+    const value = line.slice(separator + 1)
+
+    if (key === 'MILKDROP_PRESET_VERSION') {
+      version = Number.parseInt(value, 10) || version
+      continue
+    }
+
+    if (IGNORED_KEYS.has(key))
+      continue
+
+    // Preset equations: per_frame_init_N, per_frame_N, per_pixel_N
+    let match = /^(per_frame_init|per_frame|per_pixel)_(\d+)$/.exec(key)
+    if (match) {
+      getCodeLines(codeBlocks, match[1]).set(Number(match[2]), value)
+      continue
+    }
+
+    // Shader sections: warp_N, comp_N with a leading backtick
+    match = /^(warp|comp)_(\d+)$/.exec(key)
+    if (match) {
+      getCodeLines(codeBlocks, match[1]).set(Number(match[2]), value.replace(/^`/, ''))
+      continue
+    }
+
+    // Custom wave and shape base values: wavecode_0_enabled, shapecode_1_sides
+    match = /^(wave|shape)code_(\d+)_(\w+)$/.exec(key)
+    if (match) {
+      const items = match[1] === 'wave' ? waves : shapes
+      const item = getIndexed(items, Number(match[2]), createIndexedBlock)
+      const number = Number.parseFloat(value)
+      if (Number.isNaN(number)) {
+        warnings.push(`Line ${i + 1}: ${match[1]} ${match[2]} value '${match[3]}' is not a number`)
+      }
+      else {
+        item.baseValues[match[3].toLowerCase()] = number
+      }
+      continue
+    }
+
+    // Custom wave and shape code: wave_0_per_point1, shape_2_init3
+    match = /^(wave|shape)_(\d+)_(init|per_frame|per_point)(\d+)$/.exec(key)
+    if (match) {
+      const items = match[1] === 'wave' ? waves : shapes
+      const item = getIndexed(items, Number(match[2]), createIndexedBlock)
+      getCodeLines(item.blocks, match[3]).set(Number(match[4]), value)
+      continue
+    }
+
+    const number = Number.parseFloat(value)
+    if (Number.isNaN(number)) {
+      warnings.push(`Line ${i + 1}: ignoring unknown entry '${key}'`)
+      continue
+    }
+
+    baseValues[MILK_KEY_ALIASES[key] ?? key.toLowerCase()] = number
+  }
+
+  const waveList: MilkdropWave[] = Array.from(waves.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([index, wave]) => ({
+      index,
+      baseValues: wave.baseValues,
+      init: joinCodeLines(wave.blocks.get('init')),
+      perFrame: joinCodeLines(wave.blocks.get('per_frame')),
+      perPoint: joinCodeLines(wave.blocks.get('per_point')),
+    }))
+
+  const shapeList: MilkdropShape[] = Array.from(shapes.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([index, shape]) => ({
+      index,
+      baseValues: shape.baseValues,
+      init: joinCodeLines(shape.blocks.get('init')),
+      perFrame: joinCodeLines(shape.blocks.get('per_frame')),
+    }))
+
+  const warpShader = joinCodeLines(codeBlocks.get('warp'))
+  const compShader = joinCodeLines(codeBlocks.get('comp'))
+
+  return {
+    data: {
+      version,
+      baseValues,
+      equations: {
+        init: joinCodeLines(codeBlocks.get('per_frame_init')),
+        perFrame: joinCodeLines(codeBlocks.get('per_frame')),
+        perPixel: joinCodeLines(codeBlocks.get('per_pixel')),
+      },
+      waves: waveList,
+      shapes: shapeList,
+      warpShader: warpShader || undefined,
+      compShader: compShader || undefined,
+      shaderLanguage: 'hlsl',
+    },
+    warnings,
+  }
+}
@@ -0,0 +1,99 @@
+import type { ShaderSourceMap } from '../core/ShaderSourceMap'
+
+export type ShaderDialect = 'glsl' | 'shadertoy'
+
+// Shadertoy's audio input is a 512x2 texture: FFT in row 0, waveform in row 1
+export const SHADERTOY_AUDIO_WIDTH = 512
+
+export const SHADERTOY_CHANNEL_COUNT = 4
+
+// Channels a Shadertoy pass samples when it does not list its own
+export const DEFAULT_SHADERTOY_CHANNELS = ['audio']
+
+const SHADERTOY_HEADER = `#version 300 es
+precision highp float;
+precision highp int;
+precision highp sampler2D;
+
+out vec4 st_fragColor;
+
+uniform float u_time;
+uniform float u_deltaTime;
+uniform int u_frame;
+uniform vec2 u_resolution;
+uniform vec4 u_mouse;
+uniform vec4 u_date;
+uniform sampler2D u_channel0;
+uniform sampler2D u_channel1;
+uniform sampler2D u_channel2;
+uniform sampler2D u_channel3;
+uniform vec3 u_channelResolution[4];
+uniform float u_channelTime[4];
+
+#define iTime u_time
+#define iTimeDelta u_deltaTime
+#define iFrameRate (u_deltaTime > 0.0 ? 1.0 / u_deltaTime : 60.0)
+#define iFrame u_frame
+#define iResolution vec3(u_resolution, 1.0)
+#define iMouse u_mouse
+#define iDate u_date
+#define iSampleRate 44100.0
+#define iChannel0 u_channel0
+#define iChannel1 u_channel1
+#define iChannel2 u_channel2
+#define iChannel3 u_channel3
+#define iChannelResolution u_channelResolution
+#define iChannelTime u_channelTime
+`
+
+// The image pass is opaque on Shadertoy whatever alpha mainImage writes
+function createFooter(opaque: boolean): string {
+  return `
+void main() {
+  vec4 color = vec4(0.0, 0.0, 0.0, 1.0);
+  mainImage(color, gl_FragCoord.xy);
+  st_fragColor = ${opaque ? 'vec4(color.rgb, 1.0)' : 'color'};
+}
+`
+}
+
+export interface ShadertoyShader {
+  source: string
+  sourceMap: ShaderSourceMap
+}
+
+// Wrap Shadertoy code (a mainImage function plus helpers) into a complete
+// GLSL ES 3.00 fragment shader, keeping a map back to the pasted lines
+export function wrapShadertoyShader(code: string, name: string, opaque: boolean): ShadertoyShader {
+  const lines = code.split('\n')
+  const headerLines = SHADERTOY_HEADER.split('\n')
+
+  // The header ends with a newline, so its last entry is the empty line before the code
+  const sourceMap: ShaderSourceMap = [
+    ...headerLines.slice(0, -1).map(() => null),
+    ...lines.map((text, i) => ({ source: name, line: i + 1, text })),
+  ]
+
+  return {
+    source: `${SHADERTOY_HEADER}${code}${createFooter(opaque)}`,
+    sourceMap,
+  }
+}
+
+// Pack a spectrum and waveform into Shadertoy's 512x2 audio texture layout
+export function createShadertoyAudioData(spectrum: Uint8Array, waveform: Uint8Array, target?: Uint8Array): Uint8Array {
+  const width = SHADERTOY_AUDIO_WIDTH
+  const data = target ?? new Uint8Array(width * 2)
+
+  // Row 0: the first 512 bins, as Shadertoy keeps the low half of a 2048-point FFT
+  for (let i = 0; i < width; i++) {
+    data[i] = i < spectrum.length ? spectrum[i] : 0
+  }
+
+  // Row 1: the first 512 waveform samples, centered on 128 like the analyser output
+  for (let i = 0; i < width; i++) {
+    data[width + i] = i < waveform.length ? waveform[i] : 128
+  }
+
+  return data
+}
@@ -0,0 +1,23 @@
+// How colors above 1 from float buffers are brought into the canvas's 0-1 range:
+// 'none' clips them, 'reinhard' and 'aces' roll them off smoothly
+export type ToneMapping = 'none' | 'reinhard' | 'aces'
+
+export interface ToneMappingOptions {
+  toneMapping?: ToneMapping
+  // Multiplier applied before tone mapping (default: 1)
+  exposure?: number
+}
+
+export const TONE_MAPPINGS: ToneMapping[] = ['none', 'reinhard', 'aces']
+
+export function validateExposure(exposure: number): void {
+  if (!(exposure >= 0) || !Number.isFinite(exposure)) {
+    throw new Error(`Exposure must be a non-negative number, got ${exposure}`)
+  }
+}
+
+export function validateToneMapping(toneMapping: ToneMapping): void {
+  if (!TONE_MAPPINGS.includes(toneMapping)) {
+    throw new Error(`Unknown tone mapping '${String(toneMapping)}'`)
+  }
+}
@@ -0,0 +1,60 @@
+export type TransitionType = 'crossfade' | 'wipe' | 'zoom'
+
+// A custom transition fragment shader. It samples the outgoing preset from
+// u_from and the incoming one from u_to while u_progress runs from 0 to 1.
+export interface TransitionShader {
+  fragment: string
+}
+
+export interface TransitionOptions {
+  transition?: TransitionType | TransitionShader
+  // Seconds
+  duration?: number
+}
+
+export const DEFAULT_TRANSITION_DURATION = 2
+
+const TRANSITION_HEADER = `#version 300 es
+precision highp float;
+
+in vec2 v_texCoord;
+out vec4 fragColor;
+
+uniform sampler2D u_from;
+uniform sampler2D u_to;
+uniform float u_progress;
+uniform vec2 u_resolution;
+`
+
+export const TRANSITION_SHADERS: Record<TransitionType, string> = {
+  crossfade: `${TRANSITION_HEADER}
+void main() {
+  float t = smoothstep(0.0, 1.0, u_progress);
+  fragColor = mix(texture(u_from, v_texCoord), texture(u_to, v_texCoord), t);
+}
+`,
+
+  // Soft-edged sweep from left to right
+  wipe: `${TRANSITION_HEADER}
+void main() {
+  float edge = u_progress * 1.1 - 0.05;
+  float t = smoothstep(edge - 0.05, edge + 0.05, v_texCoord.x);
+  fragColor = mix(texture(u_to, v_texCoord), texture(u_from, v_texCoord), t);
+}
+`,
+
+  // Outgoing preset zooms past the viewer while the incoming one settles in
+  zoom: `${TRANSITION_HEADER}
+void main() {
+  float t = smoothstep(0.0, 1.0, u_progress);
+  vec2 centered = v_texCoord - 0.5;
+  vec4 from = texture(u_from, centered / (1.0 + t * 2.0) + 0.5);
+  vec4 to = texture(u_to, centered * (1.0 + (1.0 - t) * 0.5) + 0.5);
+  fragColor = mix(from, to, t);
+}
+`,
+}
+
+export function getTransitionShader(transition: TransitionType | TransitionShader): string {
+  return typeof transition === 'string' ? TRANSITION_SHADERS[transition] : transition.fragment
+}
@@ -0,0 +1,113 @@
+import type { Program, UniformInfo, UniformSetter } from '../core/Program'
+import type { PresetUniforms } from './Preset'
+import { describe, expect, it } from 'vitest'
+import { bindPresetUniforms, parseColor, validatePresetUniforms } from './uniforms'
+
+// Just the uniform introspection bindPresetUniforms reads, recording what gets uploaded
+function createProgram(declared: Record<string, UniformInfo>): { program: Program, uploads: Record<string, unknown> } {
+  const uploads: Record<string, unknown> = {}
+  const program = {
+    getUniformInfo: (name: string) => declared[name] ?? null,
+    createUniformSetter: (name: string): UniformSetter => (value) => {
+      uploads[name] = value
+    },
+  } as unknown as Program
+  return { program, uploads }
+}
+
+describe('parseColor', () => {
+  it('reads hex colours with and without alpha', () => {
+    expect(parseColor('#ff0000')).toEqual([1, 0, 0, 1])
+    expect(parseColor('#0F08')).toEqual([0, 1, 0, 0x88 / 255])
+    expect(parseColor('#00000080')).toEqual([0, 0, 0, 0x80 / 255])
+  })
+
+  it('converts HSV to RGB', () => {
+    expect(parseColor({ h: 120, s: 1, v: 1 })).toEqual([0, 1, 0, 1])
+    const [r, g, b, a] = parseColor({ h: -60, s: 0.5, v: 0.8, a: 0.5 })
+    expect([r, g, b, a].map(value => Number(value.toFixed(3)))).toEqual([0.8, 0.4, 0.8, 0.5])
+  })
+
+  it('passes arrays through', () => {
+    expect(parseColor([0.1, 0.2, 0.3])).toEqual([0.1, 0.2, 0.3, 1])
+    expect(parseColor([0.1, 0.2, 0.3, 0.4])).toEqual([0.1, 0.2, 0.3, 0.4])
+  })
+
+  it('rejects anything else', () => {
+    expect(() => parseColor('red')).toThrow('\'red\' is not a hex colour')
+    expect(() => parseColor('#12345')).toThrow('is not a hex colour')
+    expect(() => parseColor({ h: 0, s: Number.NaN, v: 1 })).toThrow('HSV colours need numeric h, s and v')
+    expect(() => parseColor([1, 2] as unknown as [number, number, number])).toThrow('A colour must be')
+  })
+})
+
+describe('validatePresetUniforms', () => {
+  it('accepts values that match their types', () => {
+    expect(() => validatePresetUniforms({
+      speed: { type: 'float', value: 1 },
+      enabled: { type: 'bool', value: true },
+      offsets: { type: 'vec2', value: [0, 1, 2, 3], count: 2 },
+      tint: { type: 'color', value: '#fff' },
+      palette: { type: 'color', value: ['#000', [1, 1, 1]], count: 2 },
+      rotation: { type: 'mat2', value: [1, 0, 0, 1] },
+    })).not.toThrow()
+  })
+
+  it('names the uniform in errors', () => {
+    const check = (uniforms: PresetUniforms): (() => void) => () => validatePresetUniforms(uniforms)
+    expect(check({ a: { type: 'vec5' as 'vec4', value: 0 } })).toThrow('Uniform \'a\': unknown type \'vec5\'')
+    expect(check({ a: { type: 'vec3', value: [1, 2] } })).toThrow('Uniform \'a\': needs an array of 3 numbers')
+    expect(check({ a: { type: 'float', value: [1], count: 0 } })).toThrow('Uniform \'a\': count must be a positive integer, got 0')
+    expect(check({ a: { type: 'float', value: [1, 2, 3], count: 2 } })).toThrow('needs an array of 2 numbers')
+    expect(check({ a: { type: 'int', value: true } })).toThrow('needs a single number')
+    expect(check({ a: { type: 'bool', value: 'yes' as unknown as boolean } })).toThrow('needs a single boolean')
+    expect(check({ a: { type: 'color', value: '#fff', count: 2 } })).toThrow('needs an array of 2 colours')
+    expect(check({ a: { type: 'color', value: 'blue' } })).toThrow('Uniform \'a\': \'blue\' is not a hex colour')
+  })
+})
+
+describe('bindPresetUniforms', () => {
+  it('uploads values in the shader\'s layout', () => {
+    const { program, uploads } = createProgram({
+      u_enabled: { type: 'bool', size: 1, isArray: false },
+      u_tint: { type: 'vec3', size: 1, isArray: false },
+      u_palette: { type: 'vec4', size: 2, isArray: true },
+    })
+    const uniforms: PresetUniforms = {
+      enabled: { type: 'bool', value: [true] },
+      tint: { type: 'color', value: '#ff000080' },
+      palette: { type: 'color', value: ['#00ff00', [0, 0, 1, 0.5]], count: 2 },
+    }
+
+    for (const binding of bindPresetUniforms(program, uniforms)) binding.set(uniforms[binding.name])
+
+    expect(uploads).toEqual({
+      u_enabled: [1],
+      u_tint: [1, 0, 0],
+      u_palette: [0, 1, 0, 1, 0, 0, 1, 0.5],
+    })
+  })
+
+  it('skips uniforms the shader does not use and samplers', () => {
+    const { program } = createProgram({ u_warp: { type: 'sampler2D', size: 1, isArray: false } })
+    const bindings = bindPresetUniforms(program, {
+      warp: { type: 'float', value: 1 },
+      unused: { type: 'float', value: 1 },
+    })
+    expect(bindings).toEqual([])
+  })
+
+  it('rejects declarations that do not match the shader', () => {
+    const { program } = createProgram({
+      u_speed: { type: 'vec2', size: 1, isArray: false },
+      u_weights: { type: 'float', size: 4, isArray: true },
+    })
+    const bind = (uniforms: PresetUniforms): (() => void) => () => bindPresetUniforms(program, uniforms)
+
+    expect(bind({ speed: { type: 'float', value: 1 } })).toThrow('Uniform \'u_speed\' is declared as float but the shader has vec2')
+    expect(bind({ speed: { type: 'color', value: '#fff' } })).toThrow('declared as color but the shader has vec2')
+    expect(bind({ weights: { type: 'float', value: 1 } })).toThrow('Uniform \'u_weights\' is an array in the shader; set its count')
+    expect(bind({ speed: { type: 'vec2', value: [0, 0], count: 1 } })).toThrow('Uniform \'u_speed\' has a count but is not an array in the shader')
+    expect(bind({ weights: { type: 'float', value: [0, 0], count: 2 } })).toThrow('Uniform \'u_weights\' has 2 elements but the shader uses 4')
+  })
+})
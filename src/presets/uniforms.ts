@@ -0,0 +1,157 @@
+import type { Program, UniformSetter, UniformType } from '../core/Program'
+import type { ColorValue, HSVColor, PresetUniform, PresetUniforms, PresetUniformType } from './Preset'
+
+// Sets one declared uniform on one program from its current value
+export interface UniformBinding {
+  name: string
+  set: (uniform: PresetUniform) => void
+}
+
+const COMPONENT_COUNTS: Record<Exclude<PresetUniformType, 'color'>, number> = {
+  float: 1,
+  int: 1,
+  bool: 1,
+  vec2: 2,
+  vec3: 3,
+  vec4: 4,
+  ivec2: 2,
+  ivec3: 3,
+  ivec4: 4,
+  mat2: 4,
+  mat3: 9,
+  mat4: 16,
+}
+
+export const PRESET_UNIFORM_TYPES: PresetUniformType[] = [...Object.keys(COMPONENT_COUNTS) as PresetUniformType[], 'color']
+
+const HEX_COLOR_PATTERN = /^#(?:[0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i
+
+function isHSVColor(value: unknown): value is HSVColor {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function hsvToRgb({ h, s, v }: HSVColor): [number, number, number] {
+  const hue = (((h % 360) + 360) % 360) / 60
+  const channel = (n: number): number => {
+    const k = (n + hue) % 6
+    return v - v * s * Math.max(0, Math.min(k, 4 - k, 1))
+  }
+  return [channel(5), channel(3), channel(1)]
+}
+
+// RGBA from 0 to 1; alpha is 1 unless the colour gives one
+export function parseColor(color: ColorValue): [number, number, number, number] {
+  if (typeof color === 'string') {
+    if (!HEX_COLOR_PATTERN.test(color))
+      throw new Error(`'${color}' is not a hex colour`)
+
+    let hex = color.slice(1)
+    if (hex.length <= 4)
+      hex = hex.split('').map(digit => digit + digit).join('')
+    if (hex.length === 6)
+      hex += 'ff'
+    const channels = hex.match(/../g) as RegExpMatchArray
+    return channels.map(pair => Number.parseInt(pair, 16) / 255) as [number, number, number, number]
+  }
+
+  if (isHSVColor(color)) {
+    if (![color.h, color.s, color.v, color.a ?? 1].every(Number.isFinite))
+      throw new Error('HSV colours need numeric h, s and v')
+    return [...hsvToRgb(color), color.a ?? 1]
+  }
+
+  if (Array.isArray(color) && (color.length === 3 || color.length === 4) && color.every(value => typeof value === 'number'))
+    return [color[0], color[1], color[2], color[3] ?? 1]
+
+  throw new Error('A colour must be a hex string, { h, s, v } or an array of 3 or 4 numbers')
+}
+
+function validateUniform(uniform: PresetUniform): void {
+  if (!PRESET_UNIFORM_TYPES.includes(uniform.type))
+    throw new Error(`unknown type '${String(uniform.type)}'`)
+
+  const count = uniform.count
+  if (count !== undefined && (!Number.isInteger(count) || count < 1))
+    throw new Error(`count must be a positive integer, got ${count}`)
+
+  if (uniform.type === 'color') {
+    if (count === undefined) {
+      parseColor(uniform.value as ColorValue)
+      return
+    }
+    if (!Array.isArray(uniform.value) || uniform.value.length !== count)
+      throw new Error(`needs an array of ${count} colours`)
+    for (const color of uniform.value as ColorValue[]) {
+      parseColor(color)
+    }
+    return
+  }
+
+  // bool takes true/false or numbers; everything else numbers only
+  const valid = (value: unknown): boolean => typeof value === 'number' || (uniform.type === 'bool' && typeof value === 'boolean')
+  const length = COMPONENT_COUNTS[uniform.type] * (count ?? 1)
+  const values = Array.isArray(uniform.value) ? uniform.value : [uniform.value]
+  if (values.length !== length || !values.every(valid)) {
+    const kind = uniform.type === 'bool' ? 'boolean' : 'number'
+    throw new Error(length === 1 ? `needs a single ${kind}` : `needs an array of ${length} ${kind}s`)
+  }
+}
+
+// Check the shape of every value against its type before anything is compiled
+export function validatePresetUniforms(uniforms: PresetUniforms): void {
+  for (const [name, uniform] of Object.entries(uniforms)) {
+    try {
+      validateUniform(uniform)
+    }
+    catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error)
+      throw new Error(`Uniform '${name}': ${errorMessage}`)
+    }
+  }
+}
+
+// The numbers to upload; colours take as many components as the shader's vec3 or vec4
+function getUniformData(uniform: PresetUniform, colorComponents: number): number | number[] {
+  if (uniform.type === 'color') {
+    const colors = uniform.count === undefined ? [uniform.value as ColorValue] : uniform.value as ColorValue[]
+    return colors.flatMap(color => parseColor(color).slice(0, colorComponents))
+  }
+  if (uniform.type === 'bool') {
+    return Array.isArray(uniform.value)
+      ? (uniform.value as Array<number | boolean>).map(Number)
+      : Number(uniform.value)
+  }
+  return uniform.value as number | number[]
+}
+
+// Match each declared uniform the program uses against its GLSL declaration and
+// resolve its setter
+export function bindPresetUniforms(program: Program, uniforms: PresetUniforms): UniformBinding[] {
+  const bindings: UniformBinding[] = []
+
+  for (const [name, uniform] of Object.entries(uniforms)) {
+    const uniformName = `u_${name}`
+    const info = program.getUniformInfo(uniformName)
+    // Not declared or optimized out; samplers are passes and textures, bound by the render graph
+    if (!info || info.type.startsWith('sampler'))
+      continue
+
+    const expected = uniform.type === 'color' ? ['vec3', 'vec4'] : [uniform.type]
+    if (!expected.includes(info.type))
+      throw new Error(`Uniform '${uniformName}' is declared as ${uniform.type} but the shader has ${info.type}`)
+
+    if (uniform.count === undefined && info.isArray)
+      throw new Error(`Uniform '${uniformName}' is an array in the shader; set its count`)
+    if (uniform.count !== undefined && !info.isArray)
+      throw new Error(`Uniform '${uniformName}' has a count but is not an array in the shader`)
+    if (uniform.count !== undefined && uniform.count < info.size)
+      throw new Error(`Uniform '${uniformName}' has ${uniform.count} elements but the shader uses ${info.size}`)
+
+    const type = (uniform.type === 'color' ? info.type : uniform.type) as UniformType
+    const setter = program.createUniformSetter(uniformName, type) as UniformSetter
+    const colorComponents = info.type === 'vec4' ? 4 : 3
+    bindings.push({ name, set: current => setter(getUniformData(current, colorComponents)) })
+  }
+
+  return bindings
+}
@@ -0,0 +1,167 @@
+// Built-in shader modules, available to every preset as #include "hypercream/<name>"
+
+const uniforms = `// Uniforms set by PresetRunner
+uniform float u_time;
+uniform float u_deltaTime;
+uniform int u_frame;
+uniform vec2 u_resolution;
+uniform float u_energy;
+uniform float u_bass;
+uniform float u_mid;
+uniform float u_treble;
+uniform float u_treb;
+uniform float u_bassRel;
+uniform float u_midRel;
+uniform float u_trebRel;
+uniform float u_bassAtt;
+uniform float u_midAtt;
+uniform float u_trebAtt;
+uniform int u_beat;
+uniform int u_kick;
+uniform int u_snare;
+uniform int u_hat;
+uniform float u_onset;
+uniform float u_bpm;
+uniform float u_beatPhase;
+uniform float u_barPhase;
+uniform float u_tempoConfidence;
+uniform int u_floatAudio;
+uniform sampler2D u_previousFrame;
+uniform sampler2D u_spectrum;
+uniform sampler2D u_waveform;
+uniform sampler2D u_bands;
+uniform int u_bandCount;
+`
+
+const coords = `uniform vec2 u_resolution;
+
+// Normalized coordinates (0-1)
+vec2 getUV() {
+  return gl_FragCoord.xy / u_resolution.xy;
+}
+
+// Centered coordinates (-1 to 1 along the shorter side)
+vec2 getCenteredUV() {
+  return (gl_FragCoord.xy - u_resolution.xy * 0.5) / min(u_resolution.x, u_resolution.y);
+}
+
+// Rotate 2D point
+vec2 rotate(vec2 p, float angle) {
+  float c = cos(angle);
+  float s = sin(angle);
+  return vec2(p.x * c - p.y * s, p.x * s + p.y * c);
+}
+`
+
+const color = `// HSV to RGB conversion
+vec3 hsv2rgb(vec3 c) {
+  vec4 K = vec4(1.0, 2.0 / 3.0, 1.0 / 3.0, 3.0);
+  vec3 p = abs(fract(c.xxx + K.xyz) * 6.0 - K.www);
+  return c.z * mix(K.xxx, clamp(p - K.xxx, 0.0, 1.0), c.y);
+}
+
+// RGB to HSV conversion
+vec3 rgb2hsv(vec3 c) {
+  vec4 K = vec4(0.0, -1.0 / 3.0, 2.0 / 3.0, -1.0);
+  vec4 p = mix(vec4(c.bg, K.wz), vec4(c.gb, K.xy), step(c.b, c.g));
+  vec4 q = mix(vec4(p.xyw, c.r), vec4(c.r, p.yzx), step(p.x, c.r));
+  float d = q.x - min(q.w, q.y);
+  float e = 1.0e-10;
+  return vec3(abs(q.z + (q.w - q.y) / (6.0 * d + e)), d / (q.x + e), q.x);
+}
+
+// Perceived brightness
+float luminance(vec3 c) {
+  return dot(c, vec3(0.2126, 0.7152, 0.0722));
+}
+`
+
+const noise = `// Simple noise function
+float noise(vec2 p) {
+  return fract(sin(dot(p, vec2(12.9898, 78.233))) * 43758.5453);
+}
+
+// Smooth noise
+float smoothNoise(vec2 p) {
+  vec2 i = floor(p);
+  vec2 f = fract(p);
+
+  float a = noise(i);
+  float b = noise(i + vec2(1.0, 0.0));
+  float c = noise(i + vec2(0.0, 1.0));
+  float d = noise(i + vec2(1.0, 1.0));
+
+  vec2 u = f * f * (3.0 - 2.0 * f);
+
+  return mix(a, b, u.x) + (c - a) * u.y * (1.0 - u.x) + (d - b) * u.x * u.y;
+}
+`
+
+const audio = `uniform sampler2D u_spectrum;
+uniform sampler2D u_waveform;
+uniform sampler2D u_bands;
+uniform int u_beat;
+
+// Get audio spectrum value at normalized frequency
+float getSpectrum(float freq) {
+  return texture(u_spectrum, vec2(freq, 0.5)).r;
+}
+
+// Get waveform value at normalized time position
+float getWaveform(float pos) {
+  return texture(u_waveform, vec2(pos, 0.5)).r;
+}
+
+// Get band level at normalized position (0 = lowest band, 1 = highest)
+float getBand(float pos) {
+  return texture(u_bands, vec2(pos, 0.25)).r;
+}
+
+// Get held peak of the band at normalized position
+float getBandPeak(float pos) {
+  return texture(u_bands, vec2(pos, 0.75)).r;
+}
+
+// Beat pulse function
+float beatPulse() {
+  return u_beat == 1 ? 1.0 : 0.0;
+}
+`
+
+const sdf = `// Distance to line segment
+float sdSegment(vec2 p, vec2 a, vec2 b) {
+  vec2 pa = p - a;
+  vec2 ba = b - a;
+  float h = clamp(dot(pa, ba) / dot(ba, ba), 0.0, 1.0);
+  return length(pa - ba * h);
+}
+
+// Distance to circle
+float sdCircle(vec2 p, float r) {
+  return length(p) - r;
+}
+
+// Distance to axis-aligned box with half-size b
+float sdBox(vec2 p, vec2 b) {
+  vec2 d = abs(p) - b;
+  return length(max(d, 0.0)) + min(max(d.x, d.y), 0.0);
+}
+`
+
+const common = `#include "hypercream/uniforms"
+#include "hypercream/coords"
+#include "hypercream/color"
+#include "hypercream/noise"
+#include "hypercream/audio"
+#include "hypercream/sdf"
+`
+
+export const BUILTIN_SHADER_MODULES: Record<string, string> = {
+  'hypercream/uniforms': uniforms,
+  'hypercream/coords': coords,
+  'hypercream/color': color,
+  'hypercream/noise': noise,
+  'hypercream/audio': audio,
+  'hypercream/sdf': sdf,
+  'hypercream/common': common,
+}